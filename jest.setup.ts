@@ -0,0 +1,16 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import logger from "./src/utils/logger";
+
+// Modules create their singletons on import, so the environment they read
+// is set before each test file loads them
+process.env.NODE_ENV = "test";
+process.env.BASE_RPC_URL = "http://127.0.0.1:8545";
+process.env.INDEXER_ENABLED = "false";
+process.env.DATA_DIR = fs.mkdtempSync(
+  path.join(os.tmpdir(), "quest-verification-test-")
+);
+
+// Keep test output readable
+logger.silent = true;
@@ -0,0 +1,119 @@
+import { Request, Response } from "express";
+import {
+  RESPONSE_FORMATS,
+  getRequestedFormat,
+  getResponseAdapter,
+  sendVerificationError,
+} from "./response-adapters";
+
+/**
+ * Build a request and response for a format query parameter and a partner
+ * response format
+ */
+function context(format?: string, partnerFormat?: string) {
+  const req = { query: format ? { format } : {} } as unknown as Request;
+  const res = {
+    locals: partnerFormat ? { partner: { responseFormat: partnerFormat } } : {},
+  } as unknown as Response;
+  return { req, res };
+}
+
+const adapterFor = (format: string) => {
+  const { req, res } = context(format);
+  return getResponseAdapter(req, res);
+};
+
+describe("response format selection", () => {
+  it("prefers the format query parameter over the partner format", () => {
+    const { req, res } = context("TaskOn", "zealy");
+    expect(getRequestedFormat(req, res)).toBe("taskon");
+  });
+
+  it("uses the partner format, then galxe", () => {
+    const partner = context(undefined, "zealy");
+    expect(getRequestedFormat(partner.req, partner.res)).toBe("zealy");
+
+    const anonymous = context();
+    expect(getRequestedFormat(anonymous.req, anonymous.res)).toBe("galxe");
+  });
+
+  it("falls back to galxe for unknown formats", () => {
+    expect(adapterFor("unknown").verdict(true)).toEqual({
+      status: 200,
+      body: { result: 1 },
+    });
+  });
+});
+
+describe("response adapters", () => {
+  it.each([
+    ["galxe", { result: 1 }, { result: 0 }],
+    ["layer3", { success: true }, { success: false }],
+    [
+      "questn",
+      { code: 0, message: "", data: { result: true } },
+      { code: 0, message: "", data: { result: false } },
+    ],
+    [
+      "taskon",
+      { result: { isValid: true }, error: null },
+      { result: { isValid: false }, error: null },
+    ],
+    [
+      "intract",
+      { error: { code: 0, message: "" }, data: { result: true } },
+      { error: { code: 0, message: "" }, data: { result: false } },
+    ],
+  ])("%s reports verdicts with HTTP 200", (format, eligible, notEligible) => {
+    expect(adapterFor(format).verdict(true)).toEqual({
+      status: 200,
+      body: eligible,
+    });
+    expect(adapterFor(format).verdict(false)).toEqual({
+      status: 200,
+      body: notEligible,
+    });
+  });
+
+  it("zealy reports ineligible addresses with a 400 message", () => {
+    expect(adapterFor("zealy").verdict(false)).toEqual({
+      status: 400,
+      body: { message: "Address has not completed the required action" },
+    });
+  });
+
+  it.each(["questn", "taskon", "intract"])(
+    "%s reports rejected requests with HTTP 200",
+    (format) => {
+      expect(adapterFor(format).error(400, "Invalid address").status).toBe(200);
+      expect(adapterFor(format).error(403, "Forbidden").status).toBe(200);
+    }
+  );
+
+  it.each(RESPONSE_FORMATS)(
+    "%s keeps retryable statuses so undecided addresses are retried",
+    (format) => {
+      expect(adapterFor(format).error(503, "RPC unavailable").status).toBe(503);
+      expect(adapterFor(format).error(429, "Too many requests").status).toBe(
+        429
+      );
+    }
+  );
+
+  it("sends errors in the requested format", () => {
+    const { req } = context("intract");
+    const res = {
+      locals: {},
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    };
+
+    sendVerificationError(req, res as unknown as Response, 503, "Timed out");
+
+    expect(res.status).toHaveBeenCalledWith(503);
+    expect(res.json).toHaveBeenCalledWith({
+      error: { code: 503, message: "Timed out" },
+      data: { result: false },
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import { Request, Response } from "express";
+import { IPartner } from "../config/partner-loader";
+
+// Format used when neither the request nor the partner selects one
+export const DEFAULT_RESPONSE_FORMAT = "galxe";
+
+// Statuses sent with a Retry-After header: the address was not decided, so
+// they are kept by every format instead of being reported as not eligible
+const RETRY_STATUSES = [429, 503];
+
+/**
+ * HTTP status and payload produced by an adapter
+ */
+export interface IAdapterResponse {
+  status: number;
+  body: Record<string, any>;
+}
+
+/**
+ * Translates verification outcomes into a quest platform's expected payload
+ */
+export interface IResponseAdapter {
+  /**
+   * Build the response for a completed verification
+   * @param eligible Whether the address satisfied the check
+   */
+  verdict(eligible: boolean): IAdapterResponse;
+
+  /**
+   * Build the response for a rejected or failed verification
+   * @param status HTTP status the API would use (400, 401, 403, 429, 500,
+   * 503 for indeterminate results...)
+   * @param message Error message
+   */
+  error(status: number, message: string): IAdapterResponse;
+}
+
+/**
+ * Galxe: `{ result: 0|1 }`, errors keep their HTTP status
+ */
+const galxeAdapter: IResponseAdapter = {
+  verdict: (eligible) => ({
+    status: 200,
+    body: { result: eligible ? 1 : 0 },
+  }),
+  error: (status, message) => ({
+    status,
+    body: { result: 0, error: message },
+  }),
+};
+
+/**
+ * Zealy: any 2xx means the task is completed, a 400 with a `message`
+ * is shown to the user otherwise
+ */
+const zealyAdapter: IResponseAdapter = {
+  verdict: (eligible) =>
+    eligible
+      ? { status: 200, body: { success: true } }
+      : {
+          status: 400,
+          body: { message: "Address has not completed the required action" },
+        },
+  error: (status, message) => ({
+    status,
+    body: { message },
+  }),
+};
+
+/**
+ * Layer3: `{ success: boolean }`
+ */
+const layer3Adapter: IResponseAdapter = {
+  verdict: (eligible) => ({
+    status: 200,
+    body: { success: eligible },
+  }),
+  error: (status, message) => ({
+    status,
+    body: { success: false, error: message },
+  }),
+};
+
+/**
+ * Status used by formats that report errors with HTTP 200
+ * Retryable statuses are kept so undecided addresses are retried
+ * @param status HTTP status the API would use
+ */
+function platformErrorStatus(status: number): number {
+  return RETRY_STATUSES.includes(status) ? status : 200;
+}
+
+/**
+ * QuestN: `{ code, message, data: { result } }`, HTTP 200 with the status
+ * carried in `code` (0 on success), except for retryable errors
+ */
+const questnAdapter: IResponseAdapter = {
+  verdict: (eligible) => ({
+    status: 200,
+    body: { code: 0, message: "", data: { result: eligible } },
+  }),
+  error: (status, message) => ({
+    status: platformErrorStatus(status),
+    body: { code: status, message, data: { result: false } },
+  }),
+};
+
+/**
+ * TaskOn: `{ result: { isValid }, error }`, HTTP 200 except for retryable
+ * errors
+ */
+const taskonAdapter: IResponseAdapter = {
+  verdict: (eligible) => ({
+    status: 200,
+    body: { result: { isValid: eligible }, error: null },
+  }),
+  error: (status, message) => ({
+    status: platformErrorStatus(status),
+    body: { result: { isValid: false }, error: message },
+  }),
+};
+
+/**
+ * Intract: `{ error: { code, message }, data: { result } }`, HTTP 200 except
+ * for retryable errors
+ */
+const intractAdapter: IResponseAdapter = {
+  verdict: (eligible) => ({
+    status: 200,
+    body: { error: { code: 0, message: "" }, data: { result: eligible } },
+  }),
+  error: (status, message) => ({
+    status: platformErrorStatus(status),
+    body: { error: { code: status, message }, data: { result: false } },
+  }),
+};
+
+// Registered adapters by format name
+const adapters: Record<string, IResponseAdapter> = {
+  galxe: galxeAdapter,
+  zealy: zealyAdapter,
+  layer3: layer3Adapter,
+  questn: questnAdapter,
+  taskon: taskonAdapter,
+  intract: intractAdapter,
+};
+
+/**
+ * Names of the supported response formats
+ */
+export const RESPONSE_FORMATS = Object.keys(adapters);
+
+/**
+ * Check if a response format is supported
+ * @param format Format name
+ */
+export function isSupportedFormat(format: string): boolean {
+  return Object.prototype.hasOwnProperty.call(adapters, format);
+}
+
+/**
+ * Get the response format requested for a verification
+ * The `format` query parameter wins over the partner's configured format
+ * @param req Express request
+ * @param res Express response (res.locals.partner is set by partnerAuth)
+ * @returns Format name, possibly unsupported
+ */
+export function getRequestedFormat(req: Request, res: Response): string {
+  if (typeof req.query.format === "string" && req.query.format) {
+    return req.query.format.toLowerCase();
+  }
+
+  const partner: IPartner | undefined = res.locals.partner;
+  return partner?.responseFormat || DEFAULT_RESPONSE_FORMAT;
+}
+
+/**
+ * Get the adapter for a request, falling back to the default format
+ * @param req Express request
+ * @param res Express response
+ */
+export function getResponseAdapter(
+  req: Request,
+  res: Response
+): IResponseAdapter {
+  const format = getRequestedFormat(req, res);
+  return isSupportedFormat(format)
+    ? adapters[format]
+    : adapters[DEFAULT_RESPONSE_FORMAT];
+}
+
+/**
+ * Send a verification verdict in the requested format
+ * @param req Express request
+ * @param res Express response
+ * @param eligible Whether the address satisfied the check
+ * @param extra Optional fields added to the payload (e.g. explain details)
+ */
+export function sendVerdict(
+  req: Request,
+  res: Response,
+  eligible: boolean,
+  extra: Record<string, any> = {}
+): void {
+  const { status, body } = getResponseAdapter(req, res).verdict(eligible);
+  res.status(status).json({ ...body, ...extra });
+}
+
+/**
+ * Send a verification error in the requested format
+ * @param req Express request
+ * @param res Express response
+ * @param status HTTP status the API would use
+ * @param message Error message
+ */
+export function sendVerificationError(
+  req: Request,
+  res: Response,
+  status: number,
+  message: string
+): void {
+  const response = getResponseAdapter(req, res).error(status, message);
+  res.status(response.status).json(response.body);
+}
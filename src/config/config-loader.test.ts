@@ -0,0 +1,560 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { MAX_CAMPAIGN_WINDOWS } from "../utils/schedule";
+import type configLoaderInstance from "./config-loader";
+
+const STAKING_ABI = [
+  "event Staked(address indexed user, address indexed pool, uint256 amount)",
+  "event Claimed(address user, uint256 amount)",
+];
+
+let configDir: string;
+
+/**
+ * Load a fresh config loader for a configuration file
+ * @param config Configuration file content
+ * @returns Config loader singleton of the fresh module
+ */
+function loadConfig(config: object): typeof configLoaderInstance {
+  const configPath = path.join(configDir, "contracts.json");
+  fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
+  process.env.CONFIG_PATH = configPath;
+
+  let loader!: typeof configLoaderInstance;
+  jest.isolateModules(() => {
+    require("../utils/logger").default.silent = true;
+    loader = require("./config-loader").default;
+  });
+  return loader;
+}
+
+/**
+ * Build a configuration with a single contract
+ * @param contract Fields overriding the default contract
+ */
+function withContract(contract: object = {}) {
+  return {
+    contracts: {
+      staking: {
+        name: "Staking",
+        address: "0x940181a94a35a4569e4529a3cdfb74e38fd98631",
+        rpcUrlRef: "BASE_RPC_URL",
+        chainId: 8453,
+        campaigns: {
+          launch: {
+            name: "Launch",
+            startDate: "2025-01-01T00:00:00Z",
+            endDate: "2025-01-31T23:59:59Z",
+          },
+        },
+        ...contract,
+      },
+    },
+  };
+}
+
+beforeEach(() => {
+  configDir = fs.mkdtempSync(path.join(os.tmpdir(), "config-loader-"));
+});
+
+afterAll(() => {
+  delete process.env.CONFIG_PATH;
+});
+
+describe("contract ABI and interaction events", () => {
+  it("defaults to ERC-20 Transfer events", () => {
+    const contract = loadConfig(withContract()).getContractConfig("staking");
+
+    expect(contract.interactionEvents).toEqual([
+      { event: "Transfer", userArgs: ["from", "to"] },
+    ]);
+  });
+
+  it("accepts an inline ABI with custom interaction events", () => {
+    const interactionEvents = [{ event: "Staked", userArgs: ["user"] }];
+    const contract = loadConfig(
+      withContract({ abi: STAKING_ABI, interactionEvents })
+    ).getContractConfig("staking");
+
+    expect(contract.abi).toEqual(STAKING_ABI);
+    expect(contract.interactionEvents).toEqual(interactionEvents);
+  });
+
+  it("loads build artifacts relative to the configuration file", () => {
+    fs.writeFileSync(
+      path.join(configDir, "Staking.json"),
+      JSON.stringify({ contractName: "Staking", abi: STAKING_ABI })
+    );
+    const contract = loadConfig(
+      withContract({
+        abi: "./Staking.json",
+        interactionEvents: [{ event: "Staked", userArgs: ["user", "pool"] }],
+      })
+    ).getContractConfig("staking");
+
+    expect(contract.abi).toEqual(STAKING_ABI);
+  });
+
+  it("requires interaction events with a custom ABI", () => {
+    expect(() => loadConfig(withContract({ abi: STAKING_ABI }))).toThrow(
+      /interactionEvents/
+    );
+  });
+
+  it("rejects missing ABI files", () => {
+    expect(() =>
+      loadConfig(
+        withContract({
+          abi: "./Missing.json",
+          interactionEvents: [{ event: "Staked", userArgs: ["user"] }],
+        })
+      )
+    ).toThrow(/Failed to load ABI for contract staking/);
+  });
+
+  it("rejects events that are not in the ABI", () => {
+    expect(() =>
+      loadConfig(
+        withContract({
+          abi: STAKING_ABI,
+          interactionEvents: [{ event: "Withdrawn", userArgs: ["user"] }],
+        })
+      )
+    ).toThrow("interaction event Withdrawn not found in ABI");
+  });
+
+  it("rejects user arguments that cannot be filtered by topic", () => {
+    expect(() =>
+      loadConfig(
+        withContract({
+          abi: STAKING_ABI,
+          interactionEvents: [{ event: "Claimed", userArgs: ["user"] }],
+        })
+      )
+    ).toThrow("argument user on event Claimed must be an indexed address");
+    expect(() =>
+      loadConfig(
+        withContract({
+          abi: STAKING_ABI,
+          interactionEvents: [{ event: "Staked", userArgs: ["owner"] }],
+        })
+      )
+    ).toThrow("argument owner not found on event Staked");
+  });
+});
+
+describe("campaign criteria", () => {
+  const withCriteria = (criteria: object) =>
+    withContract({
+      abi: STAKING_ABI,
+      interactionEvents: [{ event: "Staked", userArgs: ["user"] }],
+      campaigns: {
+        launch: {
+          name: "Launch",
+          startDate: "2025-01-01T00:00:00Z",
+          endDate: "2025-01-31T23:59:59Z",
+          criteria,
+        },
+      },
+    });
+
+  it("applies the value defaults", () => {
+    const campaign = loadConfig(
+      withCriteria({ minEventCount: 2 })
+    ).getCampaignConfig("staking", "launch");
+
+    expect(campaign?.criteria).toEqual({
+      minEventCount: 2,
+      valueArg: "value",
+      valueDecimals: 18,
+    });
+  });
+
+  it("requires at least one threshold", () => {
+    expect(() => loadConfig(withCriteria({ events: ["Staked"] }))).toThrow(
+      /minEventCount/
+    );
+  });
+
+  it("rejects events that are not interaction events", () => {
+    expect(() =>
+      loadConfig(withCriteria({ minEventCount: 2, events: ["Claimed"] }))
+    ).toThrow("criteria event Claimed is not an interaction event");
+  });
+
+  it("rejects value sums over a non-numeric argument", () => {
+    expect(() =>
+      loadConfig(withCriteria({ minTotalValue: "100", valueArg: "pool" }))
+    ).toThrow("event Staked has no numeric pool argument for minTotalValue");
+    expect(() =>
+      loadConfig(withCriteria({ minTotalValue: "100", valueArg: "amount" }))
+    ).not.toThrow();
+  });
+});
+
+describe("composite campaigns", () => {
+  const withComposite = (rule: object) => ({
+    ...withContract(),
+    compositeCampaigns: {
+      combo: {
+        name: "Combo",
+        startDate: "2025-01-01T00:00:00Z",
+        endDate: "2025-01-31T23:59:59Z",
+        rule,
+      },
+    },
+  });
+
+  it("accepts nested and/or/not rules", () => {
+    const rule = {
+      and: [
+        { contract: "staking", campaign: "launch" },
+        { not: { or: [{ contract: "staking" }] } },
+      ],
+    };
+
+    expect(
+      loadConfig(withComposite(rule)).getCompositeCampaign("combo")?.rule
+    ).toEqual(rule);
+  });
+
+  it("rejects leaves referencing unknown contracts or campaigns", () => {
+    expect(() =>
+      loadConfig(withComposite({ or: [{ contract: "lending" }] }))
+    ).toThrow("Composite campaign combo: contract lending not found");
+    expect(() =>
+      loadConfig(
+        withComposite({ not: { contract: "staking", campaign: "summer" } })
+      )
+    ).toThrow("Composite campaign combo: campaign staking/summer not found");
+  });
+
+  it("rejects empty operators", () => {
+    expect(() => loadConfig(withComposite({ and: [] }))).toThrow(
+      /Configuration validation error/
+    );
+  });
+});
+
+describe("campaign strictness", () => {
+  const withStrictness = (strictness?: string) => {
+    const config = withContract();
+    Object.assign(config.contracts.staking.campaigns.launch, { strictness });
+    return config;
+  };
+
+  it("defaults to strict", () => {
+    expect(
+      loadConfig(withStrictness()).getCampaignConfig("staking", "launch")
+        ?.strictness
+    ).toBe("strict");
+  });
+
+  it("only accepts strict or heuristic", () => {
+    expect(
+      loadConfig(withStrictness("heuristic")).getCampaignConfig(
+        "staking",
+        "launch"
+      )?.strictness
+    ).toBe("heuristic");
+    expect(() => loadConfig(withStrictness("lenient"))).toThrow(
+      /Configuration validation error/
+    );
+  });
+});
+
+describe("configuration reloads", () => {
+  const rewrite = (config: object) =>
+    fs.writeFileSync(
+      process.env.CONFIG_PATH as string,
+      JSON.stringify(config, null, 2)
+    );
+
+  const withCampaign = (campaign: object) =>
+    withContract({
+      campaigns: {
+        launch: {
+          name: "Launch",
+          startDate: "2025-01-01T00:00:00Z",
+          endDate: "2025-01-31T23:59:59Z",
+          ...campaign,
+        },
+      },
+    });
+
+  it("reports modified campaign fields", () => {
+    const loader = loadConfig(withContract());
+    rewrite(
+      withCampaign({ name: "Launch week", endDate: "2025-02-07T00:00:00Z" })
+    );
+
+    expect(loader.reloadConfig()).toEqual({
+      contracts: [
+        {
+          id: "staking",
+          change: "modified",
+          fields: [],
+          campaigns: [
+            { id: "launch", change: "modified", fields: ["name", "endDate"] },
+          ],
+        },
+      ],
+      compositeCampaigns: [],
+    });
+    expect(loader.getCampaignConfig("staking", "launch")?.name).toBe(
+      "Launch week"
+    );
+  });
+
+  it("reports added and removed contracts", () => {
+    const loader = loadConfig(withContract());
+    const { staking } = withContract().contracts;
+    rewrite({ contracts: { lending: staking } });
+
+    expect(loader.reloadConfig().contracts).toEqual([
+      { id: "staking", change: "removed", fields: [], campaigns: [] },
+      { id: "lending", change: "added", fields: [], campaigns: [] },
+    ]);
+    expect(loader.getAvailableContracts()).toEqual(["lending"]);
+  });
+
+  it("previews a reload without applying it", () => {
+    const loader = loadConfig(withContract());
+    rewrite(withContract({ chainId: 1 }));
+
+    expect(loader.previewReload().contracts).toEqual([
+      { id: "staking", change: "modified", fields: ["chainId"], campaigns: [] },
+    ]);
+    expect(loader.getContractConfig("staking").chainId).toBe(8453);
+  });
+
+  it("keeps the current configuration when the file is invalid", () => {
+    const loader = loadConfig(withContract());
+    rewrite(withContract({ chainId: "base" }));
+
+    expect(() => loader.reloadConfig()).toThrow();
+    expect(loader.getContractConfig("staking").chainId).toBe(8453);
+    expect(loader.getReloadStatus().lastError?.message).toMatch(/chainId/);
+  });
+
+  it("rolls back and restores listeners when one of them fails", () => {
+    const loader = loadConfig(withContract());
+    const applied: string[][] = [];
+    loader.onReload((diff) => {
+      applied.push(diff.contracts.map((c) => `${c.id} ${c.change}`));
+      if (applied.length === 1) {
+        throw new Error("listener failed");
+      }
+    });
+    rewrite(withContract({ chainId: 1 }));
+
+    expect(() => loader.reloadConfig()).toThrow("listener failed");
+    expect(loader.getContractConfig("staking").chainId).toBe(8453);
+    // The listener was notified of the change, then of its reversal
+    expect(applied).toEqual([["staking modified"], ["staking modified"]]);
+    expect(loader.getReloadStatus()).toMatchObject({
+      reloadedAt: null,
+      lastError: { message: "Error: listener failed" },
+    });
+  });
+});
+
+describe("configuration file changes", () => {
+  const readFile = () =>
+    JSON.parse(fs.readFileSync(process.env.CONFIG_PATH as string, "utf8"));
+
+  /**
+   * Get the error thrown by a function
+   * Error classes of a freshly loaded module are not those imported here, so
+   * errors are told apart by name
+   */
+  const thrown = (fn: () => unknown): Error => {
+    try {
+      fn();
+    } catch (error: any) {
+      return error;
+    }
+    throw new Error("Expected an error");
+  };
+
+  const summer = {
+    name: "Summer",
+    startDate: "2025-06-01T00:00:00Z",
+    endDate: "2025-06-30T23:59:59Z",
+  };
+
+  it("saves a campaign to the file and applies it", () => {
+    const loader = loadConfig(withContract());
+
+    const diff = loader.saveCampaign("staking", "summer", summer);
+
+    expect(diff.contracts[0].campaigns).toEqual([
+      { id: "summer", change: "added", fields: [] },
+    ]);
+    expect(readFile().contracts.staking.campaigns.summer).toEqual(summer);
+    expect(loader.getCampaignConfig("staking", "summer")?.name).toBe("Summer");
+  });
+
+  it("keeps the campaigns of a contract saved without campaigns", () => {
+    const loader = loadConfig(withContract());
+    const { campaigns, ...contract } = withContract().contracts.staking;
+
+    loader.saveContract("staking", { ...contract, name: "Staking v2" });
+
+    expect(readFile().contracts.staking).toEqual({
+      ...contract,
+      name: "Staking v2",
+      campaigns,
+    });
+    expect(loader.getCampaignConfig("staking", "launch")).not.toBeNull();
+  });
+
+  it("deletes contracts and campaigns", () => {
+    const loader = loadConfig(withContract());
+
+    loader.deleteCampaign("staking", "launch");
+    expect(readFile().contracts.staking.campaigns).toEqual({});
+
+    loader.deleteContract("staking");
+    expect(readFile().contracts).toEqual({});
+    expect(loader.getAvailableContracts()).toEqual([]);
+  });
+
+  it("throws ConfigNotFoundError for unknown contracts and campaigns", () => {
+    const loader = loadConfig(withContract());
+    const before = readFile();
+
+    for (const [change, message] of [
+      [() => loader.deleteContract("lending"), "Contract not found: lending"],
+      [
+        () => loader.saveCampaign("lending", "summer", summer),
+        "Contract not found: lending",
+      ],
+      [
+        () => loader.deleteCampaign("staking", "summer"),
+        "Campaign not found: summer",
+      ],
+    ] as const) {
+      expect(thrown(change)).toMatchObject({
+        name: "ConfigNotFoundError",
+        message,
+      });
+    }
+    expect(readFile()).toEqual(before);
+  });
+
+  it("rejects changes leaving an invalid configuration", () => {
+    const loader = loadConfig({
+      ...withContract(),
+      compositeCampaigns: {
+        combo: {
+          name: "Combo",
+          startDate: "2025-01-01T00:00:00Z",
+          endDate: "2025-01-31T23:59:59Z",
+          rule: { contract: "staking", campaign: "launch" },
+        },
+      },
+    });
+    const before = readFile();
+
+    expect(
+      thrown(() => loader.deleteCampaign("staking", "launch"))
+    ).toMatchObject({
+      name: "ConfigValidationError",
+      message: expect.stringContaining("campaign staking/launch not found"),
+    });
+    expect(
+      thrown(() => loader.saveCampaign("staking", "summer", { name: "Summer" }))
+    ).toMatchObject({ name: "ConfigValidationError" });
+    expect(readFile()).toEqual(before);
+  });
+
+  it("restores the file and configuration when applying fails", () => {
+    const loader = loadConfig(withContract());
+    const before = fs.readFileSync(process.env.CONFIG_PATH as string, "utf8");
+    const failure = new Error("listener failed");
+    loader.onReload((diff) => {
+      if (diff.contracts[0]?.campaigns[0]?.change === "added") {
+        throw failure;
+      }
+    });
+
+    expect(thrown(() => loader.saveCampaign("staking", "summer", summer))).toBe(
+      failure
+    );
+    expect(fs.readFileSync(process.env.CONFIG_PATH as string, "utf8")).toBe(
+      before
+    );
+    expect(loader.getCampaignConfig("staking", "summer")).toBeNull();
+  });
+});
+
+describe("campaign schedules", () => {
+  const withSchedule = (schedule: object) =>
+    withContract({
+      campaigns: { launch: { name: "Launch", ...schedule } },
+    });
+
+  it("defaults the timezone to UTC and accepts recurring campaigns", () => {
+    const campaign = loadConfig(
+      withSchedule({
+        startDate: "2025-03-01",
+        endDate: "2025-03-31",
+        timezone: "America/New_York",
+        recurrence: { frequency: "weekly" },
+      })
+    ).getCampaignConfig("staking", "launch");
+
+    expect(campaign?.recurrence).toEqual({
+      frequency: "weekly",
+      interval: 1,
+      epochSeconds: 604800,
+    });
+    expect(
+      loadConfig(withContract()).getCampaignConfig("staking", "launch")
+        ?.timezone
+    ).toBe("UTC");
+  });
+
+  it("rejects unknown timezones", () => {
+    expect(() =>
+      loadConfig(
+        withSchedule({
+          startDate: "2025-03-01",
+          endDate: "2025-03-31",
+          timezone: "Mars/Olympus_Mons",
+        })
+      )
+    ).toThrow(/Configuration validation error/);
+  });
+
+  it("requires ISO 8601 dates when a timezone is set", () => {
+    expect(() =>
+      loadConfig(
+        withSchedule({
+          startDate: "March 1, 2025",
+          endDate: "2025-03-31",
+          timezone: "America/New_York",
+        })
+      )
+    ).toThrow("dates must be ISO 8601");
+    expect(
+      loadConfig(
+        withSchedule({ startDate: "March 1, 2025 UTC", endDate: "2025-03-31" })
+      ).getCampaignConfig("staking", "launch")
+    ).not.toBeNull();
+  });
+
+  it("rejects recurrences with too many windows", () => {
+    expect(() =>
+      loadConfig(
+        withSchedule({
+          startDate: "2020-01-01",
+          endDate: "2025-12-31",
+          recurrence: { frequency: "daily" },
+        })
+      )
+    ).toThrow(`windows (max ${MAX_CAMPAIGN_WINDOWS})`);
+  });
+});
@@ -2,7 +2,19 @@ import fs from "fs";
 import path from "path";
 import dotenv from "dotenv";
 import joi from "joi";
+import { ethers } from "ethers";
 import logger from "../utils/logger";
+import {
+  ICampaignRecurrence,
+  ICampaignWindow,
+  MAX_CAMPAIGN_WINDOWS,
+  countCampaignWindows,
+  findCampaignWindow,
+  getCampaignSpan,
+  getCampaignWindow,
+  isIsoScheduleDate,
+  isValidTimezone,
+} from "../utils/schedule";
 
 // Load environment variables
 dotenv.config();
@@ -16,6 +28,29 @@ const envSchema = joi
       .required(),
     PORT: joi.number().default(3001),
     CONFIG_PATH: joi.string().default("./src/config/contracts.json"),
+    PARTNERS_PATH: joi.string().default("./src/config/partners.json"),
+    DATA_DIR: joi.string().default("./data"),
+    INDEXER_ENABLED: joi.boolean().default(true),
+    MAX_BATCH_SIZE: joi.number().integer().min(1).default(500),
+    ALLOW_ANONYMOUS: joi.boolean().default(true),
+    ANON_RATE_LIMIT_PER_MINUTE: joi.number().integer().min(1).default(60),
+    TRUST_PROXY: joi.number().integer().min(0).default(0),
+    ATTESTATION_TTL: joi.number().integer().min(60).default(86400),
+    JOB_CONCURRENCY: joi.number().integer().min(1).default(2),
+    JOB_TTL: joi.number().integer().min(60).default(86400),
+    READY_MAX_HEAD_LAG: joi.number().integer().min(1).default(300),
+    CONFIG_WATCH: joi.boolean().default(true),
+    ENS_RPC_URL: joi.string().allow(""),
+    ENS_REGISTRY_ADDRESS: joi
+      .string()
+      .pattern(/^0x[a-fA-F0-9]{40}$/)
+      .default("0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e"),
+    BASENAME_RPC_URL: joi.string().allow(""),
+    BASENAME_REGISTRY_ADDRESS: joi
+      .string()
+      .pattern(/^0x[a-fA-F0-9]{40}$/)
+      .default("0xb94704422c2a1e396835a571837aa5ae53285a95"),
+    NAME_CACHE_TTL: joi.number().integer().min(1).default(3600),
   })
   .unknown();
 
@@ -25,12 +60,71 @@ if (error) {
   throw new Error(`Environment validation error: ${error.message}`);
 }
 
+/**
+ * Default ABI used when a contract does not configure one
+ * Core ABI elements needed for interactions with an ERC-20 token contract
+ */
+export const DEFAULT_ABI = [
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+  "event Approval(address indexed owner, address indexed spender, uint256 value)",
+  "function mint(address account, uint256 amount) external returns (bool)",
+  "function setMinter(address _minter)",
+  "function transfer(address to, uint256 amount) external returns (bool)",
+  "function approve(address spender, uint256 amount) external returns (bool)",
+  "function transferFrom(address from, address to, uint256 amount) external returns (bool)",
+  "function minter() view returns (address)",
+];
+
+/**
+ * Default interaction events: the address sent or received a Transfer
+ */
+export const DEFAULT_INTERACTION_EVENTS: IInteractionEvent[] = [
+  { event: "Transfer", userArgs: ["from", "to"] },
+];
+
+// Define the interaction event schema for validation
+const interactionEventSchema = joi.object({
+  event: joi.string().required(),
+  userArgs: joi.array().items(joi.string()).min(1).required(),
+});
+
+// Define the campaign criteria schema for validation
+const campaignCriteriaSchema = joi
+  .object({
+    events: joi.array().items(joi.string()).min(1),
+    minEventCount: joi.number().integer().min(1),
+    minTotalValue: joi.string().pattern(/^\d+(\.\d+)?$/),
+    valueArg: joi.string().default("value"),
+    valueDecimals: joi.number().integer().min(0).max(77).default(18),
+    minDistinctDays: joi.number().integer().min(1),
+  })
+  .or("minEventCount", "minTotalValue", "minDistinctDays");
+
+// Define the timezone schema (IANA names) for validation
+const timezoneSchema = joi
+  .string()
+  .custom((value, helpers) =>
+    isValidTimezone(value) ? value : helpers.error("any.invalid")
+  )
+  .default("UTC");
+
+// Define the campaign recurrence schema for validation
+const recurrenceSchema = joi.object({
+  frequency: joi.string().valid("daily", "weekly", "epoch").required(),
+  interval: joi.number().integer().min(1).default(1),
+  epochSeconds: joi.number().integer().min(3600).default(604800),
+});
+
 // Define the campaign schema for validation
 const campaignSchema = joi.object({
   name: joi.string().required(),
   startDate: joi.string().required(),
   endDate: joi.string().required(),
+  timezone: timezoneSchema,
+  recurrence: recurrenceSchema,
   description: joi.string().allow(""),
+  criteria: campaignCriteriaSchema,
+  strictness: joi.string().valid("strict", "heuristic").default("strict"),
 });
 
 // Define the contract schema for validation
@@ -40,20 +134,91 @@ const contractSchema = joi.object({
   rpcUrlRef: joi.string().required(),
   fallbackRpcUrlRefs: joi.array().items(joi.string()).default([]),
   chainId: joi.number().required(),
+  abi: joi
+    .alternatives()
+    .try(
+      joi.string(),
+      joi.array().items(joi.alternatives().try(joi.string(), joi.object()))
+    ),
+  interactionEvents: joi
+    .array()
+    .items(interactionEventSchema)
+    .min(1)
+    .when("abi", { is: joi.exist(), then: joi.required() }),
+  indexer: joi.object({
+    enabled: joi.boolean().default(true),
+    startBlock: joi.number().integer().min(0).required(),
+  }),
   campaigns: joi
     .object()
     .pattern(/^[a-z0-9_]+$/, campaignSchema)
     .default({}),
 });
 
+// Define the composite campaign rule schema for validation
+// A rule is a contract leaf or a nested and/or/not expression
+const compositeRuleSchema = joi
+  .alternatives()
+  .try(
+    joi.object({
+      contract: joi.string().required(),
+      campaign: joi.string(),
+    }),
+    joi.object({
+      and: joi.array().items(joi.link("#compositeRule")).min(1).required(),
+    }),
+    joi.object({
+      or: joi.array().items(joi.link("#compositeRule")).min(1).required(),
+    }),
+    joi.object({
+      not: joi.link("#compositeRule").required(),
+    })
+  )
+  .id("compositeRule");
+
+// Define the composite campaign schema for validation
+const compositeCampaignSchema = joi.object({
+  name: joi.string().required(),
+  startDate: joi.string().required(),
+  endDate: joi.string().required(),
+  timezone: timezoneSchema,
+  description: joi.string().allow(""),
+  rule: compositeRuleSchema.required(),
+});
+
 // Define the config schema for validation
 const configSchema = joi.object({
   contracts: joi
     .object()
     .pattern(/^[a-z0-9_]+$/, contractSchema)
     .required(),
+  compositeCampaigns: joi
+    .object()
+    .pattern(/^[a-z0-9_]+$/, compositeCampaignSchema)
+    .default({}),
 });
 
+/**
+ * Interface for quantitative campaign criteria
+ * All configured thresholds must be met within the campaign window
+ */
+export interface ICampaignCriteria {
+  events?: string[];
+  minEventCount?: number;
+  minTotalValue?: string;
+  valueArg: string;
+  valueDecimals: number;
+  minDistinctDays?: number;
+}
+
+/**
+ * How much evidence a verification requires
+ * - strict: a matching interaction log from the contract
+ * - heuristic: also accepts a transaction count increase in the window
+ *   when no matching log is found
+ */
+export type VerificationStrictness = "strict" | "heuristic";
+
 /**
  * Interface for a campaign configuration
  */
@@ -61,7 +226,52 @@ export interface ICampaign {
   name: string;
   startDate: string;
   endDate: string;
+  timezone: string;
+  recurrence?: ICampaignRecurrence;
+  description: string;
+  criteria?: ICampaignCriteria;
+  strictness: VerificationStrictness;
+}
+
+/**
+ * Boolean rule of a composite campaign
+ * A leaf checks one contract, within the composite campaign window or, when
+ * `campaign` is set, against that contract campaign (current window and criteria)
+ */
+export type CompositeRule =
+  | { contract: string; campaign?: string }
+  | { and: CompositeRule[] }
+  | { or: CompositeRule[] }
+  | { not: CompositeRule };
+
+/**
+ * Interface for a campaign spanning several contracts
+ */
+export interface ICompositeCampaign {
+  name: string;
+  startDate: string;
+  endDate: string;
+  timezone: string;
   description: string;
+  rule: CompositeRule;
+}
+
+/**
+ * Interface for an interaction event definition
+ * An address has interacted when it appears in one of the userArgs
+ * (indexed address parameters) of the event
+ */
+export interface IInteractionEvent {
+  event: string;
+  userArgs: string[];
+}
+
+/**
+ * Interface for the local event indexer settings of a contract
+ */
+export interface IIndexerConfig {
+  enabled: boolean;
+  startBlock: number;
 }
 
 /**
@@ -73,6 +283,9 @@ export interface IContract {
   rpcUrl: string;
   fallbackRpcUrls: string[];
   chainId: number;
+  abi: ethers.InterfaceAbi;
+  interactionEvents: IInteractionEvent[];
+  indexer?: IIndexerConfig;
   campaigns: Record<string, ICampaign>;
 }
 
@@ -81,8 +294,80 @@ export interface IContract {
  */
 export interface IConfig {
   contracts: Record<string, IContract>;
+  compositeCampaigns: Record<string, ICompositeCampaign>;
+}
+
+/**
+ * Kind of change of a configuration entry between two reloads
+ */
+export type ConfigChange = "added" | "removed" | "modified";
+
+/**
+ * Change of a campaign or composite campaign; `fields` lists the modified
+ * fields (names only, values may contain resolved RPC URLs)
+ */
+export interface IConfigEntryDiff {
+  id: string;
+  change: ConfigChange;
+  fields: string[];
+}
+
+/**
+ * Change of a contract, with the changes of its campaigns
+ */
+export interface IContractDiff extends IConfigEntryDiff {
+  campaigns: IConfigEntryDiff[];
+}
+
+/**
+ * Differences between two configurations
+ */
+export interface IConfigDiff {
+  contracts: IContractDiff[];
+  compositeCampaigns: IConfigEntryDiff[];
 }
 
+/**
+ * Outcome of the latest configuration reloads
+ */
+export interface IConfigReloadStatus {
+  watching: boolean;
+  reloadedAt: string | null;
+  diff: IConfigDiff | null;
+  lastError: { at: string; message: string } | null;
+}
+
+/**
+ * Called with the differences after each applied reload. Throwing rolls the
+ * configuration back to the previous one
+ */
+export type ConfigReloadListener = (diff: IConfigDiff) => void;
+
+/**
+ * Thrown when a configuration change is rejected by validation, so callers
+ * can tell invalid input apart from failures to apply it
+ */
+export class ConfigValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigValidationError";
+  }
+}
+
+/**
+ * Thrown when a configuration change targets a contract or campaign that
+ * does not exist
+ */
+export class ConfigNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigNotFoundError";
+  }
+}
+
+// Config watching constants
+const WATCH_DEBOUNCE = 500; // Wait for writes to settle before reloading
+
 /**
  * Class to manage contract configurations
  * Loads contract data from JSON file with RPC URLs from environment variables
@@ -91,6 +376,15 @@ class ConfigLoader {
   private config: IConfig;
   private configPath: string;
   private rawConfig: any;
+  private reloadListeners: ConfigReloadListener[] = [];
+  private reloadStatus: IConfigReloadStatus = {
+    watching: false,
+    reloadedAt: null,
+    diff: null,
+    lastError: null,
+  };
+  private watcher: fs.FSWatcher | null = null;
+  private watchTimer: NodeJS.Timeout | null = null;
 
   constructor() {
     // Try multiple possible paths for the config file
@@ -144,20 +438,29 @@ class ConfigLoader {
       const configData = fs.readFileSync(this.configPath, "utf8");
       const parsedConfig = JSON.parse(configData);
 
-      // Validate the configuration
-      const { error } = configSchema.validate(parsedConfig);
-      if (error) {
-        logger.error(`Configuration validation error: ${error.message}`);
-        throw new Error(`Configuration validation error: ${error.message}`);
-      }
-
-      return parsedConfig;
+      return this.validateRawConfig(parsedConfig);
     } catch (error) {
       logger.error(`Failed to load configuration: ${error}`);
       throw new Error(`Failed to load configuration: ${error}`);
     }
   }
 
+  /**
+   * Validate a parsed configuration file against the schema
+   * @param parsedConfig Parsed configuration file
+   * @returns Configuration with schema defaults applied
+   * @throws Error if the configuration is invalid
+   */
+  private validateRawConfig(parsedConfig: unknown): any {
+    const { value, error } = configSchema.validate(parsedConfig);
+    if (error) {
+      logger.error(`Configuration validation error: ${error.message}`);
+      throw new Error(`Configuration validation error: ${error.message}`);
+    }
+
+    return value;
+  }
+
   /**
    * Process the raw configuration to replace RPC URL references with actual values
    * @param rawConfig Raw configuration data
@@ -167,6 +470,7 @@ class ConfigLoader {
   private processConfig(rawConfig: any): IConfig {
     const processedConfig: IConfig = {
       contracts: {},
+      compositeCampaigns: {},
     };
 
     // Process each contract
@@ -201,6 +505,30 @@ class ConfigLoader {
         }
       }
 
+      // Resolve the ABI and check the interaction events against it
+      const abi = this.resolveAbi(contractId, contract.abi);
+      const interactionEvents: IInteractionEvent[] =
+        contract.interactionEvents || DEFAULT_INTERACTION_EVENTS;
+      this.validateInteractionEvents(contractId, abi, interactionEvents);
+
+      for (const [campaignId, campaign] of Object.entries(
+        contract.campaigns as Record<string, ICampaign>
+      )) {
+        this.validateCampaignDates(
+          `Campaign ${contractId}/${campaignId}`,
+          campaign
+        );
+        if (campaign.criteria) {
+          this.validateCampaignCriteria(
+            contractId,
+            campaignId,
+            abi,
+            interactionEvents,
+            campaign.criteria
+          );
+        }
+      }
+
       // Add the processed contract
       processedConfig.contracts[contractId] = {
         name: contract.name,
@@ -208,33 +536,614 @@ class ConfigLoader {
         rpcUrl: rpcUrl,
         fallbackRpcUrls,
         chainId: contract.chainId,
+        abi,
+        interactionEvents,
+        indexer: contract.indexer,
         campaigns: contract.campaigns,
       };
     }
 
+    // Composite campaigns may only reference configured contracts and campaigns
+    for (const [campaignId, campaign] of Object.entries(
+      rawConfig.compositeCampaigns as Record<string, ICompositeCampaign>
+    )) {
+      this.validateCampaignDates(`Composite campaign ${campaignId}`, campaign);
+      for (const leaf of this.getRuleLeaves(campaign.rule)) {
+        const contract = processedConfig.contracts[leaf.contract];
+        if (!contract) {
+          logger.error(
+            `Composite campaign ${campaignId}: contract ${leaf.contract} not found`
+          );
+          throw new Error(
+            `Composite campaign ${campaignId}: contract ${leaf.contract} not found`
+          );
+        }
+        if (leaf.campaign && !contract.campaigns[leaf.campaign]) {
+          logger.error(
+            `Composite campaign ${campaignId}: campaign ${leaf.contract}/${leaf.campaign} not found`
+          );
+          throw new Error(
+            `Composite campaign ${campaignId}: campaign ${leaf.contract}/${leaf.campaign} not found`
+          );
+        }
+      }
+
+      processedConfig.compositeCampaigns[campaignId] = campaign;
+    }
+
     logger.info(
       `Loaded configuration with ${
         Object.keys(processedConfig.contracts).length
-      } contracts`
+      } contracts and ${
+        Object.keys(processedConfig.compositeCampaigns).length
+      } composite campaigns`
     );
     return processedConfig;
   }
 
+  /**
+   * Check that the dates of a campaign parse and are in order, and that its
+   * recurrence gives at most MAX_CAMPAIGN_WINDOWS windows
+   * @param label Campaign description for error messages
+   * @param campaign Campaign or composite campaign
+   * @throws Error if a date is invalid, not ISO 8601 in a non-UTC timezone,
+   *         the campaign ends before it starts or has too many windows
+   */
+  private validateCampaignDates(
+    label: string,
+    campaign: ICampaign | ICompositeCampaign
+  ): void {
+    const { startDate, endDate } = getCampaignSpan(campaign);
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      logger.error(`${label}: invalid startDate or endDate`);
+      throw new Error(`${label}: invalid startDate or endDate`);
+    }
+    if (startDate > endDate) {
+      logger.error(`${label}: startDate must be before endDate`);
+      throw new Error(`${label}: startDate must be before endDate`);
+    }
+
+    // Other formats are parsed in the server timezone
+    if (
+      campaign.timezone &&
+      campaign.timezone !== "UTC" &&
+      !(
+        isIsoScheduleDate(campaign.startDate) &&
+        isIsoScheduleDate(campaign.endDate)
+      )
+    ) {
+      logger.error(`${label}: dates must be ISO 8601 when a timezone is set`);
+      throw new Error(
+        `${label}: dates must be ISO 8601 (YYYY-MM-DD, optionally with a time and offset) when a timezone is set`
+      );
+    }
+
+    const windows = countCampaignWindows(campaign);
+    if (windows > MAX_CAMPAIGN_WINDOWS) {
+      logger.error(
+        `${label}: ${windows} windows (max ${MAX_CAMPAIGN_WINDOWS})`
+      );
+      throw new Error(
+        `${label}: recurrence gives ${windows} windows (max ${MAX_CAMPAIGN_WINDOWS})`
+      );
+    }
+  }
+
+  /**
+   * Resolve a contract ABI from inline definitions or a file path
+   * File paths are relative to the configuration file; both plain ABI arrays
+   * and build artifacts with an `abi` field are accepted
+   * @param contractId Contract identifier
+   * @param abi Inline ABI, path to an ABI file, or undefined for the default
+   * @returns Resolved ABI
+   * @throws Error if the ABI file cannot be read or parsed
+   */
+  private resolveAbi(contractId: string, abi: any): ethers.InterfaceAbi {
+    if (!abi) {
+      return DEFAULT_ABI;
+    }
+
+    if (Array.isArray(abi)) {
+      return abi;
+    }
+
+    const abiPath = path.resolve(path.dirname(this.configPath), abi);
+    try {
+      const parsed = JSON.parse(fs.readFileSync(abiPath, "utf8"));
+      const resolved = Array.isArray(parsed) ? parsed : parsed.abi;
+
+      if (!Array.isArray(resolved)) {
+        throw new Error("file does not contain an ABI array");
+      }
+
+      return resolved;
+    } catch (error) {
+      logger.error(
+        `Failed to load ABI for contract ${contractId} from ${abiPath}: ${error}`
+      );
+      throw new Error(
+        `Failed to load ABI for contract ${contractId} from ${abiPath}: ${error}`
+      );
+    }
+  }
+
+  /**
+   * Check that each interaction event exists in the ABI and that each user
+   * argument is an indexed address parameter (so it can be filtered by topic)
+   * @param contractId Contract identifier
+   * @param abi Resolved ABI
+   * @param interactionEvents Interaction event definitions
+   * @throws Error if a definition does not match the ABI
+   */
+  private validateInteractionEvents(
+    contractId: string,
+    abi: ethers.InterfaceAbi,
+    interactionEvents: IInteractionEvent[]
+  ): void {
+    const fail = (message: string): never => {
+      logger.error(`Contract ${contractId}: ${message}`);
+      throw new Error(`Contract ${contractId}: ${message}`);
+    };
+
+    let iface: ethers.Interface;
+    try {
+      iface = new ethers.Interface(abi);
+    } catch (error) {
+      return fail(`invalid ABI: ${error}`);
+    }
+
+    for (const { event, userArgs } of interactionEvents) {
+      let fragment: ethers.EventFragment | null = null;
+      try {
+        fragment = iface.getEvent(event);
+      } catch (error) {
+        fail(`ambiguous interaction event ${event}: ${error}`);
+      }
+
+      if (!fragment) {
+        return fail(`interaction event ${event} not found in ABI`);
+      }
+
+      if (fragment.anonymous) {
+        fail(`interaction event ${event} is anonymous and cannot be filtered`);
+      }
+
+      for (const arg of userArgs) {
+        const input = fragment.inputs.find((i) => i.name === arg);
+        if (!input) {
+          fail(`argument ${arg} not found on event ${fragment.name}`);
+        } else if (!input.indexed || input.type !== "address") {
+          fail(
+            `argument ${arg} on event ${fragment.name} must be an indexed address`
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Check that campaign criteria only reference the contract's interaction
+   * events and that the summed value argument is numeric on each of them
+   * @param contractId Contract identifier
+   * @param campaignId Campaign identifier
+   * @param abi Resolved ABI
+   * @param interactionEvents Interaction event definitions
+   * @param criteria Campaign criteria
+   * @throws Error if the criteria do not match the contract
+   */
+  private validateCampaignCriteria(
+    contractId: string,
+    campaignId: string,
+    abi: ethers.InterfaceAbi,
+    interactionEvents: IInteractionEvent[],
+    criteria: ICampaignCriteria
+  ): void {
+    const fail = (message: string): never => {
+      logger.error(`Campaign ${contractId}/${campaignId}: ${message}`);
+      throw new Error(`Campaign ${contractId}/${campaignId}: ${message}`);
+    };
+
+    const iface = new ethers.Interface(abi);
+    const fragments = interactionEvents.map((e) => iface.getEvent(e.event)!);
+    const eventNames = fragments.map((f) => f.name);
+
+    for (const event of criteria.events || []) {
+      if (!eventNames.includes(event)) {
+        fail(`criteria event ${event} is not an interaction event`);
+      }
+    }
+
+    if (criteria.minTotalValue) {
+      const counted = fragments.filter(
+        (f) => !criteria.events || criteria.events.includes(f.name)
+      );
+      for (const fragment of counted) {
+        const input = fragment.inputs.find((i) => i.name === criteria.valueArg);
+        if (!input || !/^u?int\d*$/.test(input.type)) {
+          fail(
+            `event ${fragment.name} has no numeric ${criteria.valueArg} argument for minTotalValue`
+          );
+        }
+      }
+    }
+  }
+
   /**
    * Reload the configuration file
+   * The new configuration is validated before it replaces the current one,
+   * which stays active when validation fails. Listeners then apply the
+   * differences; if one of them fails the previous configuration is restored
+   * @returns Differences with the previous configuration
    * @throws Error if reload fails
    */
-  public reloadConfig(): void {
+  public reloadConfig(): IConfigDiff {
     try {
-      this.rawConfig = this.loadRawConfig();
-      this.config = this.processConfig(this.rawConfig);
-      logger.info("Configuration reloaded successfully");
+      const rawConfig = this.loadRawConfig();
+      return this.applyConfig(rawConfig, this.processConfig(rawConfig));
     } catch (error) {
+      this.reloadStatus.lastError = {
+        at: new Date().toISOString(),
+        message: String(error),
+      };
       logger.error(`Failed to reload configuration: ${error}`);
       throw error;
     }
   }
 
+  /**
+   * Make a validated configuration the active one and notify listeners,
+   * restoring the previous configuration if one of them fails
+   * @param rawConfig Validated raw configuration
+   * @param config Processed configuration
+   * @returns Differences with the previous configuration
+   */
+  private applyConfig(rawConfig: any, config: IConfig): IConfigDiff {
+    const diff = this.diffConfig(this.config, config);
+
+    const previous = { rawConfig: this.rawConfig, config: this.config };
+    this.rawConfig = rawConfig;
+    this.config = config;
+
+    try {
+      this.notifyReload(diff);
+    } catch (error) {
+      logger.error(
+        `Failed to apply configuration changes, rolling back: ${error}`
+      );
+      this.rawConfig = previous.rawConfig;
+      this.config = previous.config;
+      // A failing restore must not hide the error that caused the rollback
+      try {
+        this.notifyReload(this.diffConfig(config, previous.config));
+      } catch (restoreError) {
+        logger.error(
+          `Failed to restore the previous configuration: ${restoreError}`
+        );
+      }
+      throw error;
+    }
+
+    this.reloadStatus.reloadedAt = new Date().toISOString();
+    this.reloadStatus.diff = diff;
+    this.reloadStatus.lastError = null;
+    logger.info(
+      `Configuration reloaded successfully (${this.describeDiff(diff)})`
+    );
+    return diff;
+  }
+
+  /**
+   * Create or replace a contract in the configuration file
+   * Campaigns are kept when the new definition does not list any
+   * @param contractId Contract identifier
+   * @param contract Contract definition, as in contracts.json
+   * @returns Differences applied
+   * @throws ConfigValidationError if the contract or resulting config is invalid
+   */
+  public saveContract(contractId: string, contract: unknown): IConfigDiff {
+    const { error } = contractSchema.validate(contract);
+    if (error) {
+      throw new ConfigValidationError(`Invalid contract: ${error.message}`);
+    }
+
+    return this.updateConfigFile(`contract ${contractId} saved`, (file) => {
+      const existing = file.contracts[contractId];
+      const next = { ...(contract as Record<string, unknown>) };
+      if (next.campaigns === undefined && existing?.campaigns) {
+        next.campaigns = existing.campaigns;
+      }
+      file.contracts[contractId] = next;
+    });
+  }
+
+  /**
+   * Delete a contract and its campaigns from the configuration file
+   * @param contractId Contract identifier
+   * @returns Differences applied
+   * @throws ConfigNotFoundError if the contract does not exist
+   * @throws ConfigValidationError if a composite campaign still references it
+   */
+  public deleteContract(contractId: string): IConfigDiff {
+    return this.updateConfigFile(`contract ${contractId} deleted`, (file) => {
+      if (!file.contracts[contractId]) {
+        throw new ConfigNotFoundError(`Contract not found: ${contractId}`);
+      }
+      delete file.contracts[contractId];
+    });
+  }
+
+  /**
+   * Create or replace a campaign of a contract in the configuration file
+   * @param contractId Contract identifier
+   * @param campaignId Campaign identifier
+   * @param campaign Campaign definition, as in contracts.json
+   * @returns Differences applied
+   * @throws ConfigNotFoundError if the contract does not exist
+   * @throws ConfigValidationError if the campaign or resulting config is invalid
+   */
+  public saveCampaign(
+    contractId: string,
+    campaignId: string,
+    campaign: unknown
+  ): IConfigDiff {
+    const { error } = campaignSchema.validate(campaign);
+    if (error) {
+      throw new ConfigValidationError(`Invalid campaign: ${error.message}`);
+    }
+
+    return this.updateConfigFile(
+      `campaign ${contractId}/${campaignId} saved`,
+      (file) => {
+        const contract = file.contracts[contractId];
+        if (!contract) {
+          throw new ConfigNotFoundError(`Contract not found: ${contractId}`);
+        }
+        contract.campaigns = { ...contract.campaigns, [campaignId]: campaign };
+      }
+    );
+  }
+
+  /**
+   * Delete a campaign from the configuration file
+   * @param contractId Contract identifier
+   * @param campaignId Campaign identifier
+   * @returns Differences applied
+   * @throws ConfigNotFoundError if the campaign does not exist
+   * @throws ConfigValidationError if a composite campaign still references it
+   */
+  public deleteCampaign(contractId: string, campaignId: string): IConfigDiff {
+    return this.updateConfigFile(
+      `campaign ${contractId}/${campaignId} deleted`,
+      (file) => {
+        if (!file.contracts[contractId]?.campaigns?.[campaignId]) {
+          throw new ConfigNotFoundError(`Campaign not found: ${campaignId}`);
+        }
+        delete file.contracts[contractId].campaigns[campaignId];
+      }
+    );
+  }
+
+  /**
+   * Change the configuration file and apply the result live
+   * The changed file is fully validated before it is written; it is written
+   * atomically (temporary file and rename) and restored if applying fails
+   * @param change Description of the change for logs
+   * @param mutate Function changing the parsed configuration file in place;
+   *               may throw ConfigNotFoundError
+   * @returns Differences applied
+   * @throws ConfigValidationError if the resulting configuration is invalid
+   */
+  private updateConfigFile(
+    change: string,
+    mutate: (file: any) => void
+  ): IConfigDiff {
+    const original = fs.readFileSync(this.configPath, "utf8");
+    const file = JSON.parse(original);
+    mutate(file);
+
+    let rawConfig: any;
+    let config: IConfig;
+    try {
+      rawConfig = this.validateRawConfig(file);
+      config = this.processConfig(rawConfig);
+    } catch (error: any) {
+      throw new ConfigValidationError(error.message);
+    }
+
+    this.writeConfigFile(`${JSON.stringify(file, null, 2)}\n`);
+    try {
+      const diff = this.applyConfig(rawConfig, config);
+      logger.info(`Configuration file updated: ${change}`);
+      return diff;
+    } catch (error) {
+      this.writeConfigFile(original);
+      throw error;
+    }
+  }
+
+  private writeConfigFile(content: string): void {
+    const tempPath = `${this.configPath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, content, "utf8");
+    fs.renameSync(tempPath, this.configPath);
+  }
+
+  /**
+   * Compare the configuration file with the active configuration without
+   * applying it
+   * @returns Differences the next reload would apply
+   * @throws Error if the configuration file is invalid
+   */
+  public previewReload(): IConfigDiff {
+    return this.diffConfig(
+      this.config,
+      this.processConfig(this.loadRawConfig())
+    );
+  }
+
+  /**
+   * Register a listener called after each applied reload
+   * @param listener Listener receiving the differences
+   */
+  public onReload(listener: ConfigReloadListener): void {
+    this.reloadListeners.push(listener);
+  }
+
+  /**
+   * Get the outcome of the latest reloads
+   */
+  public getReloadStatus(): IConfigReloadStatus {
+    return { ...this.reloadStatus };
+  }
+
+  /**
+   * Watch the configuration file and reload it when it changes
+   * The directory is watched so editors replacing the file are noticed
+   */
+  public watch(): void {
+    if (this.watcher) {
+      return;
+    }
+
+    const fileName = path.basename(this.configPath);
+    this.watcher = fs.watch(path.dirname(this.configPath), (_, changed) => {
+      if (changed && changed !== fileName) {
+        return;
+      }
+
+      if (this.watchTimer) {
+        clearTimeout(this.watchTimer);
+      }
+      this.watchTimer = setTimeout(() => {
+        this.watchTimer = null;
+        this.reloadFromWatch();
+      }, WATCH_DEBOUNCE);
+    });
+    this.watcher.unref();
+    this.reloadStatus.watching = true;
+
+    logger.info(`Watching ${this.configPath} for configuration changes`);
+  }
+
+  /**
+   * Reload after a file change; invalid files are logged and ignored
+   */
+  private reloadFromWatch(): void {
+    try {
+      const diff = this.previewReload();
+      if (diff.contracts.length === 0 && diff.compositeCampaigns.length === 0) {
+        logger.debug("Configuration file changed without effective changes");
+        return;
+      }
+
+      this.reloadConfig();
+    } catch (error) {
+      this.reloadStatus.lastError = {
+        at: new Date().toISOString(),
+        message: String(error),
+      };
+      logger.error(
+        `Ignoring configuration change, keeping the current configuration: ${error}`
+      );
+    }
+  }
+
+  private notifyReload(diff: IConfigDiff): void {
+    for (const listener of this.reloadListeners) {
+      listener(diff);
+    }
+  }
+
+  /**
+   * Compute the differences between two processed configurations
+   */
+  private diffConfig(before: IConfig, after: IConfig): IConfigDiff {
+    const contracts: IContractDiff[] = [];
+
+    for (const id of this.unionKeys(before.contracts, after.contracts)) {
+      const previous = before.contracts[id];
+      const next = after.contracts[id];
+
+      if (!previous || !next) {
+        contracts.push({
+          id,
+          change: previous ? "removed" : "added",
+          fields: [],
+          campaigns: [],
+        });
+        continue;
+      }
+
+      const fields = this.diffFields(previous, next, ["campaigns"]);
+      const campaigns = this.diffEntries(previous.campaigns, next.campaigns);
+      if (fields.length > 0 || campaigns.length > 0) {
+        contracts.push({ id, change: "modified", fields, campaigns });
+      }
+    }
+
+    return {
+      contracts,
+      compositeCampaigns: this.diffEntries(
+        before.compositeCampaigns,
+        after.compositeCampaigns
+      ),
+    };
+  }
+
+  private diffEntries(
+    before: Record<string, object>,
+    after: Record<string, object>
+  ): IConfigEntryDiff[] {
+    const entries: IConfigEntryDiff[] = [];
+
+    for (const id of this.unionKeys(before, after)) {
+      if (!before[id] || !after[id]) {
+        entries.push({
+          id,
+          change: before[id] ? "removed" : "added",
+          fields: [],
+        });
+        continue;
+      }
+
+      const fields = this.diffFields(before[id], after[id]);
+      if (fields.length > 0) {
+        entries.push({ id, change: "modified", fields });
+      }
+    }
+
+    return entries;
+  }
+
+  private diffFields(
+    before: object,
+    after: object,
+    exclude: string[] = []
+  ): string[] {
+    const previous = before as Record<string, unknown>;
+    const next = after as Record<string, unknown>;
+
+    return this.unionKeys(previous, next).filter(
+      (field) =>
+        !exclude.includes(field) &&
+        JSON.stringify(previous[field]) !== JSON.stringify(next[field])
+    );
+  }
+
+  private unionKeys(a: object, b: object): string[] {
+    return [...new Set([...Object.keys(a), ...Object.keys(b)])];
+  }
+
+  private describeDiff(diff: IConfigDiff): string {
+    const changes = [
+      ...diff.contracts.map((c) => `contract ${c.id} ${c.change}`),
+      ...diff.compositeCampaigns.map(
+        (c) => `composite campaign ${c.id} ${c.change}`
+      ),
+    ];
+    return changes.length > 0 ? changes.join(", ") : "no changes";
+  }
+
   /**
    * Get a contract configuration by ID
    * @param contractId Contract identifier
@@ -300,12 +1209,37 @@ class ConfigLoader {
       throw new Error(`Campaign not found: ${campaignId}`);
     }
 
-    const startDate = new Date(campaign.startDate);
-    const endDate = new Date(campaign.endDate);
+    const { startDate, endDate } = getCampaignSpan(campaign);
 
     return date >= startDate && date <= endDate;
   }
 
+  /**
+   * Resolve a window of a campaign
+   * Non-recurring campaigns have a single window (index 0) spanning the
+   * whole campaign
+   * @param contractId Contract identifier
+   * @param campaignId Campaign identifier
+   * @param index Window index; the current window when omitted
+   * @returns The window, or null if the campaign has no window with that index
+   * @throws Error if the campaign is not found
+   */
+  public getCampaignWindow(
+    contractId: string,
+    campaignId: string,
+    index?: number
+  ): ICampaignWindow | null {
+    const campaign = this.getCampaignConfig(contractId, campaignId);
+
+    if (!campaign) {
+      throw new Error(`Campaign not found: ${campaignId}`);
+    }
+
+    return index === undefined
+      ? findCampaignWindow(campaign)
+      : getCampaignWindow(campaign, index);
+  }
+
   /**
    * Get all available contracts
    * @returns Array of contract IDs
@@ -329,6 +1263,43 @@ class ConfigLoader {
     return contract.campaigns;
   }
 
+  /**
+   * Get a composite campaign configuration by ID
+   * @param campaignId Composite campaign identifier
+   * @returns Composite campaign configuration or null if not found
+   */
+  public getCompositeCampaign(campaignId: string): ICompositeCampaign | null {
+    return this.config.compositeCampaigns[campaignId] || null;
+  }
+
+  /**
+   * Get all composite campaigns
+   * @returns Record of composite campaign IDs to configs
+   */
+  public getCompositeCampaigns(): Record<string, ICompositeCampaign> {
+    return this.config.compositeCampaigns;
+  }
+
+  /**
+   * List the contract leaves of a composite rule
+   * @param rule Composite rule
+   * @returns Leaves in rule order
+   */
+  public getRuleLeaves(
+    rule: CompositeRule
+  ): Array<{ contract: string; campaign?: string }> {
+    if ("and" in rule) {
+      return rule.and.flatMap((r) => this.getRuleLeaves(r));
+    }
+    if ("or" in rule) {
+      return rule.or.flatMap((r) => this.getRuleLeaves(r));
+    }
+    if ("not" in rule) {
+      return this.getRuleLeaves(rule.not);
+    }
+    return [rule];
+  }
+
   /**
    * Get environment configuration
    * @returns Environment configuration
@@ -337,6 +1308,22 @@ class ConfigLoader {
     return {
       env: env.NODE_ENV,
       port: env.PORT,
+      dataDir: env.DATA_DIR as string,
+      indexerEnabled: env.INDEXER_ENABLED as boolean,
+      maxBatchSize: env.MAX_BATCH_SIZE as number,
+      allowAnonymous: env.ALLOW_ANONYMOUS as boolean,
+      anonRateLimitPerMinute: env.ANON_RATE_LIMIT_PER_MINUTE as number,
+      trustProxy: env.TRUST_PROXY as number,
+      attestationTtl: env.ATTESTATION_TTL as number,
+      jobConcurrency: env.JOB_CONCURRENCY as number,
+      jobTtl: env.JOB_TTL as number,
+      readyMaxHeadLag: env.READY_MAX_HEAD_LAG as number,
+      configWatch: env.CONFIG_WATCH as boolean,
+      ensRpcUrl: (env.ENS_RPC_URL as string) || undefined,
+      ensRegistryAddress: env.ENS_REGISTRY_ADDRESS as string,
+      basenameRpcUrl: (env.BASENAME_RPC_URL as string) || undefined,
+      basenameRegistryAddress: env.BASENAME_REGISTRY_ADDRESS as string,
+      nameCacheTtl: env.NAME_CACHE_TTL as number,
     };
   }
 
@@ -0,0 +1,79 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type partnerRegistryInstance from "./partner-loader";
+
+/**
+ * Load a fresh partner registry for a partners file
+ * @param webhookUrl URL of the partner's only webhook subscription
+ * @returns Partner registry singleton of the fresh module
+ */
+function loadPartners(webhookUrl: string): typeof partnerRegistryInstance {
+  const partnersPath = path.join(
+    fs.mkdtempSync(path.join(os.tmpdir(), "partners-")),
+    "partners.json"
+  );
+  fs.writeFileSync(
+    partnersPath,
+    JSON.stringify({
+      partners: {
+        quests: {
+          name: "Quests",
+          apiKeyRef: "TEST_PARTNER_API_KEY",
+          webhooks: [
+            {
+              contract: "doge_base_aerodome",
+              campaign: "doge_december_2024",
+              url: webhookUrl,
+              secretRef: "TEST_PARTNER_WEBHOOK_SECRET",
+            },
+          ],
+        },
+      },
+    })
+  );
+  process.env.PARTNERS_PATH = partnersPath;
+
+  let registry!: typeof partnerRegistryInstance;
+  jest.isolateModules(() => {
+    require("../utils/logger").default.silent = true;
+    registry = require("./partner-loader").default;
+  });
+  return registry;
+}
+
+beforeAll(() => {
+  process.env.TEST_PARTNER_API_KEY = "partner-key";
+  process.env.TEST_PARTNER_WEBHOOK_SECRET = "webhook-secret";
+});
+
+afterAll(() => {
+  delete process.env.PARTNERS_PATH;
+  delete process.env.TEST_PARTNER_API_KEY;
+  delete process.env.TEST_PARTNER_WEBHOOK_SECRET;
+});
+
+describe("webhook subscriptions", () => {
+  it("loads subscriptions to public hosts", () => {
+    const registry = loadPartners("https://hooks.example.com/doge");
+
+    expect(
+      registry.getWebhookSubscription(
+        "quests:doge_base_aerodome:doge_december_2024"
+      )
+    ).toMatchObject({
+      url: "https://hooks.example.com/doge",
+      secret: "webhook-secret",
+    });
+  });
+
+  it.each([
+    "http://169.254.169.254/latest/meta-data",
+    "http://localhost:8080/hook",
+    "http://[::1]/hook",
+  ])("rejects subscriptions to %s", (url) => {
+    expect(() => loadPartners(url)).toThrow(
+      "Webhook of partner quests for doge_base_aerodome/doge_december_2024"
+    );
+  });
+});
@@ -0,0 +1,394 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import joi from "joi";
+import logger from "../utils/logger";
+import { assertPublicHost } from "../utils/network";
+import configLoader from "./config-loader";
+import { RESPONSE_FORMATS } from "../adapters/response-adapters";
+
+// Define the webhook subscription schema for validation
+const webhookSchema = joi.object({
+  contract: joi.string().required(),
+  campaign: joi.string().required(),
+  url: joi
+    .string()
+    .uri({ scheme: ["http", "https"] })
+    .required(),
+  secretRef: joi.string().required(),
+});
+
+// Define the job callback settings schema for validation
+const callbacksSchema = joi.object({
+  origins: joi
+    .array()
+    .items(joi.string().uri({ scheme: ["http", "https"] }))
+    .min(1)
+    .required(),
+  secretRef: joi.string().required(),
+});
+
+// Define the partner schema for validation
+const partnerSchema = joi.object({
+  name: joi.string().required(),
+  apiKeyRef: joi.string().required(),
+  access: joi
+    .object()
+    .pattern(
+      /^[a-z0-9_]+$/,
+      joi
+        .alternatives()
+        .try(joi.string().valid("*"), joi.array().items(joi.string()))
+    ),
+  corsOrigins: joi.array().items(joi.string()).default([]),
+  responseFormat: joi.string().valid(...RESPONSE_FORMATS),
+  webhooks: joi
+    .array()
+    .items(webhookSchema)
+    .unique((a, b) => a.contract === b.contract && a.campaign === b.campaign)
+    .default([]),
+  callbacks: callbacksSchema,
+  quotas: joi
+    .object({
+      perMinute: joi.number().integer().min(1),
+      perDay: joi.number().integer().min(1),
+    })
+    .default({}),
+});
+
+// Define the partners file schema for validation
+const partnersConfigSchema = joi.object({
+  partners: joi
+    .object()
+    .pattern(/^[a-z0-9_]+$/, partnerSchema)
+    .required(),
+});
+
+/**
+ * Interface for partner request quotas
+ */
+export interface IPartnerQuotas {
+  perMinute?: number;
+  perDay?: number;
+}
+
+/**
+ * Interface for a webhook subscription of a partner to a campaign
+ * `secret` signs the deliveries (HMAC-SHA256)
+ */
+export interface IWebhookSubscription {
+  id: string;
+  partnerId: string;
+  contract: string;
+  campaign: string;
+  url: string;
+  secret: string;
+}
+
+/**
+ * Interface for the job callbacks of a partner
+ * Callback URLs must start with one of `origins`; `secret` signs the
+ * callbacks (HMAC-SHA256)
+ */
+export interface IPartnerCallbacks {
+  origins: string[];
+  secret: string;
+}
+
+/**
+ * Interface for a partner configuration
+ * `access` maps contract IDs to "*" (all campaigns) or a list of campaign IDs;
+ * when omitted the partner may use every contract. `responseFormat` selects
+ * the verification response adapter (Galxe when omitted). Job callbacks are
+ * only accepted when `callbacks` is set
+ */
+export interface IPartner {
+  id: string;
+  name: string;
+  apiKey: string;
+  access?: Record<string, "*" | string[]>;
+  corsOrigins: string[];
+  responseFormat?: string;
+  webhooks: IWebhookSubscription[];
+  callbacks?: IPartnerCallbacks;
+  quotas: IPartnerQuotas;
+}
+
+/**
+ * Class to manage partner configurations
+ * Loads partners from a JSON file with API keys from environment variables
+ */
+class PartnerRegistry {
+  private partners: Map<string, IPartner> = new Map();
+  private partnersPath: string;
+
+  constructor() {
+    this.partnersPath = path.resolve(
+      process.cwd(),
+      process.env.PARTNERS_PATH || "./src/config/partners.json"
+    );
+    this.partners = this.loadPartners();
+  }
+
+  /**
+   * Load and validate the partners file
+   * A missing file means no partners (anonymous access only)
+   * @returns Map of partner ID to partner configuration
+   * @throws Error if the file is invalid
+   */
+  private loadPartners(): Map<string, IPartner> {
+    const partners = new Map<string, IPartner>();
+
+    if (!fs.existsSync(this.partnersPath)) {
+      logger.warn(`Partners file not found at ${this.partnersPath}`);
+      return partners;
+    }
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.partnersPath, "utf8"));
+      const { value, error } = partnersConfigSchema.validate(parsed);
+      if (error) {
+        throw new Error(`Partners validation error: ${error.message}`);
+      }
+
+      for (const [partnerId, partner] of Object.entries<any>(value.partners)) {
+        // Partners without an API key in the environment are disabled
+        const apiKey = process.env[partner.apiKeyRef];
+        if (!apiKey) {
+          logger.warn(
+            `Environment variable ${partner.apiKeyRef} not found for partner ${partnerId}, partner disabled`
+          );
+          continue;
+        }
+
+        partners.set(partnerId, {
+          id: partnerId,
+          name: partner.name,
+          apiKey,
+          access: partner.access,
+          corsOrigins: partner.corsOrigins,
+          responseFormat: partner.responseFormat,
+          webhooks: this.loadWebhooks(partnerId, partner.webhooks),
+          callbacks: this.loadCallbacks(partnerId, partner.callbacks),
+          quotas: partner.quotas,
+        });
+      }
+
+      logger.info(`Loaded ${partners.size} partners`);
+      return partners;
+    } catch (error) {
+      logger.error(`Failed to load partners: ${error}`);
+      throw new Error(`Failed to load partners: ${error}`);
+    }
+  }
+
+  /**
+   * Resolve the webhook subscriptions of a partner
+   * Subscriptions without a secret in the environment are disabled.
+   * Webhooks only fire for contracts followed by the event indexer, so
+   * subscriptions that cannot fire are reported
+   * @param partnerId Partner identifier
+   * @param webhooks Validated subscriptions from the partners file
+   * @returns Enabled subscriptions
+   * @throws Error if a subscription URL names a non-public host
+   */
+  private loadWebhooks(
+    partnerId: string,
+    webhooks: any[]
+  ): IWebhookSubscription[] {
+    const subscriptions: IWebhookSubscription[] = [];
+
+    for (const webhook of webhooks) {
+      const secret = process.env[webhook.secretRef];
+      if (!secret) {
+        logger.warn(
+          `Environment variable ${webhook.secretRef} not found for webhook of partner ${partnerId}, webhook disabled`
+        );
+        continue;
+      }
+
+      try {
+        assertPublicHost(webhook.url);
+      } catch (error: any) {
+        throw new Error(
+          `Webhook of partner ${partnerId} for ${webhook.contract}/${webhook.campaign}: ${error.message}`
+        );
+      }
+
+      const inactive = this.getInactiveReason(webhook.contract);
+      if (inactive) {
+        logger.warn(
+          `Webhook of partner ${partnerId} for ${webhook.contract}/${webhook.campaign} will not fire: ${inactive}`
+        );
+      }
+
+      subscriptions.push({
+        id: `${partnerId}:${webhook.contract}:${webhook.campaign}`,
+        partnerId,
+        contract: webhook.contract,
+        campaign: webhook.campaign,
+        url: webhook.url,
+        secret,
+      });
+    }
+
+    return subscriptions;
+  }
+
+  /**
+   * Explain why webhooks of a contract cannot fire
+   * @param contractId Subscribed contract
+   * @returns Reason, or null if the contract is indexed
+   */
+  private getInactiveReason(contractId: string): string | null {
+    if (!configLoader.getEnvConfig().indexerEnabled) {
+      return "the event indexer is disabled (INDEXER_ENABLED=false)";
+    }
+    if (!configLoader.getAvailableContracts().includes(contractId)) {
+      return `contract ${contractId} is not configured`;
+    }
+    if (!configLoader.getContractConfig(contractId).indexer?.enabled) {
+      return `contract ${contractId} has no enabled indexer section`;
+    }
+    return null;
+  }
+
+  /**
+   * Resolve the job callback settings of a partner
+   * Callbacks are disabled when the secret is not in the environment
+   * @param partnerId Partner identifier
+   * @param callbacks Validated callback settings from the partners file
+   * @returns Callback settings, or undefined if callbacks are disabled
+   */
+  private loadCallbacks(
+    partnerId: string,
+    callbacks: any
+  ): IPartnerCallbacks | undefined {
+    if (!callbacks) {
+      return undefined;
+    }
+
+    const secret = process.env[callbacks.secretRef];
+    if (!secret) {
+      logger.warn(
+        `Environment variable ${callbacks.secretRef} not found for callbacks of partner ${partnerId}, callbacks disabled`
+      );
+      return undefined;
+    }
+
+    return {
+      origins: callbacks.origins.map(
+        (origin: string) => new URL(origin).origin
+      ),
+      secret,
+    };
+  }
+
+  /**
+   * Reload the partners file
+   * @throws Error if reload fails
+   */
+  public reloadPartners(): void {
+    this.partners = this.loadPartners();
+    logger.info("Partners reloaded successfully");
+  }
+
+  /**
+   * Find the partner owning an API key
+   * @param apiKey API key sent by the client
+   * @returns Partner or null if the key is unknown
+   */
+  public findByApiKey(apiKey: string): IPartner | null {
+    const candidate = Buffer.from(apiKey);
+
+    for (const partner of this.partners.values()) {
+      const key = Buffer.from(partner.apiKey);
+      if (
+        key.length === candidate.length &&
+        crypto.timingSafeEqual(key, candidate)
+      ) {
+        return partner;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Check if a partner may verify against a contract and campaign
+   * @param partner Partner configuration
+   * @param contractId Contract identifier
+   * @param campaignId Optional campaign identifier
+   * @returns True if access is allowed
+   */
+  public canAccess(
+    partner: IPartner,
+    contractId: string,
+    campaignId?: string
+  ): boolean {
+    if (!partner.access) {
+      return true;
+    }
+
+    const allowed = partner.access[contractId];
+    if (!allowed) {
+      return false;
+    }
+
+    return allowed === "*" || (!!campaignId && allowed.includes(campaignId));
+  }
+
+  /**
+   * Check if any partner allows a CORS origin
+   * @param origin Request origin
+   */
+  public isOriginAllowed(origin: string): boolean {
+    for (const partner of this.partners.values()) {
+      if (partner.corsOrigins.includes(origin)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Get an enabled partner
+   * @param id Partner identifier
+   * @returns Partner or null if it no longer exists
+   */
+  public getPartner(id: string): IPartner | null {
+    return this.partners.get(id) || null;
+  }
+
+  /**
+   * Get the webhook subscriptions of every enabled partner
+   * @param contractId Only subscriptions to this contract, when set
+   */
+  public getWebhookSubscriptions(contractId?: string): IWebhookSubscription[] {
+    return this.getPartners()
+      .flatMap((partner) => partner.webhooks)
+      .filter((webhook) => !contractId || webhook.contract === contractId);
+  }
+
+  /**
+   * Get a webhook subscription by ID
+   * @param id Subscription identifier
+   * @returns Subscription or null if it no longer exists
+   */
+  public getWebhookSubscription(id: string): IWebhookSubscription | null {
+    return (
+      this.getWebhookSubscriptions().find((webhook) => webhook.id === id) ||
+      null
+    );
+  }
+
+  /**
+   * Get all enabled partners
+   */
+  public getPartners(): IPartner[] {
+    return [...this.partners.values()];
+  }
+}
+
+// Create and export a singleton instance
+const partnerRegistry = new PartnerRegistry();
+export default partnerRegistry;
@@ -0,0 +1,216 @@
+import { Request, Response } from "express";
+import configLoader, {
+  ConfigNotFoundError,
+  ConfigValidationError,
+} from "../config/config-loader";
+import blockchainService from "../services/blockchain";
+import { AdminController } from "./admin";
+
+const CONTRACT_ID = "doge_base_aerodome";
+const CAMPAIGN_ID = "doge_december_2024";
+
+/**
+ * Build a response recording its status, headers and (streamed) body
+ */
+function mockResponse() {
+  const res = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: undefined as any,
+    text: "",
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+    setHeader(name: string, value: string) {
+      res.headers[name.toLowerCase()] = value;
+      return res;
+    },
+    write(chunk: string) {
+      res.text += chunk;
+      return true;
+    },
+    end() {
+      return res;
+    },
+  };
+  return res;
+}
+
+/**
+ * Run a controller handler with a request
+ */
+async function call(
+  handler: (req: Request<any>, res: Response) => Promise<void>,
+  request: Partial<Request<any>>
+) {
+  const res = mockResponse();
+  await handler(
+    { query: {}, params: {}, headers: {}, body: {}, ...request } as Request,
+    res as unknown as Response
+  );
+  return res;
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("campaign eligibility export", () => {
+  const controller = new AdminController();
+  const params = { contractId: CONTRACT_ID, campaignId: CAMPAIGN_ID };
+
+  beforeEach(() => {
+    jest.spyOn(blockchainService, "getCampaignEligibility").mockResolvedValue({
+      contractId: CONTRACT_ID,
+      campaignId: CAMPAIGN_ID,
+      window: 0,
+      startBlock: 100,
+      endBlock: 200,
+      addresses: [
+        {
+          address: "0x1111111111111111111111111111111111111111",
+          firstBlock: 120,
+          firstTxHash: "0xabc",
+          firstLogIndex: 3,
+          eventCount: 2,
+        },
+      ],
+    });
+  });
+
+  it("streams CSV rows with the first interaction", async () => {
+    const res = await call(controller.exportCampaignEligibility, {
+      params,
+      query: { format: "csv" },
+    });
+
+    expect(res.headers["content-type"]).toBe("text/csv; charset=utf-8");
+    expect(res.headers["content-disposition"]).toBe(
+      `attachment; filename="${CONTRACT_ID}_${CAMPAIGN_ID}_eligible.csv"`
+    );
+    expect(res.text).toBe(
+      "address,first_block,first_tx_hash,first_log_index,event_count\n" +
+        "0x1111111111111111111111111111111111111111,120,0xabc,3,2\n"
+    );
+  });
+
+  it("streams valid JSON by default", async () => {
+    const res = await call(controller.exportCampaignEligibility, { params });
+
+    expect(JSON.parse(res.text)).toMatchObject({
+      contract: CONTRACT_ID,
+      campaign: CAMPAIGN_ID,
+      window: 0,
+      startBlock: 100,
+      endBlock: 200,
+      count: 1,
+      addresses: [{ firstBlock: 120, eventCount: 2 }],
+    });
+  });
+
+  it("rejects unknown formats and campaigns", async () => {
+    const format = await call(controller.exportCampaignEligibility, {
+      params,
+      query: { format: "xml" },
+    });
+    expect(format.statusCode).toBe(400);
+
+    const campaign = await call(controller.exportCampaignEligibility, {
+      params: { contractId: CONTRACT_ID, campaignId: "missing" },
+    });
+    expect(campaign.statusCode).toBe(404);
+  });
+});
+
+describe("configuration changes", () => {
+  const controller = new AdminController();
+  const params = { contractId: CONTRACT_ID, campaignId: CAMPAIGN_ID };
+
+  it("creates a campaign with 201 and the applied diff", async () => {
+    const diff = { contracts: [], compositeCampaigns: [] };
+    const save = jest.spyOn(configLoader, "saveCampaign").mockReturnValue(diff);
+
+    const res = await call(controller.createCampaign, {
+      params: { contractId: CONTRACT_ID },
+      body: { id: "doge_summer", name: "Summer" },
+    });
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body).toEqual({
+      success: true,
+      message: "Campaign created",
+      diff,
+    });
+    expect(save).toHaveBeenCalledWith(CONTRACT_ID, "doge_summer", {
+      name: "Summer",
+    });
+  });
+
+  it("rejects campaigns without id or that already exist", async () => {
+    const save = jest.spyOn(configLoader, "saveCampaign");
+
+    const missing = await call(controller.createCampaign, {
+      params: { contractId: CONTRACT_ID },
+      body: { name: "Summer" },
+    });
+    const existing = await call(controller.createCampaign, {
+      params: { contractId: CONTRACT_ID },
+      body: { id: CAMPAIGN_ID },
+    });
+
+    expect(missing.statusCode).toBe(400);
+    expect(existing.statusCode).toBe(409);
+    expect(save).not.toHaveBeenCalled();
+  });
+
+  it("responds 404 for unknown contracts without touching the file", async () => {
+    const remove = jest.spyOn(configLoader, "deleteContract");
+
+    const res = await call(controller.deleteContract, {
+      params: { contractId: "unknown" },
+    });
+
+    expect(res.statusCode).toBe(404);
+    expect(res.body.error).toBe("Contract not found: unknown");
+    expect(remove).not.toHaveBeenCalled();
+  });
+
+  it("maps a campaign removed concurrently to 404", async () => {
+    jest.spyOn(configLoader, "deleteCampaign").mockImplementation(() => {
+      throw new ConfigNotFoundError(`Campaign not found: ${CAMPAIGN_ID}`);
+    });
+
+    const res = await call(controller.deleteCampaign, { params });
+
+    expect(res.statusCode).toBe(404);
+    expect(res.body).toEqual({
+      success: false,
+      error: `Campaign not found: ${CAMPAIGN_ID}`,
+    });
+  });
+
+  it("maps invalid changes to 400 and failures to apply them to 500", async () => {
+    const save = jest
+      .spyOn(configLoader, "saveCampaign")
+      .mockImplementation(() => {
+        throw new ConfigValidationError("Invalid campaign: startDate required");
+      });
+
+    const invalid = await call(controller.updateCampaign, { params });
+
+    save.mockImplementation(() => {
+      throw new Error("listener failed");
+    });
+    const failed = await call(controller.updateCampaign, { params });
+
+    expect(invalid.statusCode).toBe(400);
+    expect(invalid.body.error).toBe("Invalid campaign: startDate required");
+    expect(failed.statusCode).toBe(500);
+    expect(failed.body.error).toBe("listener failed");
+  });
+});
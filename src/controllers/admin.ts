@@ -0,0 +1,840 @@
+import { Request, Response } from "express";
+import blockchainService, { BlockchainService } from "../services/blockchain";
+import configLoader, {
+  ConfigNotFoundError,
+  ConfigValidationError,
+  IConfigDiff,
+} from "../config/config-loader";
+import partnerRegistry from "../config/partner-loader";
+import partnerUsage from "../services/partner-usage";
+import merkleTreeStore from "../services/merkle";
+import campaignSnapshotStore from "../services/campaign-snapshots";
+import webhookDispatcher from "../services/webhooks";
+import logger from "../utils/logger";
+import { getCampaignSpan, parseWindowIndex } from "../utils/schedule";
+
+/**
+ * Controller for administrative actions
+ * Routes using it must be protected by the admin auth middleware
+ */
+export class AdminController {
+  private blockchainService: BlockchainService;
+
+  constructor() {
+    this.blockchainService = blockchainService;
+  }
+
+  /**
+   * Reload configuration from file
+   *
+   * @param req Express request
+   * @param res Express response
+   * @returns Promise<void>
+   */
+  reloadConfig = async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const diff = configLoader.reloadConfig();
+      partnerRegistry.reloadPartners();
+
+      res.json({
+        success: true,
+        message: "Configuration reloaded successfully",
+        diff,
+      });
+    } catch (error: any) {
+      logger.error("Error reloading configuration:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  };
+
+  /**
+   * Show configuration changes: the differences applied by the last reload
+   * and those pending in the configuration file, with the last reload error
+   *
+   * @param req Express request
+   * @param res Express response
+   * @returns Promise<void>
+   */
+  getConfigDiff = async (_req: Request, res: Response): Promise<void> => {
+    try {
+      let pending: IConfigDiff | null = null;
+      let pendingError: string | null = null;
+
+      try {
+        pending = configLoader.previewReload();
+      } catch (error: any) {
+        pendingError = error.message;
+      }
+
+      res.json({
+        success: true,
+        ...configLoader.getReloadStatus(),
+        pending,
+        pendingError,
+      });
+    } catch (error: any) {
+      logger.error("Error computing configuration diff:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  };
+
+  /**
+   * Create a contract
+   * Body: { id, ...contract definition as in contracts.json }
+   *
+   * @param req Express request
+   * @param res Express response
+   * @returns Promise<void>
+   */
+  createContract = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, ...contract } = req.body || {};
+
+      if (typeof id !== "string" || !id) {
+        res.status(400).json({ success: false, error: "id is required" });
+        return;
+      }
+      if (this.contractExists(id)) {
+        res.status(409).json({
+          success: false,
+          error: `Contract already exists: ${id}`,
+        });
+        return;
+      }
+
+      const diff = configLoader.saveContract(id, contract);
+      res
+        .status(201)
+        .json({ success: true, message: "Contract created", diff });
+    } catch (error: any) {
+      this.sendConfigError(res, "creating contract", error);
+    }
+  };
+
+  /**
+   * Replace a contract; its campaigns are kept unless the body lists them
+   *
+   * @param req Express request
+   * @param res Express response
+   * @returns Promise<void>
+   */
+  updateContract = async (
+    req: Request<{ contractId: string }>,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const { contractId } = req.params;
+
+      if (!this.contractExists(contractId)) {
+        res.status(404).json({
+          success: false,
+          error: `Contract not found: ${contractId}`,
+        });
+        return;
+      }
+
+      const diff = configLoader.saveContract(contractId, req.body);
+      res.json({ success: true, message: "Contract updated", diff });
+    } catch (error: any) {
+      this.sendConfigError(res, "updating contract", error);
+    }
+  };
+
+  /**
+   * Delete a contract and its campaigns
+   *
+   * @param req Express request
+   * @param res Express response
+   * @returns Promise<void>
+   */
+  deleteContract = async (
+    req: Request<{ contractId: string }>,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const { contractId } = req.params;
+
+      if (!this.contractExists(contractId)) {
+        res.status(404).json({
+          success: false,
+          error: `Contract not found: ${contractId}`,
+        });
+        return;
+      }
+
+      const diff = configLoader.deleteContract(contractId);
+      res.json({ success: true, message: "Contract deleted", diff });
+    } catch (error: any) {
+      this.sendConfigError(res, "deleting contract", error);
+    }
+  };
+
+  /**
+   * Create a campaign of a contract
+   * Body: { id, ...campaign definition as in contracts.json }
+   *
+   * @param req Express request
+   * @param res Express response
+   * @returns Promise<void>
+   */
+  createCampaign = async (
+    req: Request<{ contractId: string }>,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const { contractId } = req.params;
+      const { id, ...campaign } = req.body || {};
+
+      if (!this.contractExists(contractId)) {
+        res.status(404).json({
+          success: false,
+          error: `Contract not found: ${contractId}`,
+        });
+        return;
+      }
+      if (typeof id !== "string" || !id) {
+        res.status(400).json({ success: false, error: "id is required" });
+        return;
+      }
+      if (configLoader.getCampaignConfig(contractId, id)) {
+        res.status(409).json({
+          success: false,
+          error: `Campaign already exists: ${id}`,
+        });
+        return;
+      }
+
+      const diff = configLoader.saveCampaign(contractId, id, campaign);
+      res
+        .status(201)
+        .json({ success: true, message: "Campaign created", diff });
+    } catch (error: any) {
+      this.sendConfigError(res, "creating campaign", error);
+    }
+  };
+
+  /**
+   * Replace a campaign of a contract
+   *
+   * @param req Express request
+   * @param res Express response
+   * @returns Promise<void>
+   */
+  updateCampaign = async (
+    req: Request<{ contractId: string; campaignId: string }>,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const { contractId, campaignId } = req.params;
+
+      if (!this.campaignExists(contractId, campaignId)) {
+        res.status(404).json({
+          success: false,
+          error: `Campaign not found: ${contractId}/${campaignId}`,
+        });
+        return;
+      }
+
+      const diff = configLoader.saveCampaign(contractId, campaignId, req.body);
+      res.json({ success: true, message: "Campaign updated", diff });
+    } catch (error: any) {
+      this.sendConfigError(res, "updating campaign", error);
+    }
+  };
+
+  /**
+   * Delete a campaign of a contract
+   *
+   * @param req Express request
+   * @param res Express response
+   * @returns Promise<void>
+   */
+  deleteCampaign = async (
+    req: Request<{ contractId: string; campaignId: string }>,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const { contractId, campaignId } = req.params;
+
+      if (!this.campaignExists(contractId, campaignId)) {
+        res.status(404).json({
+          success: false,
+          error: `Campaign not found: ${contractId}/${campaignId}`,
+        });
+        return;
+      }
+
+      const diff = configLoader.deleteCampaign(contractId, campaignId);
+      res.json({ success: true, message: "Campaign deleted", diff });
+    } catch (error: any) {
+      this.sendConfigError(res, "deleting campaign", error);
+    }
+  };
+
+  /**
+   * Clear the cache
+   *
+   * @param req Express request
+   * @param res Express response
+   * @returns Promise<void>
+   */
+  clearCache = async (_req: Request, res: Response): Promise<void> => {
+    try {
+      this.blockchainService.clearCache();
+      res.json({ success: true, message: "Cache cleared successfully" });
+    } catch (error: any) {
+      logger.error("Error clearing cache:", error);
+      res.status(500).json({ success: false, message: error.message });
+    }
+  };
+
+  /**
+   * Export every address that qualified for a campaign as CSV or JSON
+   * Includes the first interaction (block, tx hash) of each address.
+   * Recurring campaigns export one window (`?window=`, defaults to current)
+   *
+   * @param req Express request
+   * @param res Express response
+   * @returns Promise<void>
+   */
+  exportCampaignEligibility = async (
+    req: Request<{ contractId: string; campaignId: string }>,
+    res: Response
+  ): Promise<void> => {
+    const startTime = performance.now();
+    try {
+      const { contractId, campaignId } = req.params;
+      const format = String(req.query.format || "json").toLowerCase();
+
+      if (format !== "json" && format !== "csv") {
+        res.status(400).json({
+          success: false,
+          error: "Invalid format. Use 'csv' or 'json'",
+        });
+        return;
+      }
+
+      try {
+        if (!configLoader.getCampaignConfig(contractId, campaignId)) {
+          res.status(404).json({
+            success: false,
+            error: `Campaign not found: ${campaignId}`,
+          });
+          return;
+        }
+      } catch (error: any) {
+        res.status(404).json({ success: false, error: error.message });
+        return;
+      }
+
+      const requested = parseWindowIndex(req.query.window);
+      const window =
+        requested === null
+          ? null
+          : configLoader.getCampaignWindow(contractId, campaignId, requested);
+      if (!window) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid campaign window: ${req.query.window}`,
+        });
+        return;
+      }
+
+      logger.info(
+        `Exporting eligible addresses for ${contractId}/${campaignId}, window ${window.index}`
+      );
+
+      const eligibility = await this.blockchainService.getCampaignEligibility(
+        contractId,
+        campaignId,
+        window.index
+      );
+      const generatedAt = new Date().toISOString();
+      const recurring = !!configLoader.getCampaignConfig(contractId, campaignId)
+        ?.recurrence;
+      const filename = `${contractId}_${campaignId}_${
+        recurring ? `w${window.index}_` : ""
+      }eligible.${format}`;
+
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${filename}"`
+      );
+
+      // Stream the rows instead of building one large string
+      if (format === "csv") {
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.write(
+          "address,first_block,first_tx_hash,first_log_index,event_count\n"
+        );
+        for (const entry of eligibility.addresses) {
+          res.write(
+            `${entry.address},${entry.firstBlock},${entry.firstTxHash},${entry.firstLogIndex},${entry.eventCount}\n`
+          );
+        }
+      } else {
+        res.setHeader("Content-Type", "application/json; charset=utf-8");
+        res.write(
+          `{"contract":${JSON.stringify(
+            contractId
+          )},"campaign":${JSON.stringify(campaignId)},"window":${
+            eligibility.window
+          },"generatedAt":"${generatedAt}","startBlock":${
+            eligibility.startBlock
+          },"endBlock":${eligibility.endBlock},"count":${
+            eligibility.addresses.length
+          },"addresses":[`
+        );
+        eligibility.addresses.forEach((entry, i) => {
+          res.write(`${i > 0 ? "," : ""}${JSON.stringify(entry)}`);
+        });
+        res.write("]}");
+      }
+      res.end();
+
+      const endTime = performance.now();
+      const processingTime = ((endTime - startTime) / 1000).toFixed(2);
+      logger.info(
+        `Exported ${eligibility.addresses.length} eligible addresses for ${contractId}/${campaignId} as ${format}. Processing time: ${processingTime} seconds`
+      );
+    } catch (error: any) {
+      logger.error("Error exporting campaign eligibility:", error);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      res.status(500).json({ success: false, error: error.message });
+    }
+  };
+
+  /**
+   * List partners with their quotas and usage counters
+   *
+   * @param req Express request
+   * @param res Express response
+   * @returns Promise<void>
+   */
+  getPartnerUsage = async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const usage = partnerUsage.getUsage();
+
+      // Never expose API keys
+      const partners = partnerRegistry.getPartners().map((partner) => ({
+        id: partner.id,
+        name: partner.name,
+        access: partner.access || "*",
+        corsOrigins: partner.corsOrigins,
+        quotas: partner.quotas,
+        usage: usage[partner.id] || null,
+      }));
+
+      res.json({ success: true, partners });
+    } catch (error: any) {
+      logger.error("Error getting partner usage:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  };
+
+  /**
+   * Webhook subscriptions, delivery counters, pending eligibility checks and
+   * the dead-letter list
+   *
+   * @param req Express request
+   * @param res Express response
+   * @returns Promise<void>
+   */
+  getWebhooks = async (_req: Request, res: Response): Promise<void> => {
+    try {
+      // Never expose webhook secrets
+      const subscriptions = partnerRegistry
+        .getWebhookSubscriptions()
+        .map(({ id, partnerId, contract, campaign, url }) => ({
+          id,
+          partnerId,
+          contract,
+          campaign,
+          url,
+        }));
+
+      res.json({
+        success: true,
+        subscriptions,
+        deliveries: webhookDispatcher.getStats(),
+        pendingChecks: webhookDispatcher.getPendingCheckCount(),
+        deadLetters: webhookDispatcher.getDeadLetters(),
+      });
+    } catch (error: any) {
+      logger.error("Error getting webhooks:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  };
+
+  /**
+   * Queue a dead-letter webhook delivery again
+   *
+   * @param req Express request
+   * @param res Express response
+   * @returns Promise<void>
+   */
+  retryWebhook = async (
+    req: Request<{ deliveryId: string }>,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const deliveryId = Number(req.params.deliveryId);
+
+      if (
+        !Number.isInteger(deliveryId) ||
+        !webhookDispatcher.retryDeadLetter(deliveryId)
+      ) {
+        res.status(404).json({
+          success: false,
+          error: `No dead-letter delivery ${req.params.deliveryId}`,
+        });
+        return;
+      }
+
+      logger.info(`Webhook delivery ${deliveryId} re-queued for retry`);
+      res.json({ success: true, message: "Delivery queued for retry" });
+    } catch (error: any) {
+      logger.error("Error retrying webhook delivery:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  };
+
+  /**
+   * Build the Merkle distribution tree of a finished campaign from its final
+   * eligible set
+   * Body (optional): { amounts: { [address]: amount }, defaultAmount }, with
+   * amounts in base units; leaves are [address, amount] when either is set
+   * and eligible addresses without an amount are left out
+   *
+   * @param req Express request
+   * @param res Express response
+   * @returns Promise<void>
+   */
+  buildMerkleTree = async (
+    req: Request<{ contractId: string; campaignId: string }>,
+    res: Response
+  ): Promise<void> => {
+    const startTime = performance.now();
+    try {
+      const { contractId, campaignId } = req.params;
+      const { amounts, defaultAmount } = req.body || {};
+
+      let campaignConfig;
+      try {
+        campaignConfig = configLoader.getCampaignConfig(contractId, campaignId);
+      } catch (error: any) {
+        res.status(404).json({ success: false, error: error.message });
+        return;
+      }
+      if (!campaignConfig) {
+        res.status(404).json({
+          success: false,
+          error: `Campaign not found: ${campaignId}`,
+        });
+        return;
+      }
+
+      // Recurring campaigns have one eligible set per window
+      if (campaignConfig.recurrence) {
+        res.status(400).json({
+          success: false,
+          error: `Merkle trees are not supported for recurring campaigns: ${campaignId}`,
+        });
+        return;
+      }
+
+      if (getCampaignSpan(campaignConfig).endDate > new Date()) {
+        res.status(409).json({
+          success: false,
+          error: `Campaign ${campaignId} has not ended yet (ends ${campaignConfig.endDate})`,
+        });
+        return;
+      }
+
+      if (
+        amounts !== undefined &&
+        (typeof amounts !== "object" ||
+          amounts === null ||
+          Array.isArray(amounts))
+      ) {
+        res.status(400).json({
+          success: false,
+          error: "amounts must be an object mapping addresses to amounts",
+        });
+        return;
+      }
+
+      // Amounts are uint256 values in base units
+      const amountPattern = /^\d+$/;
+      const amountsByAddress = new Map<string, string>();
+      for (const [address, amount] of Object.entries(amounts || {})) {
+        if (
+          !/^0x[a-fA-F0-9]{40}$/.test(address) ||
+          !amountPattern.test(String(amount))
+        ) {
+          res.status(400).json({
+            success: false,
+            error: `Invalid amount entry: ${address} => ${amount}`,
+          });
+          return;
+        }
+        amountsByAddress.set(address.toLowerCase(), String(amount));
+      }
+
+      if (
+        defaultAmount !== undefined &&
+        !amountPattern.test(String(defaultAmount))
+      ) {
+        res.status(400).json({
+          success: false,
+          error: "defaultAmount must be a non-negative integer",
+        });
+        return;
+      }
+
+      logger.info(`Building Merkle tree for ${contractId}/${campaignId}`);
+
+      const eligibility = await this.blockchainService.getCampaignEligibility(
+        contractId,
+        campaignId
+      );
+      const eligible = eligibility.addresses.map((entry) => entry.address);
+      const withAmounts = amounts !== undefined || defaultAmount !== undefined;
+
+      let leaves = eligible;
+      let amountsForLeaves: Map<string, string> | undefined;
+      if (withAmounts) {
+        amountsForLeaves = new Map();
+        for (const address of eligible) {
+          const amount =
+            amountsByAddress.get(address) ??
+            (defaultAmount !== undefined ? String(defaultAmount) : undefined);
+          if (amount !== undefined) {
+            amountsForLeaves.set(address, amount);
+          }
+        }
+        leaves = eligible.filter((address) => amountsForLeaves!.has(address));
+      }
+
+      if (leaves.length === 0) {
+        res.status(409).json({
+          success: false,
+          error: "No eligible addresses to include in the tree",
+        });
+        return;
+      }
+
+      const distribution = merkleTreeStore.build(
+        contractId,
+        campaignId,
+        leaves,
+        { startBlock: eligibility.startBlock, endBlock: eligibility.endBlock },
+        amountsForLeaves
+      );
+
+      const eligibleSet = new Set(eligible);
+      const processingTime = ((performance.now() - startTime) / 1000).toFixed(
+        2
+      );
+      logger.info(
+        `Merkle tree for ${contractId}/${campaignId} built with ${leaves.length} leaves. Processing time: ${processingTime} seconds`
+      );
+
+      res.json({
+        success: true,
+        root: distribution.root,
+        leafEncoding: distribution.leafEncoding,
+        count: distribution.count,
+        startBlock: distribution.startBlock,
+        endBlock: distribution.endBlock,
+        generatedAt: distribution.generatedAt,
+        // Eligible addresses left out for lack of an amount
+        skipped: eligible.length - leaves.length,
+        // Addresses with an amount that are not eligible
+        ignored: [...amountsByAddress.keys()].filter(
+          (address) => !eligibleSet.has(address)
+        ).length,
+      });
+    } catch (error: any) {
+      logger.error("Error building Merkle tree:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  };
+
+  /**
+   * Get the stored Merkle distribution of a campaign, including the full
+   * OpenZeppelin tree dump
+   *
+   * @param req Express request
+   * @param res Express response
+   * @returns Promise<void>
+   */
+  getMerkleTree = async (
+    req: Request<{ contractId: string; campaignId: string }>,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const { contractId, campaignId } = req.params;
+
+      if (!this.campaignExists(contractId, campaignId)) {
+        res.status(404).json({
+          success: false,
+          error: `Campaign not found: ${contractId}/${campaignId}`,
+        });
+        return;
+      }
+
+      const distribution = merkleTreeStore.getDistribution(
+        contractId,
+        campaignId
+      );
+
+      if (!distribution) {
+        res.status(404).json({
+          success: false,
+          error: `No Merkle tree built for ${contractId}/${campaignId}`,
+        });
+        return;
+      }
+
+      res.json({ success: true, distribution });
+    } catch (error: any) {
+      logger.error("Error getting Merkle tree:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  };
+
+  /**
+   * Freeze the final results of an ended campaign
+   * Finalizing again rescans the campaign and replaces the snapshot
+   *
+   * @param req Express request
+   * @param res Express response
+   * @returns Promise<void>
+   */
+  finalizeCampaign = async (
+    req: Request<{ contractId: string; campaignId: string }>,
+    res: Response
+  ): Promise<void> => {
+    const startTime = performance.now();
+    try {
+      const { contractId, campaignId } = req.params;
+
+      if (!this.campaignExists(contractId, campaignId)) {
+        res.status(404).json({
+          success: false,
+          error: `Campaign not found: ${contractId}/${campaignId}`,
+        });
+        return;
+      }
+
+      const status = this.blockchainService.getCampaignStatus(
+        contractId,
+        campaignId
+      );
+      if (status === "upcoming" || status === "active") {
+        res.status(409).json({
+          success: false,
+          error: `Campaign ${campaignId} has not ended yet (status: ${status})`,
+        });
+        return;
+      }
+
+      logger.info(`Finalizing ${contractId}/${campaignId}`);
+
+      const snapshot = await this.blockchainService.finalizeCampaign(
+        contractId,
+        campaignId
+      );
+
+      const endTime = performance.now();
+      const processingTime = ((endTime - startTime) / 1000).toFixed(2);
+      logger.info(
+        `Finalized ${contractId}/${campaignId}. Processing time: ${processingTime} seconds`
+      );
+
+      res.json({
+        success: true,
+        contract: contractId,
+        campaign: campaignId,
+        status: "finalized",
+        finalizedAt: snapshot.finalizedAt,
+        windows: snapshot.windows.map(({ addresses, ...window }) => ({
+          ...window,
+          count: addresses.length,
+        })),
+      });
+    } catch (error: any) {
+      logger.error("Error finalizing campaign:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  };
+
+  /**
+   * Delete the final results of a campaign so it is verified live again
+   *
+   * @param req Express request
+   * @param res Express response
+   * @returns Promise<void>
+   */
+  unfinalizeCampaign = async (
+    req: Request<{ contractId: string; campaignId: string }>,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const { contractId, campaignId } = req.params;
+
+      if (!campaignSnapshotStore.remove(contractId, campaignId)) {
+        res.status(404).json({
+          success: false,
+          error: `Campaign ${contractId}/${campaignId} is not finalized`,
+        });
+        return;
+      }
+
+      res.json({ success: true, message: "Final results deleted" });
+    } catch (error: any) {
+      logger.error("Error deleting final results:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  };
+
+  /**
+   * Helper method to check if a contract is configured
+   */
+  private contractExists(contractId: string): boolean {
+    return configLoader.getAvailableContracts().includes(contractId);
+  }
+
+  /**
+   * Helper method to check if a campaign is configured
+   */
+  private campaignExists(contractId: string, campaignId: string): boolean {
+    return (
+      this.contractExists(contractId) &&
+      configLoader.getCampaignConfig(contractId, campaignId) !== null
+    );
+  }
+
+  /**
+   * Helper method to answer a failed configuration change: 404 when the
+   * target no longer exists, 400 when the change was rejected by validation,
+   * 500 otherwise
+   */
+  private sendConfigError(res: Response, action: string, error: any): void {
+    if (error instanceof ConfigNotFoundError) {
+      res.status(404).json({ success: false, error: error.message });
+      return;
+    }
+    if (error instanceof ConfigValidationError) {
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+
+    logger.error(`Error ${action}:`, error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+}
@@ -0,0 +1,212 @@
+import { Request, Response } from "express";
+import blockchainService, {
+  BlockchainService,
+  IndeterminateResultError,
+} from "../services/blockchain";
+import attestationService, {
+  AttestationService,
+  IEligibilityAttestation,
+} from "../services/attestation";
+import { VerificationTrace } from "../services/verification-trace";
+import configLoader from "../config/config-loader";
+import logger from "../utils/logger";
+import { parseWindowIndex } from "../utils/schedule";
+
+/**
+ * Controller for signed eligibility attestations
+ */
+export class AttestationController {
+  private blockchainService: BlockchainService;
+  private attestationService: AttestationService;
+
+  constructor() {
+    this.blockchainService = blockchainService;
+    this.attestationService = attestationService;
+  }
+
+  /**
+   * Verify an address against a campaign and return an EIP-712 signed
+   * attestation of the result
+   *
+   * @param req Express request
+   * @param res Express response
+   * @returns Promise<void>
+   */
+  createAttestation = async (
+    req: Request<{ address: string }>,
+    res: Response
+  ): Promise<void> => {
+    const startTime = performance.now();
+    try {
+      const { address } = req.params;
+      const { contract, campaign } = req.query;
+
+      if (!this.attestationService.isEnabled()) {
+        res
+          .status(503)
+          .json({ success: false, error: "Attestations are not configured" });
+        return;
+      }
+
+      if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid Ethereum address format",
+        });
+        return;
+      }
+
+      if (!contract || !campaign) {
+        res.status(400).json({
+          success: false,
+          error: "Both 'contract' and 'campaign' query parameters are required",
+        });
+        return;
+      }
+
+      const contractId = String(contract);
+      const campaignId = String(campaign);
+      const campaignConfig = configLoader.getCampaignConfig(
+        contractId,
+        campaignId
+      );
+      if (!campaignConfig) {
+        res.status(404).json({
+          success: false,
+          error: `Campaign not found: ${campaignId}`,
+        });
+        return;
+      }
+
+      const windowIndex = parseWindowIndex(req.query.window);
+      const campaignWindow =
+        windowIndex === null
+          ? null
+          : configLoader.getCampaignWindow(contractId, campaignId, windowIndex);
+      if (!campaignWindow) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid campaign window: ${req.query.window}`,
+        });
+        return;
+      }
+
+      // The trace provides the evidence block that is signed along the result
+      const trace = new VerificationTrace();
+      const result = await this.blockchainService.hasInteractedInTimeRange(
+        address.toLowerCase(),
+        campaignWindow.startDate,
+        campaignWindow.endDate,
+        contractId,
+        campaignId,
+        trace
+      );
+      const evidenceBlock =
+        trace.evidence?.blockNumber ?? trace.blockRange?.toBlock ?? 0;
+
+      const signed = await this.attestationService.sign(
+        address,
+        contractId,
+        campaignId,
+        result,
+        evidenceBlock
+      );
+
+      const processingTime = ((performance.now() - startTime) / 1000).toFixed(
+        2
+      );
+      logger.info(
+        `Signed attestation for ${address} on ${contractId}, campaign: ${campaignId}: ${result}. Processing time: ${processingTime} seconds`
+      );
+
+      res.json({
+        success: true,
+        ...signed,
+        signer: this.attestationService.getSignerAddress(),
+      });
+    } catch (error: any) {
+      // Undecided results are never signed
+      if (error instanceof IndeterminateResultError) {
+        logger.warn(`Attestation not signed: ${error.message}`);
+        res.setHeader("Retry-After", String(error.retryAfter));
+        res.status(503).json({
+          success: false,
+          error: error.message,
+          retryAfter: error.retryAfter,
+        });
+        return;
+      }
+      logger.error("Error creating attestation:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  };
+
+  /**
+   * Check a signed attestation
+   * Body: { attestation, signature } as returned by createAttestation
+   *
+   * @param req Express request
+   * @param res Express response
+   * @returns Promise<void>
+   */
+  verifyAttestation = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { attestation, signature } = req.body || {};
+
+      if (!this.attestationService.isEnabled()) {
+        res
+          .status(503)
+          .json({ success: false, error: "Attestations are not configured" });
+        return;
+      }
+
+      if (
+        !attestation ||
+        typeof attestation !== "object" ||
+        typeof signature !== "string"
+      ) {
+        res.status(400).json({
+          success: false,
+          error: "Both 'attestation' and 'signature' are required",
+        });
+        return;
+      }
+
+      if (
+        !configLoader.getAvailableContracts().includes(attestation.contractId)
+      ) {
+        res.status(400).json({
+          success: false,
+          error: `Contract not found: ${attestation.contractId}`,
+        });
+        return;
+      }
+
+      const verification = this.attestationService.verify(
+        attestation as IEligibilityAttestation,
+        signature
+      );
+
+      res.json({ success: true, ...verification });
+    } catch (error: any) {
+      logger.error("Error verifying attestation:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  };
+
+  /**
+   * Publish the EIP-712 domains, types and signer address
+   *
+   * @param req Express request
+   * @param res Express response
+   * @returns Promise<void>
+   */
+  getDomain = async (_req: Request, res: Response): Promise<void> => {
+    try {
+      res.json({ success: true, ...this.attestationService.describe() });
+    } catch (error: any) {
+      logger.error("Error describing attestation domain:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  };
+}
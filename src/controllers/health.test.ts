@@ -0,0 +1,100 @@
+import { Request, Response } from "express";
+import healthService, { IReadinessReport } from "../services/health";
+import { HealthController } from "./health";
+
+/**
+ * Call a health handler with a mock response
+ * @param handler Controller handler
+ * @returns Response status and body
+ */
+async function call(
+  handler: (req: Request, res: Response) => void | Promise<void>
+) {
+  const res = {
+    statusCode: 200,
+    body: undefined as any,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+  };
+
+  await handler({} as Request, res as unknown as Response);
+  return res;
+}
+
+/**
+ * Readiness report with the given verdict
+ * @param ready Whether the service is ready
+ */
+function report(ready: boolean): IReadinessReport {
+  return {
+    ready,
+    checkedAt: new Date().toISOString(),
+    config: { loaded: true, contracts: 1 },
+    contracts: {
+      token: { chainId: 8453, ready, endpoints: [], error: null },
+    },
+  };
+}
+
+describe("HealthController", () => {
+  const controller = new HealthController();
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it("answers liveness without checking readiness", async () => {
+    const readiness = jest.spyOn(healthService, "getReadiness");
+
+    const res = await call(controller.getHealth);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({ success: true, status: "ok" });
+    expect(readiness).not.toHaveBeenCalled();
+  });
+
+  it("responds 200 with the report when ready", async () => {
+    jest.spyOn(healthService, "getReadiness").mockResolvedValue(report(true));
+
+    const res = await call(controller.getReadiness);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({
+      success: true,
+      status: "ready",
+      contracts: { token: { ready: true } },
+    });
+  });
+
+  it("responds 503 with the same detail when not ready", async () => {
+    jest.spyOn(healthService, "getReadiness").mockResolvedValue(report(false));
+
+    const res = await call(controller.getReadiness);
+
+    expect(res.statusCode).toBe(503);
+    expect(res.body).toMatchObject({
+      success: false,
+      status: "not_ready",
+      contracts: { token: { ready: false } },
+    });
+  });
+
+  it("responds 503 when the readiness check throws", async () => {
+    jest
+      .spyOn(healthService, "getReadiness")
+      .mockRejectedValue(new Error("boom"));
+
+    const res = await call(controller.getReadiness);
+
+    expect(res.statusCode).toBe(503);
+    expect(res.body).toEqual({
+      success: false,
+      status: "not_ready",
+      error: "boom",
+    });
+  });
+});
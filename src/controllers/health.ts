@@ -0,0 +1,56 @@
+import { Request, Response } from "express";
+import healthService, { HealthService } from "../services/health";
+import logger from "../utils/logger";
+
+/**
+ * Controller for the liveness and readiness endpoints
+ */
+export class HealthController {
+  private healthService: HealthService;
+
+  constructor() {
+    this.healthService = healthService;
+  }
+
+  /**
+   * Liveness: the process is up and serving requests
+   * No RPC calls, so a slow chain never gets the process restarted
+   *
+   * @param req Express request
+   * @param res Express response
+   */
+  getHealth = (req: Request, res: Response): void => {
+    res.json({
+      success: true,
+      status: "ok",
+      uptime: Math.round(process.uptime()),
+    });
+  };
+
+  /**
+   * Readiness: configuration loaded and every contract has a usable RPC
+   * endpoint. Responds 503 with the same detail when not ready
+   *
+   * @param req Express request
+   * @param res Express response
+   * @returns Promise<void>
+   */
+  getReadiness = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const report = await this.healthService.getReadiness();
+
+      res.status(report.ready ? 200 : 503).json({
+        success: report.ready,
+        status: report.ready ? "ready" : "not_ready",
+        ...report,
+      });
+    } catch (error: any) {
+      logger.error("Error checking readiness:", error);
+      res.status(503).json({
+        success: false,
+        status: "not_ready",
+        error: error.message,
+      });
+    }
+  };
+}
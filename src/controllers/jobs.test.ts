@@ -0,0 +1,127 @@
+import dns from "dns";
+import { Request, Response } from "express";
+import { IPartner } from "../config/partner-loader";
+import jobQueue, { IJobView } from "../services/job-queue";
+import { JobController } from "./jobs";
+
+const CONTRACT_ID = "doge_base_aerodome";
+const ALICE = "0x1111111111111111111111111111111111111111";
+
+const galxe = {
+  id: "galxe",
+  callbacks: { origins: ["https://quests.example"], secret: "secret" },
+} as IPartner;
+
+/**
+ * Create a job for a partner
+ * @returns Response status and body
+ */
+async function createJob(body: Record<string, unknown>, partner?: IPartner) {
+  const res = {
+    statusCode: 200,
+    body: undefined as any,
+    locals: { partner },
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    location: () => res,
+    json(payload: unknown) {
+      res.body = payload;
+      return res;
+    },
+  };
+
+  await new JobController().createJob(
+    {
+      baseUrl: "/api/jobs",
+      body: { contract: CONTRACT_ID, address: ALICE, ...body },
+    } as Request,
+    res as unknown as Response
+  );
+  return { status: res.statusCode, body: res.body };
+}
+
+describe("job callbacks", () => {
+  let enqueue: jest.SpyInstance;
+
+  beforeEach(() => {
+    enqueue = jest
+      .spyOn(jobQueue, "enqueue")
+      .mockReturnValue({ id: "job" } as IJobView);
+    jest
+      .spyOn(dns.promises, "lookup")
+      .mockResolvedValue([{ address: "93.184.215.14", family: 4 }] as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("accepts callbacks to the partner's registered origins", async () => {
+    const { status } = await createJob(
+      { callbackUrl: "https://quests.example/hooks/jobs" },
+      galxe
+    );
+
+    expect(status).toBe(202);
+    expect(enqueue).toHaveBeenCalledWith(
+      expect.objectContaining({
+        callbackUrl: "https://quests.example/hooks/jobs",
+        partnerId: "galxe",
+      })
+    );
+  });
+
+  it("rejects callbacks from anonymous callers and partners without callbacks", async () => {
+    const callbackUrl = "https://quests.example/hooks/jobs";
+
+    expect(await createJob({ callbackUrl })).toEqual({
+      status: 403,
+      body: {
+        success: false,
+        error: "Callbacks are not enabled for this API key",
+      },
+    });
+    expect(
+      (await createJob({ callbackUrl }, { id: "zealy" } as IPartner)).status
+    ).toBe(403);
+    expect(enqueue).not.toHaveBeenCalled();
+  });
+
+  it("rejects other origins, including other ports", async () => {
+    for (const callbackUrl of [
+      "https://attacker.example/hooks",
+      "https://quests.example:8443/hooks",
+      "http://quests.example/hooks",
+    ]) {
+      expect(await createJob({ callbackUrl }, galxe)).toEqual({
+        status: 403,
+        body: { success: false, error: "callbackUrl origin is not allowed" },
+      });
+    }
+  });
+
+  it("rejects registered hosts that resolve to private addresses", async () => {
+    jest
+      .spyOn(dns.promises, "lookup")
+      .mockResolvedValue([{ address: "127.0.0.1", family: 4 }] as any);
+
+    const { status, body } = await createJob(
+      { callbackUrl: "https://quests.example/hooks" },
+      galxe
+    );
+
+    expect(status).toBe(400);
+    expect(body.error).toMatch(/^Invalid callbackUrl: .*non-public address/);
+  });
+
+  it("rejects URLs that are not http(s)", async () => {
+    const { status } = await createJob(
+      { callbackUrl: "gopher://quests.example/" },
+      galxe
+    );
+
+    expect(status).toBe(400);
+  });
+});
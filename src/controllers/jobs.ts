@@ -0,0 +1,274 @@
+import { Request, Response } from "express";
+import jobQueue, { JobQueue } from "../services/job-queue";
+import configLoader from "../config/config-loader";
+import logger from "../utils/logger";
+import { assertPublicUrl } from "../utils/network";
+import {
+  isValidTimezone,
+  parseScheduleDate,
+  parseWindowIndex,
+} from "../utils/schedule";
+
+/**
+ * Controller for asynchronous verification jobs
+ */
+export class JobController {
+  private jobQueue: JobQueue;
+
+  constructor() {
+    this.jobQueue = jobQueue;
+  }
+
+  /**
+   * Queue a verification of one address or a list of addresses
+   * Body: { address | addresses, contract, campaign?, window?, startDate?,
+   * endDate?, timezone?, callbackUrl? }; a composite campaign is given as
+   * `campaign` without `contract`
+   *
+   * @param req Express request
+   * @param res Express response
+   * @returns Promise<void>
+   */
+  createJob = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const {
+        address,
+        addresses,
+        contract,
+        campaign,
+        window,
+        startDate,
+        endDate,
+        timezone,
+        callbackUrl,
+      } = req.body || {};
+      const { maxBatchSize } = configLoader.getEnvConfig();
+
+      const list: unknown[] = addresses ?? (address ? [address] : []);
+      if (!Array.isArray(list) || list.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: "address or a non-empty addresses array is required",
+        });
+        return;
+      }
+
+      if (list.length > maxBatchSize) {
+        res.status(400).json({
+          success: false,
+          error: `Too many addresses: ${list.length} (max ${maxBatchSize})`,
+        });
+        return;
+      }
+
+      const invalid = list.map(String).find((a) => !this.isValidAddress(a));
+      if (invalid !== undefined) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid Ethereum address format: ${invalid}`,
+        });
+        return;
+      }
+
+      const contractId = contract ? String(contract) : undefined;
+      const campaignId = campaign ? String(campaign) : undefined;
+
+      if (!contractId) {
+        if (!campaignId || !configLoader.getCompositeCampaign(campaignId)) {
+          res.status(400).json({
+            success: false,
+            error:
+              "Contract ID is required unless campaign is a composite campaign.",
+          });
+          return;
+        }
+      } else if (!configLoader.getAvailableContracts().includes(contractId)) {
+        res.status(400).json({
+          success: false,
+          error: `Contract not found: ${contractId}`,
+        });
+        return;
+      } else if (
+        campaignId &&
+        !configLoader.getCampaignConfig(contractId, campaignId)
+      ) {
+        res.status(400).json({
+          success: false,
+          error: `Campaign not found: ${campaignId}`,
+        });
+        return;
+      }
+
+      // The window is pinned when queued so every address of the job is
+      // checked against the same window
+      let windowIndex: number | undefined;
+      if (contractId && campaignId) {
+        const requested = parseWindowIndex(window);
+        const campaignWindow =
+          requested === null
+            ? null
+            : configLoader.getCampaignWindow(contractId, campaignId, requested);
+        if (!campaignWindow) {
+          res.status(400).json({
+            success: false,
+            error: `Invalid campaign window: ${window}`,
+          });
+          return;
+        }
+        windowIndex = campaignWindow.index;
+      }
+
+      let startDateTime: Date | undefined;
+      let endDateTime: Date | undefined;
+
+      if (contractId && !campaignId && (startDate || endDate)) {
+        const zone = timezone ? String(timezone) : "UTC";
+        if (!isValidTimezone(zone)) {
+          res.status(400).json({
+            success: false,
+            error: `Invalid timezone: ${zone}`,
+          });
+          return;
+        }
+
+        // A date-only end date covers the whole day in the timezone
+        startDateTime = parseScheduleDate(String(startDate), zone);
+        endDateTime = parseScheduleDate(String(endDate), zone, "end");
+
+        if (isNaN(startDateTime.getTime()) || isNaN(endDateTime.getTime())) {
+          res.status(400).json({
+            success: false,
+            error:
+              "Invalid date format. Use ISO format (YYYY-MM-DD or YYYY-MM-DDTHH:MM:SSZ)",
+          });
+          return;
+        }
+
+        if (startDateTime > endDateTime) {
+          res.status(400).json({
+            success: false,
+            error: "startDate must be before endDate",
+          });
+          return;
+        }
+      }
+
+      if (callbackUrl !== undefined) {
+        if (!this.isValidCallbackUrl(callbackUrl)) {
+          res.status(400).json({
+            success: false,
+            error: "callbackUrl must be an http(s) URL",
+          });
+          return;
+        }
+
+        // Callbacks go to origins the partner registered, never to anonymous
+        // callers' URLs
+        const callbacks = res.locals.partner?.callbacks;
+        if (!callbacks) {
+          res.status(403).json({
+            success: false,
+            error: "Callbacks are not enabled for this API key",
+          });
+          return;
+        }
+
+        if (!callbacks.origins.includes(new URL(callbackUrl).origin)) {
+          res.status(403).json({
+            success: false,
+            error: "callbackUrl origin is not allowed",
+          });
+          return;
+        }
+
+        try {
+          await assertPublicUrl(callbackUrl);
+        } catch (error: any) {
+          res.status(400).json({
+            success: false,
+            error: `Invalid callbackUrl: ${error.message}`,
+          });
+          return;
+        }
+      }
+
+      if (this.jobQueue.isFull()) {
+        res.status(503).json({ success: false, error: "Job queue is full" });
+        return;
+      }
+
+      const job = this.jobQueue.enqueue({
+        addresses: list.map(String),
+        contract: contractId,
+        campaign: campaignId,
+        window: windowIndex,
+        startDate: startDateTime,
+        endDate: endDateTime,
+        callbackUrl,
+        partnerId: res.locals.partner?.id,
+      });
+
+      res
+        .status(202)
+        .location(`${req.baseUrl}/${job.id}`)
+        .json({ success: true, job });
+    } catch (error: any) {
+      logger.error("Error creating job:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  };
+
+  /**
+   * Get the status, progress and results of a job
+   *
+   * @param req Express request
+   * @param res Express response
+   * @returns Promise<void>
+   */
+  getJob = async (
+    req: Request<{ id: string }>,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const job = this.jobQueue.getJob(req.params.id, res.locals.partner?.id);
+      if (!job) {
+        res.status(404).json({ success: false, error: "Job not found" });
+        return;
+      }
+
+      res.json({ success: true, job });
+    } catch (error: any) {
+      logger.error("Error getting job:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  };
+
+  /**
+   * Helper method to validate Ethereum address
+   *
+   * @param address Address to validate
+   * @returns True if address is valid
+   */
+  private isValidAddress(address: string): boolean {
+    return /^0x[a-fA-F0-9]{40}$/.test(address);
+  }
+
+  /**
+   * Helper method to validate a callback URL
+   *
+   * @param url Callback URL
+   * @returns True if the URL is an http(s) URL
+   */
+  private isValidCallbackUrl(url: unknown): url is string {
+    if (typeof url !== "string") {
+      return false;
+    }
+
+    try {
+      const { protocol } = new URL(url);
+      return protocol === "http:" || protocol === "https:";
+    } catch {
+      return false;
+    }
+  }
+}
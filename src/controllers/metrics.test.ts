@@ -0,0 +1,86 @@
+import { Request, Response } from "express";
+import { observeVerification, registry } from "../utils/metrics";
+import { MetricsController } from "./metrics";
+
+/**
+ * Scrape the metrics endpoint
+ * @param authorization Authorization header, if any
+ * @returns Response status and body
+ */
+async function scrape(authorization?: string) {
+  const res = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: undefined as any,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    set(name: string, value: string) {
+      res.headers[name.toLowerCase()] = value;
+      return res;
+    },
+    send(body: string) {
+      res.body = body;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+  };
+
+  await new MetricsController().getMetrics(
+    {
+      header: (name: string) =>
+        name.toLowerCase() === "authorization" ? authorization : undefined,
+    } as Request,
+    res as unknown as Response
+  );
+  return res;
+}
+
+describe("metrics endpoint", () => {
+  beforeEach(() => {
+    registry.resetMetrics();
+  });
+
+  afterEach(() => {
+    delete process.env.METRICS_TOKEN;
+  });
+
+  it("exposes verification counters and latency in the Prometheus format", async () => {
+    observeVerification(
+      "doge_base_aerodome",
+      "doge_december_2024",
+      "eligible",
+      0.3
+    );
+    observeVerification("doge_base_aerodome", undefined, "indeterminate", 12);
+
+    const res = await scrape();
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers["content-type"]).toBe(registry.contentType);
+    expect(res.body).toContain(
+      'verification_requests_total{contract="doge_base_aerodome",campaign="doge_december_2024",result="eligible"} 1'
+    );
+    expect(res.body).toContain(
+      'verification_requests_total{contract="doge_base_aerodome",campaign="none",result="indeterminate"} 1'
+    );
+    expect(res.body).toContain(
+      'verification_duration_seconds_bucket{le="0.5",contract="doge_base_aerodome",result="eligible"} 1'
+    );
+    expect(res.body).toContain(
+      'verification_duration_seconds_bucket{le="10",contract="doge_base_aerodome",result="indeterminate"} 0'
+    );
+  });
+
+  it("requires the bearer token when METRICS_TOKEN is set", async () => {
+    process.env.METRICS_TOKEN = "scrape-token";
+
+    expect((await scrape()).statusCode).toBe(401);
+    expect((await scrape("Bearer wrong-token")).statusCode).toBe(401);
+    expect((await scrape("Bearer scrape-token")).statusCode).toBe(200);
+  });
+});
@@ -0,0 +1,53 @@
+import crypto from "crypto";
+import { Request, Response } from "express";
+import { registry } from "../utils/metrics";
+import logger from "../utils/logger";
+
+/**
+ * Controller for the Prometheus metrics endpoint
+ */
+export class MetricsController {
+  /**
+   * Expose the metrics in the Prometheus text format
+   * When METRICS_TOKEN is set, scrapers must send it as a bearer token
+   *
+   * @param req Express request
+   * @param res Express response
+   * @returns Promise<void>
+   */
+  getMetrics = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.isAuthorized(req)) {
+        res.status(401).json({ success: false, error: "Unauthorized" });
+        return;
+      }
+
+      res.set("Content-Type", registry.contentType);
+      res.send(await registry.metrics());
+    } catch (error: any) {
+      logger.error("Error collecting metrics:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  };
+
+  /**
+   * Helper method to check the scraper token
+   *
+   * @param req Express request
+   * @returns True if no token is configured or the request carries it
+   */
+  private isAuthorized(req: Request): boolean {
+    const token = process.env.METRICS_TOKEN;
+    if (!token) {
+      return true;
+    }
+
+    const header = req.header("authorization") || "";
+    const expected = Buffer.from(`Bearer ${token}`);
+    const actual = Buffer.from(header);
+    return (
+      actual.length === expected.length &&
+      crypto.timingSafeEqual(actual, expected)
+    );
+  }
+}
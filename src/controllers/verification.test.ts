@@ -0,0 +1,402 @@
+import { Request, Response } from "express";
+import blockchainService, {
+  IndeterminateResultError,
+} from "../services/blockchain";
+import merkleTreeStore from "../services/merkle";
+import nameResolver, { NameResolutionError } from "../services/name-resolver";
+import { VerificationTrace } from "../services/verification-trace";
+import { VerificationController } from "./verification";
+
+const CONTRACT_ID = "doge_base_aerodome";
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+const CAROL = "0xAbCdEf0000000000000000000000000000000003";
+
+/**
+ * Build a response recording its status, headers and body
+ */
+function mockResponse() {
+  const res = {
+    statusCode: 200,
+    locals: {} as Record<string, unknown>,
+    headers: {} as Record<string, string>,
+    body: undefined as any,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+    setHeader(name: string, value: string) {
+      res.headers[name.toLowerCase()] = value;
+      return res;
+    },
+  };
+  return res;
+}
+
+/**
+ * Run a controller handler with a request body
+ */
+async function call(
+  handler: (req: Request<any>, res: Response) => Promise<void>,
+  request: Partial<Request<any>>
+) {
+  const res = mockResponse();
+  await handler(
+    { query: {}, params: {}, headers: {}, ...request } as Request,
+    res as unknown as Response
+  );
+  return res;
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("batch verification", () => {
+  const controller = new VerificationController();
+  const verifyBatch = (body: unknown) => call(controller.verifyBatch, { body });
+
+  it("rejects empty and oversized batches", async () => {
+    const empty = await verifyBatch({ contract: CONTRACT_ID, addresses: [] });
+    expect(empty.statusCode).toBe(400);
+
+    const oversized = await verifyBatch({
+      contract: CONTRACT_ID,
+      addresses: new Array(501).fill(ALICE),
+    });
+    expect(oversized.statusCode).toBe(400);
+    expect(oversized.body.error).toBe("Too many addresses: 501 (max 500)");
+  });
+
+  it("rejects unknown campaigns", async () => {
+    const res = await verifyBatch({
+      contract: CONTRACT_ID,
+      campaign: "missing",
+      addresses: [ALICE],
+    });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toBe("Campaign not found: missing");
+  });
+
+  it("returns a verdict per address in request order", async () => {
+    const batch = jest
+      .spyOn(blockchainService, "hasInteractedBatch")
+      .mockResolvedValue(new Map([[CAROL.toLowerCase(), true]]));
+
+    const res = await verifyBatch({
+      contract: CONTRACT_ID,
+      addresses: [BOB, "not-an-address", CAROL],
+    });
+
+    expect(batch).toHaveBeenCalledWith(
+      [BOB, CAROL.toLowerCase()],
+      CONTRACT_ID,
+      {
+        campaignId: undefined,
+        window: undefined,
+        startDate: undefined,
+        endDate: undefined,
+      }
+    );
+    expect(res.statusCode).toBe(200);
+    expect(res.body.results).toEqual([
+      { address: BOB, result: 0 },
+      {
+        address: "not-an-address",
+        result: 0,
+        error: "Invalid Ethereum address format",
+      },
+      { address: CAROL, result: 1 },
+    ]);
+  });
+
+  it("passes explicit date ranges, with date-only end dates covering the day", async () => {
+    const batch = jest
+      .spyOn(blockchainService, "hasInteractedBatch")
+      .mockResolvedValue(new Map());
+
+    await verifyBatch({
+      contract: CONTRACT_ID,
+      addresses: [ALICE],
+      startDate: "2025-01-01",
+      endDate: "2025-01-31",
+    });
+
+    expect(batch.mock.calls[0][2]).toMatchObject({
+      startDate: new Date("2025-01-01T00:00:00.000Z"),
+      endDate: new Date("2025-01-31T23:59:59.999Z"),
+    });
+  });
+
+  it("answers 503 with Retry-After when the batch is indeterminate", async () => {
+    jest
+      .spyOn(blockchainService, "hasInteractedBatch")
+      .mockRejectedValue(new IndeterminateResultError("RPC unavailable"));
+
+    const res = await verifyBatch({
+      contract: CONTRACT_ID,
+      addresses: [ALICE],
+    });
+
+    expect(res.statusCode).toBe(503);
+    expect(res.headers["retry-after"]).toBe(String(res.body.retryAfter));
+    expect(res.body).toMatchObject({
+      success: false,
+      error: "RPC unavailable",
+    });
+  });
+});
+
+describe("campaign verification errors", () => {
+  const controller = new VerificationController();
+  const verify = (campaign: string) =>
+    call(controller.verifyInteractionInTimeRange, {
+      params: { address: ALICE },
+      query: { contract: CONTRACT_ID, campaign },
+    });
+
+  it("answers 503 with Retry-After when the RPC endpoints are down", async () => {
+    jest
+      .spyOn(blockchainService, "hasInteractedInTimeRange")
+      .mockRejectedValue(new IndeterminateResultError("RPC unavailable"));
+
+    const res = await verify("doge_december_2024");
+
+    expect(res.statusCode).toBe(503);
+    expect(res.headers["retry-after"]).toBeDefined();
+  });
+
+  it("answers 500, not a configuration error, when verification fails", async () => {
+    jest
+      .spyOn(blockchainService, "hasInteractedInTimeRange")
+      .mockRejectedValue(new Error("Failed to verify"));
+
+    const res = await verify("doge_december_2024");
+
+    expect(res.statusCode).toBe(500);
+    expect(res.body.error).toBe("Failed to verify");
+  });
+
+  it("keeps 400 for campaigns that are not configured", async () => {
+    const verifyInRange = jest.spyOn(
+      blockchainService,
+      "hasInteractedInTimeRange"
+    );
+
+    const res = await verify("missing");
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toBe("Campaign not found: missing");
+    expect(verifyInRange).not.toHaveBeenCalled();
+  });
+});
+
+describe("explain mode", () => {
+  const controller = new VerificationController();
+  const verify = (query: Record<string, string>) =>
+    call(controller.verifyInteraction, {
+      params: { address: ALICE },
+      query: { contract: CONTRACT_ID, ...query },
+    });
+
+  beforeEach(() => {
+    jest
+      .spyOn(blockchainService, "hasInteracted")
+      .mockImplementation(async (_address, _contract, _campaign, trace) => {
+        trace?.setBlockRange(100, 200);
+        trace?.step("index", true, { fromBlock: 100, toBlock: 200 });
+        trace?.setEvidence(
+          {
+            blockNumber: 150,
+            index: 1,
+            transactionHash: "0xabc",
+            topics: [],
+            data: "0x",
+          },
+          "Transfer"
+        );
+        return true;
+      });
+  });
+
+  it("adds the decision path and evidence to the verdict", async () => {
+    const res = await verify({ explain: "1" });
+
+    expect(blockchainService.hasInteracted).toHaveBeenCalledWith(
+      ALICE,
+      CONTRACT_ID,
+      undefined,
+      expect.any(VerificationTrace)
+    );
+    expect(res.body).toEqual({
+      result: 1,
+      explain: {
+        eligible: true,
+        blockRange: { fromBlock: 100, toBlock: 200 },
+        heuristic: false,
+        resolution: null,
+        steps: [{ check: "index", result: true, fromBlock: 100, toBlock: 200 }],
+        evidence: {
+          transactionHash: "0xabc",
+          blockNumber: 150,
+          logIndex: 1,
+          event: "Transfer",
+        },
+      },
+    });
+  });
+
+  it("leaves the verdict unchanged without explain", async () => {
+    const res = await verify({});
+
+    expect(blockchainService.hasInteracted).toHaveBeenCalledWith(
+      ALICE,
+      CONTRACT_ID,
+      undefined,
+      undefined
+    );
+    expect(res.body).toEqual({ result: 1 });
+  });
+});
+
+describe("name resolution", () => {
+  const controller = new VerificationController();
+  const resolution = (name: string, address: string | null) => ({
+    name,
+    address,
+    service: "ens",
+    chainId: 1,
+  });
+
+  it("verifies a name as the address it resolves to", async () => {
+    jest
+      .spyOn(nameResolver, "resolve")
+      .mockResolvedValue(resolution("alice.eth", ALICE));
+    const hasInteracted = jest
+      .spyOn(blockchainService, "hasInteracted")
+      .mockResolvedValue(true);
+
+    const res = await call(controller.verifyInteraction, {
+      params: { address: "alice.eth" },
+      query: { contract: CONTRACT_ID },
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(hasInteracted).toHaveBeenCalledWith(
+      ALICE,
+      CONTRACT_ID,
+      undefined,
+      undefined
+    );
+  });
+
+  it("answers 400 for names without an address or name service", async () => {
+    const resolve = jest
+      .spyOn(nameResolver, "resolve")
+      .mockResolvedValue(resolution("nobody.eth", null));
+    const verify = (address: string) =>
+      call(controller.verifyInteraction, {
+        params: { address },
+        query: { contract: CONTRACT_ID },
+      });
+
+    const unset = await verify("nobody.eth");
+    resolve.mockRejectedValue(
+      new NameResolutionError("Name resolution is not configured for bob.sol")
+    );
+    const unsupported = await verify("bob.sol");
+
+    expect(unset.statusCode).toBe(400);
+    expect(unset.body.error).toBe(
+      "Name does not resolve to an address: nobody.eth"
+    );
+    expect(unsupported.statusCode).toBe(400);
+    expect(unsupported.body.error).toBe(
+      "Name resolution is not configured for bob.sol"
+    );
+  });
+
+  it("answers 503 when the name lookup fails", async () => {
+    jest
+      .spyOn(nameResolver, "resolve")
+      .mockRejectedValue(new IndeterminateResultError("Could not resolve"));
+
+    const res = await call(controller.verifyInteraction, {
+      params: { address: "alice.eth" },
+      query: { contract: CONTRACT_ID },
+    });
+
+    expect(res.statusCode).toBe(503);
+    expect(res.headers["retry-after"]).toBeDefined();
+  });
+
+  it("reports resolved addresses and lookup errors per name in batches", async () => {
+    jest.spyOn(nameResolver, "resolveMany").mockResolvedValue(
+      new Map<string, any>([
+        ["alice.eth", resolution("alice.eth", ALICE)],
+        ["nobody.eth", resolution("nobody.eth", null)],
+        ["bob.eth", new IndeterminateResultError("Could not resolve bob.eth")],
+      ])
+    );
+    const batch = jest
+      .spyOn(blockchainService, "hasInteractedBatch")
+      .mockResolvedValue(new Map([[ALICE, true]]));
+
+    const res = await call(controller.verifyBatch, {
+      body: {
+        contract: CONTRACT_ID,
+        addresses: ["alice.eth", "nobody.eth", "bob.eth", BOB],
+      },
+    });
+
+    expect(batch.mock.calls[0][0]).toEqual([ALICE, BOB]);
+    expect(res.body.results).toEqual([
+      { address: "alice.eth", resolvedAddress: ALICE, result: 1 },
+      {
+        address: "nobody.eth",
+        result: 0,
+        error: "Name does not resolve to an address: nobody.eth",
+      },
+      { address: "bob.eth", result: 0, error: "Could not resolve bob.eth" },
+      { address: BOB, result: 0 },
+    ]);
+  });
+});
+
+describe("Merkle proofs", () => {
+  const controller = new VerificationController();
+  const getProof = (contractId: string, campaignId: string) =>
+    call(controller.getMerkleProof, {
+      params: { contractId, campaignId, address: ALICE },
+    });
+
+  it("answers 404 for unknown campaigns without reading the store", async () => {
+    const distribution = jest.spyOn(merkleTreeStore, "getDistribution");
+
+    const unknown = await getProof(CONTRACT_ID, "missing");
+    const traversal = await getProof("..", "../config/secrets");
+
+    expect(unknown.statusCode).toBe(404);
+    expect(unknown.body.error).toBe(
+      `Campaign not found: ${CONTRACT_ID}/missing`
+    );
+    expect(traversal.statusCode).toBe(404);
+    expect(distribution).not.toHaveBeenCalled();
+  });
+
+  it("answers 404 for configured campaigns without a tree", async () => {
+    jest.spyOn(merkleTreeStore, "getDistribution").mockReturnValue(null);
+
+    const res = await getProof(CONTRACT_ID, "doge_december_2024");
+
+    expect(res.statusCode).toBe(404);
+    expect(res.body.error).toBe(
+      `No Merkle tree built for ${CONTRACT_ID}/doge_december_2024`
+    );
+  });
+});
@@ -1,7 +1,33 @@
 import { Request, Response } from "express";
-import { BlockchainService } from "../services/blockchain";
+import blockchainService, {
+  BlockchainService,
+  IndeterminateResultError,
+} from "../services/blockchain";
 import configLoader from "../config/config-loader";
+import {
+  RESPONSE_FORMATS,
+  getRequestedFormat,
+  isSupportedFormat,
+  sendVerdict,
+  sendVerificationError,
+} from "../adapters/response-adapters";
 import logger from "../utils/logger";
+import { VerificationOutcome, observeVerification } from "../utils/metrics";
+import {
+  CAMPAIGN_STATUSES,
+  CampaignStatus,
+  ICampaignWindow,
+  countCampaignWindows,
+  findCampaignWindow,
+  getScheduleStatus,
+  isValidTimezone,
+  parseScheduleDate,
+  parseWindowIndex,
+} from "../utils/schedule";
+import { VerificationTrace } from "../services/verification-trace";
+import merkleTreeStore from "../services/merkle";
+import campaignSnapshotStore from "../services/campaign-snapshots";
+import nameResolver, { NameResolutionError } from "../services/name-resolver";
 
 /**
  * Controller for handling verification requests
@@ -10,7 +36,7 @@ export class VerificationController {
   private blockchainService: BlockchainService;
 
   constructor() {
-    this.blockchainService = new BlockchainService();
+    this.blockchainService = blockchainService;
   }
   /**
    * Verify if an address has interacted with the contract (all-time)
@@ -19,39 +45,47 @@ export class VerificationController {
    * @param res Express response
    * @returns Promise<void>
    */
-  verifyInteraction = async (req: Request, res: Response): Promise<void> => {
+  verifyInteraction = async (
+    req: Request<{ address: string }>,
+    res: Response
+  ): Promise<void> => {
     const startTime = performance.now();
     try {
-      const { address } = req.params;
+      const { address: addressOrName } = req.params;
       const { contract, campaign } = req.query;
+      const trace = this.createTrace(req);
+      const compositeId = this.getCompositeId(contract, campaign);
+
+      if (!this.validateFormat(req, res)) {
+        return;
+      }
 
       // Validate required parameters
-      if (!address) {
-        res.status(400).json({
-          error: "Address is required",
-          result: 0,
-        });
+      if (!addressOrName) {
+        sendVerificationError(req, res, 400, "Address is required");
         return;
       }
 
-      if (!contract) {
-        res.status(400).json({
-          error:
-            "Contract ID is required. Please specify the 'contract' query parameter.",
-          result: 0,
-        });
+      if (!contract && !compositeId) {
+        sendVerificationError(
+          req,
+          res,
+          400,
+          "Contract ID is required. Please specify the 'contract' query parameter."
+        );
         return;
       }
 
       const contractId = String(contract);
       const campaignId = campaign ? String(campaign) : undefined;
 
-      if (!this.isValidAddress(address)) {
-        logger.warn(`Invalid address format: ${address}`);
-        res.status(400).json({
-          error: "Invalid Ethereum address format",
-          result: 0,
-        });
+      const address = await this.resolveAddress(req, res, addressOrName, trace);
+      if (!address) {
+        return;
+      }
+
+      if (compositeId) {
+        await this.verifyComposite(req, res, address, compositeId, trace);
         return;
       }
 
@@ -64,7 +98,8 @@ export class VerificationController {
       const hasInteracted = await this.blockchainService.hasInteracted(
         address.toLowerCase(),
         contractId,
-        campaignId
+        campaignId,
+        trace
       );
 
       const endTime = performance.now();
@@ -76,15 +111,31 @@ export class VerificationController {
         }: ${hasInteracted ? 1 : 0}. Processing time: ${processingTime} seconds`
       );
 
-      // Return exactly what Galxe expects (without processing time in response)
-      res.json({ result: hasInteracted ? 1 : 0 });
+      // Return exactly what the platform expects (without processing time in response)
+      this.recordOutcome(
+        req,
+        hasInteracted ? "eligible" : "not_eligible",
+        startTime
+      );
+      sendVerdict(
+        req,
+        res,
+        hasInteracted,
+        this.explainFields(trace, hasInteracted)
+      );
     } catch (error: any) {
       const endTime = performance.now();
       const processingTime = ((endTime - startTime) / 1000).toFixed(2);
 
+      if (error instanceof IndeterminateResultError) {
+        this.sendIndeterminate(req, res, error, startTime);
+        return;
+      }
+
       logger.error(`Verification error (${processingTime} seconds):`, error);
-      // On error, return non-eligible response as per Galxe requirements
-      res.status(500).json({ result: 0, error: error.message });
+      // On error, return a non-eligible response in the platform's format
+      this.recordOutcome(req, "error", startTime);
+      sendVerificationError(req, res, 500, error.message);
     }
   };
 
@@ -96,46 +147,55 @@ export class VerificationController {
    * @returns Promise<void>
    */
   verifyInteractionInTimeRange = async (
-    req: Request,
+    req: Request<{ address: string }>,
     res: Response
   ): Promise<void> => {
     const startTime = performance.now();
     try {
-      const { address } = req.params;
-      const { startDate, endDate, contract, campaign } = req.query;
+      const { address: addressOrName } = req.params;
+      const { startDate, endDate, timezone, contract, campaign, window } =
+        req.query;
+      const trace = this.createTrace(req);
+      const compositeId = this.getCompositeId(contract, campaign);
+
+      if (!this.validateFormat(req, res)) {
+        return;
+      }
 
       // Validate required parameters
-      if (!address) {
-        res.status(400).json({
-          error: "Address is required",
-          result: 0,
-        });
+      if (!addressOrName) {
+        sendVerificationError(req, res, 400, "Address is required");
         return;
       }
 
-      if (!contract) {
-        res.status(400).json({
-          error:
-            "Contract ID is required. Please specify the 'contract' query parameter.",
-          result: 0,
-        });
+      if (!contract && !compositeId) {
+        sendVerificationError(
+          req,
+          res,
+          400,
+          "Contract ID is required. Please specify the 'contract' query parameter."
+        );
         return;
       }
 
       const contractId = String(contract);
       const campaignId = campaign ? String(campaign) : undefined;
 
-      if (!this.isValidAddress(address)) {
-        logger.warn(`Invalid address format: ${address}`);
-        res.status(400).json({
-          error: "Invalid Ethereum address format",
-          result: 0,
-        });
+      const address = await this.resolveAddress(req, res, addressOrName, trace);
+      if (!address) {
+        return;
+      }
+
+      if (compositeId) {
+        await this.verifyComposite(req, res, address, compositeId, trace);
         return;
       }
 
       // If a campaign is specified, use its date range instead of the query parameters
       if (campaignId) {
+        // Only configuration errors are answered with 400; verification
+        // failures are handled below like those of explicit date ranges
+        let campaignWindow: ICampaignWindow | null;
         try {
           const campaignConfig = configLoader.getCampaignConfig(
             contractId,
@@ -143,98 +203,138 @@ export class VerificationController {
           );
 
           if (!campaignConfig) {
-            res.status(400).json({
-              error: `Campaign not found: ${campaignId}`,
-              result: 0,
-            });
+            sendVerificationError(
+              req,
+              res,
+              400,
+              `Campaign not found: ${campaignId}`
+            );
             return;
           }
 
-          logger.info(
-            `Using campaign dates for ${campaignId}: ${campaignConfig.startDate} to ${campaignConfig.endDate}`
+          const windowIndex = parseWindowIndex(window);
+          campaignWindow =
+            windowIndex === null
+              ? null
+              : configLoader.getCampaignWindow(
+                  contractId,
+                  campaignId,
+                  windowIndex
+                );
+        } catch (error: any) {
+          logger.error(`Invalid campaign configuration: ${error.message}`);
+          this.recordOutcome(req, "error", startTime);
+          sendVerificationError(
+            req,
+            res,
+            400,
+            `Invalid campaign configuration: ${error.message}`
           );
+          return;
+        }
 
-          const campaignStartDate = new Date(campaignConfig.startDate);
-          const campaignEndDate = new Date(campaignConfig.endDate);
-
-          const hasInteracted =
-            await this.blockchainService.hasInteractedInTimeRange(
-              address.toLowerCase(),
-              campaignStartDate,
-              campaignEndDate,
-              contractId
-            );
+        if (!campaignWindow) {
+          sendVerificationError(
+            req,
+            res,
+            400,
+            `Invalid campaign window: ${window}`
+          );
+          return;
+        }
 
-          const endTime = performance.now();
-          const processingTime = ((endTime - startTime) / 1000).toFixed(2);
+        logger.info(
+          `Using window ${
+            campaignWindow.index
+          } of campaign ${campaignId}: ${campaignWindow.startDate.toISOString()} to ${campaignWindow.endDate.toISOString()}`
+        );
+        trace?.step("campaign-window", true, {
+          detail: `Window ${
+            campaignWindow.index
+          }: ${campaignWindow.startDate.toISOString()} to ${campaignWindow.endDate.toISOString()}`,
+        });
 
-          logger.info(
-            `Campaign verification result for ${address} on ${contractId}, campaign: ${campaignId}: ${
-              hasInteracted ? 1 : 0
-            }. Processing time: ${processingTime} seconds`
+        const hasInteracted =
+          await this.blockchainService.hasInteractedInTimeRange(
+            address.toLowerCase(),
+            campaignWindow.startDate,
+            campaignWindow.endDate,
+            contractId,
+            campaignId,
+            trace
           );
 
-          // Return exactly what Galxe expects (without processing time in response)
-          res.json({ result: hasInteracted ? 1 : 0 });
-          return;
-        } catch (error: any) {
-          const endTime = performance.now();
-          const processingTime = ((endTime - startTime) / 1000).toFixed(2);
+        const endTime = performance.now();
+        const processingTime = ((endTime - startTime) / 1000).toFixed(2);
 
-          logger.error(
-            `Campaign verification error (${processingTime} seconds):`,
-            error
-          );
-          res.status(400).json({
-            error: `Invalid campaign configuration: ${error.message}`,
-            result: 0,
-          });
-          return;
-        }
+        logger.info(
+          `Campaign verification result for ${address} on ${contractId}, campaign: ${campaignId}: ${
+            hasInteracted ? 1 : 0
+          }. Processing time: ${processingTime} seconds`
+        );
+
+        this.recordOutcome(
+          req,
+          hasInteracted ? "eligible" : "not_eligible",
+          startTime
+        );
+        sendVerdict(
+          req,
+          res,
+          hasInteracted,
+          this.explainFields(trace, hasInteracted)
+        );
+        return;
       }
 
       // If no campaign specified, use the date range from the query parameters
       if (!startDate || !endDate) {
         logger.warn("Missing date parameters for time-range verification");
-        res.status(400).json({
-          error:
-            "Both startDate and endDate query parameters are required when no campaign is specified",
-          result: 0,
-        });
+        sendVerificationError(
+          req,
+          res,
+          400,
+          "Both startDate and endDate query parameters are required when no campaign is specified"
+        );
         return;
       }
 
-      // Parse dates from string parameters
-      const startDateTime = new Date(startDate as string);
-      const endDateTime = new Date(endDate as string);
+      const zone = timezone ? String(timezone) : "UTC";
+      if (!isValidTimezone(zone)) {
+        sendVerificationError(req, res, 400, `Invalid timezone: ${zone}`);
+        return;
+      }
+
+      // Parse dates from string parameters; a date-only end date covers the
+      // whole day in the requested timezone
+      const startDateTime = parseScheduleDate(String(startDate), zone);
+      const endDateTime = parseScheduleDate(String(endDate), zone, "end");
 
       // Validate date formats
       if (isNaN(startDateTime.getTime()) || isNaN(endDateTime.getTime())) {
         logger.warn(
           `Invalid date format: startDate=${startDate}, endDate=${endDate}`
         );
-        res.status(400).json({
-          error:
-            "Invalid date format. Use ISO format (YYYY-MM-DD or YYYY-MM-DDTHH:MM:SSZ)",
-          result: 0,
-        });
+        sendVerificationError(
+          req,
+          res,
+          400,
+          "Invalid date format. Use ISO format (YYYY-MM-DD or YYYY-MM-DDTHH:MM:SSZ)"
+        );
         return;
       }
 
-      // For end date, if no time is specified, set it to the end of the day
-      if (endDate && typeof endDate === "string" && endDate.length <= 10) {
-        endDateTime.setHours(23, 59, 59, 999);
-      }
-
       // Check if start date is before end date
       if (startDateTime > endDateTime) {
         logger.warn(
           `Start date is after end date: ${startDateTime.toISOString()} > ${endDateTime.toISOString()}`
         );
-        res.status(400).json({
-          error: "startDate must be before endDate",
-          result: 0,
-        });
+        sendVerificationError(
+          req,
+          res,
+          400,
+          "startDate must be before endDate"
+        );
         return;
       }
 
@@ -247,7 +347,9 @@ export class VerificationController {
           address.toLowerCase(),
           startDateTime,
           endDateTime,
-          contractId
+          contractId,
+          undefined,
+          trace
         );
 
       const endTime = performance.now();
@@ -259,33 +361,271 @@ export class VerificationController {
         }. Processing time: ${processingTime} seconds`
       );
 
-      // Return exactly what Galxe expects (without processing time in response)
-      res.json({ result: hasInteracted ? 1 : 0 });
+      // Return exactly what the platform expects (without processing time in response)
+      this.recordOutcome(
+        req,
+        hasInteracted ? "eligible" : "not_eligible",
+        startTime
+      );
+      sendVerdict(
+        req,
+        res,
+        hasInteracted,
+        this.explainFields(trace, hasInteracted)
+      );
     } catch (error: any) {
       const endTime = performance.now();
       const processingTime = ((endTime - startTime) / 1000).toFixed(2);
 
+      if (error instanceof IndeterminateResultError) {
+        this.sendIndeterminate(req, res, error, startTime);
+        return;
+      }
+
       logger.error(
         `Time-range verification error (${processingTime} seconds):`,
         error
       );
-      // On error, return non-eligible response as per Galxe requirements
-      res.status(500).json({ result: 0, error: error.message });
+      // On error, return a non-eligible response in the platform's format
+      this.recordOutcome(req, "error", startTime);
+      sendVerificationError(req, res, 500, error.message);
     }
   };
 
   /**
-   * List available contracts and campaigns
+   * Verify many addresses at once against a contract (all-time, campaign
+   * or explicit date range), sharing block range and log lookups
+   *
+   * @param req Express request
+   * @param res Express response
+   * @returns Promise<void>
+   */
+  verifyBatch = async (req: Request, res: Response): Promise<void> => {
+    const startTime = performance.now();
+    try {
+      const {
+        addresses,
+        contract,
+        campaign,
+        window,
+        startDate,
+        endDate,
+        timezone,
+      } = req.body || {};
+      const { maxBatchSize } = configLoader.getEnvConfig();
+
+      if (!Array.isArray(addresses) || addresses.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: "addresses must be a non-empty array",
+        });
+        return;
+      }
+
+      if (addresses.length > maxBatchSize) {
+        res.status(400).json({
+          success: false,
+          error: `Too many addresses: ${addresses.length} (max ${maxBatchSize})`,
+        });
+        return;
+      }
+
+      if (!contract) {
+        res.status(400).json({
+          success: false,
+          error:
+            "Contract ID is required. Please specify 'contract' in the body.",
+        });
+        return;
+      }
+
+      const contractId = String(contract);
+      const campaignId = campaign ? String(campaign) : undefined;
+      let startDateTime: Date | undefined;
+      let endDateTime: Date | undefined;
+
+      const windowIndex = parseWindowIndex(window);
+
+      if (campaignId) {
+        if (!configLoader.getCampaignConfig(contractId, campaignId)) {
+          res.status(400).json({
+            success: false,
+            error: `Campaign not found: ${campaignId}`,
+          });
+          return;
+        }
+        if (
+          windowIndex === null ||
+          !configLoader.getCampaignWindow(contractId, campaignId, windowIndex)
+        ) {
+          res.status(400).json({
+            success: false,
+            error: `Invalid campaign window: ${window}`,
+          });
+          return;
+        }
+      } else if (startDate || endDate) {
+        const zone = timezone ? String(timezone) : "UTC";
+        if (!isValidTimezone(zone)) {
+          res.status(400).json({
+            success: false,
+            error: `Invalid timezone: ${zone}`,
+          });
+          return;
+        }
+
+        // A date-only end date covers the whole day in the timezone
+        startDateTime = parseScheduleDate(String(startDate), zone);
+        endDateTime = parseScheduleDate(String(endDate), zone, "end");
+
+        if (isNaN(startDateTime.getTime()) || isNaN(endDateTime.getTime())) {
+          res.status(400).json({
+            success: false,
+            error:
+              "Invalid date format. Use ISO format (YYYY-MM-DD or YYYY-MM-DDTHH:MM:SSZ)",
+          });
+          return;
+        }
+
+        if (startDateTime > endDateTime) {
+          res.status(400).json({
+            success: false,
+            error: "startDate must be before endDate",
+          });
+          return;
+        }
+      }
+
+      // Names are resolved first; invalid addresses and names that do not
+      // resolve get a per-address error instead of failing the batch
+      const inputs: string[] = addresses.map((a: unknown) => String(a));
+      const resolutions = await nameResolver.resolveMany(
+        inputs.filter((a) => !this.isValidAddress(a) && nameResolver.isName(a))
+      );
+      const resolve = (input: string): string | null => {
+        if (this.isValidAddress(input)) {
+          return input.toLowerCase();
+        }
+        const resolution = resolutions.get(input);
+        return resolution && !(resolution instanceof Error)
+          ? resolution.address
+          : null;
+      };
+      const validAddresses = inputs
+        .map(resolve)
+        .filter((a): a is string => a !== null);
+
+      logger.info(
+        `Verifying batch of ${
+          addresses.length
+        } addresses on contract: ${contractId}, campaign: ${
+          campaignId || "none"
+        }`
+      );
+
+      const verdicts = await this.blockchainService.hasInteractedBatch(
+        validAddresses,
+        contractId,
+        {
+          campaignId,
+          window: windowIndex ?? undefined,
+          startDate: startDateTime,
+          endDate: endDateTime,
+        }
+      );
+
+      const results = inputs.map((address) => {
+        const resolved = resolve(address);
+        if (!resolved) {
+          const resolution = resolutions.get(address);
+          return {
+            address,
+            result: 0,
+            error: !resolution
+              ? "Invalid Ethereum address format"
+              : resolution instanceof Error
+              ? resolution.message
+              : `Name does not resolve to an address: ${address}`,
+          };
+        }
+        return {
+          address,
+          // Names report the address they were verified as
+          ...(resolutions.has(address) ? { resolvedAddress: resolved } : {}),
+          result: verdicts.get(resolved) ? 1 : 0,
+        };
+      });
+
+      const endTime = performance.now();
+      const processingTime = ((endTime - startTime) / 1000).toFixed(2);
+      logger.info(
+        `Batch verification on ${contractId} done: ${
+          results.filter((r) => r.result === 1).length
+        }/${
+          results.length
+        } eligible. Processing time: ${processingTime} seconds`
+      );
+
+      res.json({
+        success: true,
+        contract: contractId,
+        campaign: campaignId || null,
+        results,
+      });
+    } catch (error: any) {
+      const endTime = performance.now();
+      const processingTime = ((endTime - startTime) / 1000).toFixed(2);
+
+      if (error instanceof IndeterminateResultError) {
+        logger.warn(
+          `Batch verification indeterminate (${processingTime} seconds): ${error.message}`
+        );
+        res.setHeader("Retry-After", String(error.retryAfter));
+        res.status(503).json({
+          success: false,
+          error: error.message,
+          retryAfter: error.retryAfter,
+        });
+        return;
+      }
+
+      logger.error(
+        `Batch verification error (${processingTime} seconds):`,
+        error
+      );
+      res.status(500).json({ success: false, error: error.message });
+    }
+  };
+
+  /**
+   * List available contracts and campaigns with their status
+   * `?status=` (comma separated) only lists campaigns in one of the statuses
    *
    * @param req Express request
    * @param res Express response
    * @returns Promise<void>
    */
   listContractsAndCampaigns = async (
-    _req: Request,
+    req: Request,
     res: Response
   ): Promise<void> => {
     try {
+      const statuses = req.query.status
+        ? String(req.query.status).split(",")
+        : CAMPAIGN_STATUSES;
+      const invalid = statuses.find(
+        (status) => !CAMPAIGN_STATUSES.includes(status as CampaignStatus)
+      );
+      if (invalid !== undefined) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid status: ${invalid}. Use ${CAMPAIGN_STATUSES.join(
+            ", "
+          )}`,
+        });
+        return;
+      }
+
       const contracts = this.blockchainService.getAvailableContracts();
 
       // Build response with contract and campaign details
@@ -296,11 +636,24 @@ export class VerificationController {
           const contractConfig = configLoader.getContractConfig(contractId);
           const campaignsConfig = configLoader.getContractCampaigns(contractId);
 
+          const campaigns: Record<string, any> = {};
+          for (const [campaignId, campaign] of Object.entries(
+            campaignsConfig
+          )) {
+            const status = this.blockchainService.getCampaignStatus(
+              contractId,
+              campaignId
+            );
+            if (statuses.includes(status)) {
+              campaigns[campaignId] = { ...campaign, status };
+            }
+          }
+
           response[contractId] = {
             name: contractConfig.name,
             address: contractConfig.address,
             chainId: contractConfig.chainId,
-            campaigns: campaignsConfig,
+            campaigns,
           };
         } catch (error) {
           logger.error(
@@ -311,9 +664,21 @@ export class VerificationController {
         }
       }
 
+      // Composite campaigns cannot be finalized
+      const compositeCampaigns: Record<string, any> = {};
+      for (const [campaignId, campaign] of Object.entries(
+        configLoader.getCompositeCampaigns()
+      )) {
+        const status = getScheduleStatus(campaign);
+        if (statuses.includes(status)) {
+          compositeCampaigns[campaignId] = { ...campaign, status };
+        }
+      }
+
       res.json({
         success: true,
         contracts: response,
+        compositeCampaigns,
       });
     } catch (error: any) {
       logger.error("Error listing contracts and campaigns:", error);
@@ -322,35 +687,17 @@ export class VerificationController {
   };
 
   /**
-   * Reload configuration from file
+   * Get campaign details with its status, the number of windows and the
+   * current window
    *
    * @param req Express request
    * @param res Express response
    * @returns Promise<void>
    */
-  reloadConfig = async (_req: Request, res: Response): Promise<void> => {
-    try {
-      configLoader.reloadConfig();
-      this.blockchainService.reloadContractConfigurations();
-
-      res.json({
-        success: true,
-        message: "Configuration reloaded successfully",
-      });
-    } catch (error: any) {
-      logger.error("Error reloading configuration:", error);
-      res.status(500).json({ success: false, error: error.message });
-    }
-  };
-
-  /**
-   * Get campaign details
-   *
-   * @param req Express request
-   * @param res Express response
-   * @returns Promise<void>
-   */
-  getCampaignDetails = async (req: Request, res: Response): Promise<void> => {
+  getCampaignDetails = async (
+    req: Request<{ contractId: string; campaignId: string }>,
+    res: Response
+  ): Promise<void> => {
     try {
       const { contractId, campaignId } = req.params;
 
@@ -375,9 +722,27 @@ export class VerificationController {
           return;
         }
 
+        const current = findCampaignWindow(campaignConfig);
+        const status = this.blockchainService.getCampaignStatus(
+          contractId,
+          campaignId
+        );
         res.json({
           success: true,
           campaign: campaignConfig,
+          status,
+          finalizedAt:
+            status === "finalized"
+              ? campaignSnapshotStore.get(contractId, campaignId)?.finalizedAt
+              : null,
+          windows: {
+            count: countCampaignWindows(campaignConfig),
+            current: {
+              index: current.index,
+              startDate: current.startDate.toISOString(),
+              endDate: current.endDate.toISOString(),
+            },
+          },
         });
       } catch (error: any) {
         res.status(404).json({
@@ -392,22 +757,308 @@ export class VerificationController {
   };
 
   /**
-   * Clear the cache
+   * Get the Merkle proof of an address for a campaign distribution
    *
    * @param req Express request
    * @param res Express response
    * @returns Promise<void>
    */
-  clearCache = async (_req: Request, res: Response): Promise<void> => {
+  getMerkleProof = async (
+    req: Request<{ contractId: string; campaignId: string; address: string }>,
+    res: Response
+  ): Promise<void> => {
     try {
-      this.blockchainService.clearCache();
-      res.json({ success: true, message: "Cache cleared successfully" });
+      const { contractId, campaignId, address } = req.params;
+
+      if (!this.isValidAddress(address)) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid Ethereum address format",
+        });
+        return;
+      }
+
+      if (
+        !configLoader.getAvailableContracts().includes(contractId) ||
+        !configLoader.getCampaignConfig(contractId, campaignId)
+      ) {
+        res.status(404).json({
+          success: false,
+          error: `Campaign not found: ${contractId}/${campaignId}`,
+        });
+        return;
+      }
+
+      if (!merkleTreeStore.getDistribution(contractId, campaignId)) {
+        res.status(404).json({
+          success: false,
+          error: `No Merkle tree built for ${contractId}/${campaignId}`,
+        });
+        return;
+      }
+
+      const proof = merkleTreeStore.getProof(contractId, campaignId, address);
+      if (!proof) {
+        res.status(404).json({
+          success: false,
+          error: `Address ${address} is not in the distribution`,
+        });
+        return;
+      }
+
+      res.json({ success: true, ...proof });
     } catch (error: any) {
-      logger.error("Error clearing cache:", error);
-      res.status(500).json({ success: false, message: error.message });
+      logger.error("Error getting Merkle proof:", error);
+      res.status(500).json({ success: false, error: error.message });
     }
   };
 
+  /**
+   * Helper method to detect a composite campaign request: a campaign that is
+   * a top-level composite campaign, without a contract
+   *
+   * @param contract Contract query parameter
+   * @param campaign Campaign query parameter
+   * @returns Composite campaign ID, or undefined
+   */
+  private getCompositeId(
+    contract: unknown,
+    campaign: unknown
+  ): string | undefined {
+    if (contract || !campaign) {
+      return undefined;
+    }
+
+    const campaignId = String(campaign);
+    return configLoader.getCompositeCampaign(campaignId)
+      ? campaignId
+      : undefined;
+  }
+
+  /**
+   * Helper method to verify an address against a composite campaign and
+   * send the verdict
+   *
+   * @param req Express request
+   * @param res Express response
+   * @param address Address to verify
+   * @param compositeId Composite campaign identifier
+   * @param trace Decision trace, if explain mode is on
+   * @returns Promise<void>
+   */
+  private async verifyComposite(
+    req: Request<any>,
+    res: Response,
+    address: string,
+    compositeId: string,
+    trace: VerificationTrace | undefined
+  ): Promise<void> {
+    const startTime = performance.now();
+
+    logger.info(
+      `Verifying composite campaign ${compositeId} for address: ${address}`
+    );
+
+    const result = await this.blockchainService.hasInteractedComposite(
+      address.toLowerCase(),
+      compositeId,
+      trace
+    );
+
+    const processingTime = ((performance.now() - startTime) / 1000).toFixed(2);
+    logger.info(
+      `Composite campaign ${compositeId} result for ${address}: ${
+        result ? 1 : 0
+      }. Processing time: ${processingTime} seconds`
+    );
+
+    this.recordOutcome(req, result ? "eligible" : "not_eligible", startTime);
+    sendVerdict(req, res, result, this.explainFields(trace, result));
+  }
+
+  /**
+   * Helper method to answer a verification that could not be decided (RPC
+   * failures or time limit reached). The result is never reported as "not
+   * eligible": the client gets a 503 and a Retry-After header
+   *
+   * @param req Express request
+   * @param res Express response
+   * @param error Indeterminate result error
+   * @param startTime Request start time (performance.now())
+   */
+  private sendIndeterminate(
+    req: Request<any>,
+    res: Response,
+    error: IndeterminateResultError,
+    startTime: number
+  ): void {
+    const processingTime = ((performance.now() - startTime) / 1000).toFixed(2);
+    this.recordOutcome(req, "indeterminate", startTime);
+    logger.warn(
+      `Verification indeterminate (${processingTime} seconds): ${error.message}`
+    );
+    res.setHeader("Retry-After", String(error.retryAfter));
+    sendVerificationError(req, res, 503, error.message);
+  }
+
+  /**
+   * Helper method to record the outcome of a verification request in the
+   * metrics. Contract and campaign labels are only taken from the
+   * configuration so unknown values cannot grow the label set
+   *
+   * @param req Express request
+   * @param result Outcome of the verification
+   * @param startTime Request start time (performance.now())
+   */
+  private recordOutcome(
+    req: Request<any>,
+    result: VerificationOutcome,
+    startTime: number
+  ): void {
+    const contract = req.query.contract ? String(req.query.contract) : "";
+    const campaign = req.query.campaign ? String(req.query.campaign) : "";
+    let contractLabel = "unknown";
+    let campaignLabel = campaign ? "unknown" : undefined;
+
+    if (!contract && configLoader.getCompositeCampaign(campaign)) {
+      contractLabel = "composite";
+      campaignLabel = campaign;
+    } else if (configLoader.getAvailableContracts().includes(contract)) {
+      contractLabel = contract;
+      if (campaign && configLoader.getCampaignConfig(contract, campaign)) {
+        campaignLabel = campaign;
+      }
+    }
+
+    observeVerification(
+      contractLabel,
+      campaignLabel,
+      result,
+      (performance.now() - startTime) / 1000
+    );
+  }
+
+  /**
+   * Helper method to start a decision trace when explain mode is requested
+   * (`explain=1` or `explain=true`)
+   *
+   * @param req Express request
+   * @returns Trace, or undefined when explain mode is off
+   */
+  private createTrace(req: Request<any>): VerificationTrace | undefined {
+    const { explain } = req.query;
+    return explain === "1" || explain === "true"
+      ? new VerificationTrace()
+      : undefined;
+  }
+
+  /**
+   * Helper method to build the explain payload added to a verdict
+   *
+   * @param trace Decision trace, if explain mode is on
+   * @param eligible Verification result
+   * @returns Extra response fields (empty when explain mode is off)
+   */
+  private explainFields(
+    trace: VerificationTrace | undefined,
+    eligible: boolean
+  ): Record<string, any> {
+    if (!trace) {
+      return {};
+    }
+
+    return {
+      explain: {
+        eligible,
+        blockRange: trace.blockRange,
+        heuristic: trace.heuristic,
+        resolution: trace.resolution,
+        steps: trace.steps,
+        evidence: trace.evidence,
+      },
+    };
+  }
+
+  /**
+   * Helper method to reject unsupported response formats
+   * The error is sent in the default format
+   *
+   * @param req Express request
+   * @param res Express response
+   * @returns True if the requested format is supported
+   */
+  private validateFormat(req: Request<any>, res: Response): boolean {
+    const format = getRequestedFormat(req, res);
+    if (isSupportedFormat(format)) {
+      return true;
+    }
+
+    sendVerificationError(
+      req,
+      res,
+      400,
+      `Unsupported format: ${format}. Supported formats: ${RESPONSE_FORMATS.join(
+        ", "
+      )}`
+    );
+    return false;
+  }
+
+  /**
+   * Helper method to turn the address parameter into an address, resolving
+   * ENS names and Basenames. Sends the error response when it cannot
+   *
+   * @param req Express request
+   * @param res Express response
+   * @param addressOrName Address or name from the request
+   * @param trace Decision trace, records the resolution in explain mode
+   * @returns Lowercased address, or null if an error response was sent
+   * @throws IndeterminateResultError if the name lookup fails
+   */
+  private async resolveAddress(
+    req: Request<any>,
+    res: Response,
+    addressOrName: string,
+    trace: VerificationTrace | undefined
+  ): Promise<string | null> {
+    if (this.isValidAddress(addressOrName)) {
+      return addressOrName.toLowerCase();
+    }
+
+    if (!nameResolver.isName(addressOrName)) {
+      logger.warn(`Invalid address format: ${addressOrName}`);
+      sendVerificationError(req, res, 400, "Invalid Ethereum address format");
+      return null;
+    }
+
+    try {
+      const resolution = await nameResolver.resolve(addressOrName);
+      if (!resolution.address) {
+        sendVerificationError(
+          req,
+          res,
+          400,
+          `Name does not resolve to an address: ${addressOrName}`
+        );
+        return null;
+      }
+
+      logger.info(
+        `Verifying ${resolution.name} as ${resolution.address} (${resolution.service})`
+      );
+      if (trace) {
+        trace.resolution = resolution;
+      }
+      return resolution.address;
+    } catch (error: any) {
+      if (error instanceof NameResolutionError) {
+        sendVerificationError(req, res, 400, error.message);
+        return null;
+      }
+      throw error;
+    }
+  }
+
   /**
    * Helper method to validate Ethereum address format
    *
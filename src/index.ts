@@ -1,16 +1,59 @@
 import express from "express";
 import cors from "cors";
+import helmet from "helmet";
 import verificationRoutes from "./routes/verification";
+import adminRoutes from "./routes/admin";
+import attestationRoutes from "./routes/attestation";
+import jobRoutes from "./routes/jobs";
+import metricsRoutes from "./routes/metrics";
+import healthRoutes from "./routes/health";
 import configLoader from "./config/config-loader";
+import partnerRegistry from "./config/partner-loader";
 import logger from "./utils/logger";
+import { sendVerificationError } from "./adapters/response-adapters";
 
 const app = express();
 
+const { port, allowAnonymous, trustProxy, configWatch } =
+  configLoader.getEnvConfig();
+
+// Needed for correct client IPs (rate limiting, audit logs) behind proxies
+if (trustProxy > 0) {
+  app.set("trust proxy", trustProxy);
+}
+
 // Basic middleware
-app.use(cors());
-app.use(express.json());
+app.use(
+  helmet({
+    // Partners call the API from their own sites
+    crossOriginResourcePolicy: { policy: "cross-origin" },
+  })
+);
+app.use(
+  cors({
+    // Any origin while anonymous access is open, otherwise partner origins only
+    origin: (origin, callback) =>
+      callback(
+        null,
+        !origin || allowAnonymous || partnerRegistry.isOriginAllowed(origin)
+      ),
+  })
+);
+app.use(
+  express.json({
+    // Keep the raw body for HMAC-signed admin requests
+    verify: (req: express.Request, _res, buf) => {
+      req.rawBody = buf.toString("utf8");
+    },
+  })
+);
 
 // Routes
+app.use("/", healthRoutes);
+app.use("/api/admin", adminRoutes);
+app.use("/api/attestations", attestationRoutes);
+app.use("/api/jobs", jobRoutes);
+app.use("/metrics", metricsRoutes);
 app.use("/api", verificationRoutes);
 
 // Error handling
@@ -22,17 +65,19 @@ app.use(
     next: express.NextFunction
   ) => {
     logger.error("Unhandled error:", err);
-    res.json({ result: 0 }); // Always return valid Galxe response format
+    // Always return a valid response in the platform's format
+    sendVerificationError(req, res, 500, "Internal server error");
   }
 );
 
-// Get environment configuration
-const { port } = configLoader.getEnvConfig();
-
 // Start the server
 app.listen(port, () => {
   logger.info(`Server running on port ${port}`);
   logger.info(
     `Available contracts: ${configLoader.getAvailableContracts().join(", ")}`
   );
+
+  if (configWatch) {
+    configLoader.watch();
+  }
 });
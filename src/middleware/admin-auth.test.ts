@@ -0,0 +1,124 @@
+import crypto from "crypto";
+import { Request, Response } from "express";
+import { adminAuth } from "./admin-auth";
+
+const HMAC_SECRET = "hmac-secret";
+const BODY = '{"contractId":"doge_base_aerodome"}';
+
+/**
+ * Build an admin request with lower-cased headers
+ */
+function mockRequest(headers: Record<string, string>, rawBody = BODY) {
+  return {
+    method: "POST",
+    originalUrl: "/api/admin/cache/clear",
+    ip: "127.0.0.1",
+    rawBody,
+    header: (name: string) => headers[name.toLowerCase()],
+  } as unknown as Request;
+}
+
+/**
+ * Run the middleware
+ * @returns Response status (200 when the request was passed on) and admin
+ */
+function authenticate(req: Request) {
+  const res = {
+    statusCode: 200,
+    locals: {} as Record<string, unknown>,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json: () => res,
+  };
+  const next = jest.fn();
+
+  adminAuth(req, res as unknown as Response, next);
+
+  expect(next).toHaveBeenCalledTimes(res.statusCode === 200 ? 1 : 0);
+  return { status: res.statusCode, admin: res.locals.admin };
+}
+
+/**
+ * Sign a request body the way admin clients do
+ */
+function signedHeaders(
+  body: string,
+  timestamp = Math.floor(Date.now() / 1000),
+  secret = HMAC_SECRET
+) {
+  const signature = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.POST./api/admin/cache/clear.${body}`)
+    .digest("hex");
+  return {
+    "x-admin-key-id": "deploy-bot",
+    "x-admin-timestamp": String(timestamp),
+    "x-admin-signature": signature,
+  };
+}
+
+describe("adminAuth", () => {
+  beforeEach(() => {
+    process.env.ADMIN_API_KEYS = "ops:ops-key, audit:audit-key";
+    process.env.ADMIN_HMAC_SECRETS = `deploy-bot:${HMAC_SECRET}`;
+  });
+
+  afterAll(() => {
+    delete process.env.ADMIN_API_KEYS;
+    delete process.env.ADMIN_HMAC_SECRETS;
+  });
+
+  it("is disabled when no credentials are configured", () => {
+    delete process.env.ADMIN_API_KEYS;
+    delete process.env.ADMIN_HMAC_SECRETS;
+
+    expect(authenticate(mockRequest({ "x-admin-key": "ops-key" }))).toEqual({
+      status: 503,
+      admin: undefined,
+    });
+  });
+
+  it("accepts API keys in either header", () => {
+    expect(authenticate(mockRequest({ "x-admin-key": "audit-key" }))).toEqual({
+      status: 200,
+      admin: "audit",
+    });
+    expect(
+      authenticate(mockRequest({ authorization: "Bearer ops-key" }))
+    ).toEqual({ status: 200, admin: "ops" });
+    expect(authenticate(mockRequest({ "x-admin-key": "ops-ke" })).status).toBe(
+      401
+    );
+  });
+
+  it("accepts a valid HMAC signature once", () => {
+    const headers = signedHeaders(BODY);
+
+    expect(authenticate(mockRequest(headers))).toEqual({
+      status: 200,
+      admin: "deploy-bot",
+    });
+    expect(authenticate(mockRequest(headers)).status).toBe(401);
+  });
+
+  it("rejects signatures over another body or with another secret", () => {
+    expect(
+      authenticate(mockRequest(signedHeaders(BODY), '{"contractId":"x"}'))
+        .status
+    ).toBe(401);
+    expect(
+      authenticate(mockRequest(signedHeaders(BODY, undefined, "other-secret")))
+        .status
+    ).toBe(401);
+  });
+
+  it("rejects stale timestamps", () => {
+    const stale = Math.floor(Date.now() / 1000) - 301;
+
+    expect(authenticate(mockRequest(signedHeaders(BODY, stale))).status).toBe(
+      401
+    );
+  });
+});
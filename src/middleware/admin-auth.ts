@@ -0,0 +1,198 @@
+import crypto from "crypto";
+import { NextFunction, Request, Response } from "express";
+import NodeCache from "node-cache";
+import logger from "../utils/logger";
+
+// HMAC signature constants
+const MAX_SIGNATURE_AGE = 300; // Signed requests are valid for 5 minutes
+
+// Signatures already used, kept until their timestamp expires so a captured
+// request cannot be replayed
+const usedSignatures = new NodeCache({ checkperiod: 60 });
+
+/**
+ * Parse a comma-separated list of `name:secret` pairs from the environment
+ * @param value Environment variable value
+ * @returns Map of secret owner name to secret
+ */
+function parseCredentials(value: string | undefined): Map<string, string> {
+  const credentials = new Map<string, string>();
+
+  for (const entry of (value || "").split(",")) {
+    const separator = entry.indexOf(":");
+    if (separator <= 0) {
+      continue;
+    }
+
+    const name = entry.slice(0, separator).trim();
+    const secret = entry.slice(separator + 1).trim();
+    if (name && secret) {
+      credentials.set(name, secret);
+    }
+  }
+
+  return credentials;
+}
+
+/**
+ * Constant-time string comparison
+ */
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return (
+    bufferA.length === bufferB.length &&
+    crypto.timingSafeEqual(bufferA, bufferB)
+  );
+}
+
+/**
+ * Find the admin owning an API key
+ * Accepts `X-Admin-Key: <key>` or `Authorization: Bearer <key>`
+ * @returns Admin name or null
+ */
+function authenticateApiKey(
+  req: Request,
+  apiKeys: Map<string, string>
+): string | null {
+  const header = req.header("authorization");
+  const key =
+    req.header("x-admin-key") ||
+    (header && header.startsWith("Bearer ") ? header.slice(7) : undefined);
+
+  if (!key) {
+    return null;
+  }
+
+  for (const [name, secret] of apiKeys) {
+    if (safeEqual(key, secret)) {
+      return name;
+    }
+  }
+  return null;
+}
+
+/**
+ * Verify an HMAC-signed request
+ * Headers: X-Admin-Key-Id, X-Admin-Timestamp (unix seconds) and
+ * X-Admin-Signature = hex HMAC-SHA256 of `${timestamp}.${METHOD}.${path}.${body}`
+ * Each signature is accepted once
+ * @returns Admin name or null
+ */
+function authenticateHmac(
+  req: Request,
+  hmacSecrets: Map<string, string>
+): string | null {
+  const keyId = req.header("x-admin-key-id");
+  const timestamp = req.header("x-admin-timestamp");
+  const signature = req.header("x-admin-signature");
+
+  if (!keyId || !timestamp || !signature) {
+    return null;
+  }
+
+  const secret = hmacSecrets.get(keyId);
+  if (!secret) {
+    return null;
+  }
+
+  const age = Math.abs(Math.floor(Date.now() / 1000) - Number(timestamp));
+  if (!Number.isFinite(age) || age > MAX_SIGNATURE_AGE) {
+    logger.warn(`Rejected admin signature from ${keyId}: stale timestamp`);
+    return null;
+  }
+
+  const payload = `${timestamp}.${req.method}.${req.originalUrl}.${
+    req.rawBody || ""
+  }`;
+  const expected = crypto
+    .createHmac("sha256", secret)
+    .update(payload)
+    .digest("hex");
+
+  if (!safeEqual(signature.toLowerCase(), expected)) {
+    return null;
+  }
+
+  const usedKey = `${keyId}:${expected}`;
+  if (usedSignatures.has(usedKey)) {
+    logger.warn(`Rejected admin signature from ${keyId}: replayed request`);
+    return null;
+  }
+  usedSignatures.set(
+    usedKey,
+    true,
+    Math.max(
+      1,
+      Math.ceil(Number(timestamp) + MAX_SIGNATURE_AGE - Date.now() / 1000)
+    )
+  );
+
+  return keyId;
+}
+
+/**
+ * Middleware authenticating admin requests with an API key or HMAC signature
+ * Credentials come from ADMIN_API_KEYS and ADMIN_HMAC_SECRETS (`name:secret`
+ * pairs, comma-separated). The admin API is disabled when neither is set.
+ * The authenticated admin name is stored in res.locals.admin
+ */
+export function adminAuth(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const apiKeys = parseCredentials(process.env.ADMIN_API_KEYS);
+  const hmacSecrets = parseCredentials(process.env.ADMIN_HMAC_SECRETS);
+
+  if (apiKeys.size === 0 && hmacSecrets.size === 0) {
+    logger.warn(
+      `Admin request to ${req.method} ${req.originalUrl} rejected: admin API is not configured`
+    );
+    res
+      .status(503)
+      .json({ success: false, error: "Admin API is not configured" });
+    return;
+  }
+
+  const admin =
+    authenticateApiKey(req, apiKeys) || authenticateHmac(req, hmacSecrets);
+
+  if (!admin) {
+    logger.warn(
+      `Unauthorized admin request to ${req.method} ${req.originalUrl} from ${req.ip}`
+    );
+    res.status(401).json({ success: false, error: "Unauthorized" });
+    return;
+  }
+
+  res.locals.admin = admin;
+  next();
+}
+
+/**
+ * Middleware writing an audit log entry for every admin request once the
+ * response is sent: who invoked which action, from where, and the outcome
+ */
+export function adminAudit(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const startTime = performance.now();
+
+  res.on("finish", () => {
+    logger.info({
+      message: "Admin action",
+      audit: true,
+      admin: res.locals.admin || "anonymous",
+      method: req.method,
+      path: req.originalUrl,
+      ip: req.ip,
+      status: res.statusCode,
+      durationMs: Math.round(performance.now() - startTime),
+    });
+  });
+
+  next();
+}
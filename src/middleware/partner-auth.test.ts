@@ -0,0 +1,63 @@
+import { Request, Response } from "express";
+import partnerRegistry, { IPartner } from "../config/partner-loader";
+import partnerUsage from "../services/partner-usage";
+import { partnerAuth } from "./partner-auth";
+
+const galxe: IPartner = {
+  id: "galxe",
+  name: "Galxe",
+  apiKey: "galxe-key",
+  corsOrigins: [],
+  webhooks: [],
+  quotas: { perMinute: 1000 },
+};
+
+/**
+ * Run the middleware for a request of the partner
+ * @param body Request body
+ * @returns Quota units charged to the partner
+ */
+function chargedUnits(body?: unknown): number {
+  const consume = jest
+    .spyOn(partnerUsage, "consume")
+    .mockReturnValue({ allowed: true });
+  const next = jest.fn();
+
+  partnerAuth(
+    {
+      query: { contract: "doge_base_aerodome" },
+      body,
+      header: (name: string) =>
+        name.toLowerCase() === "x-api-key" ? galxe.apiKey : undefined,
+    } as unknown as Request,
+    { locals: {} } as unknown as Response,
+    next
+  );
+
+  expect(next).toHaveBeenCalled();
+  return consume.mock.lastCall![1]!;
+}
+
+describe("partnerAuth quota units", () => {
+  beforeEach(() => {
+    jest.spyOn(partnerRegistry, "findByApiKey").mockReturnValue(galxe);
+    jest.spyOn(partnerRegistry, "canAccess").mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("charges one unit per request", () => {
+    expect(chargedUnits()).toBe(1);
+  });
+
+  it("charges one unit per address of a batch", () => {
+    expect(chargedUnits({ addresses: ["0x1", "0x2", "0x3"] })).toBe(3);
+    expect(chargedUnits({ addresses: [] })).toBe(1);
+  });
+
+  it("charges oversized batches at most the batch limit", () => {
+    expect(chargedUnits({ addresses: new Array(10000).fill("0x1") })).toBe(500);
+  });
+});
@@ -0,0 +1,121 @@
+import { NextFunction, Request, Response } from "express";
+import rateLimit from "express-rate-limit";
+import configLoader from "../config/config-loader";
+import partnerRegistry from "../config/partner-loader";
+import partnerUsage from "../services/partner-usage";
+import { sendVerificationError } from "../adapters/response-adapters";
+import logger from "../utils/logger";
+
+// Anonymous clients are rate limited per IP
+const anonymousLimiter = rateLimit({
+  windowMs: 60000,
+  limit: configLoader.getEnvConfig().anonRateLimitPerMinute,
+  standardHeaders: "draft-7",
+  legacyHeaders: false,
+  handler: (req, res) =>
+    sendVerificationError(req, res, 429, "Too many requests"),
+});
+
+/**
+ * Middleware identifying the partner behind a verification request and
+ * enforcing its contract/campaign access, CORS origins and quotas
+ * Batch and job requests count one quota unit per address.
+ * The API key is read from the X-API-Key header or the apiKey query parameter.
+ * Requests without a key are rate limited per IP when ALLOW_ANONYMOUS is set,
+ * rejected otherwise. The partner is stored in res.locals.partner and errors
+ * are sent in the requested response format
+ */
+export function partnerAuth(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const apiKey =
+    req.header("x-api-key") ||
+    (typeof req.query.apiKey === "string" ? req.query.apiKey : undefined);
+
+  if (!apiKey) {
+    if (configLoader.getEnvConfig().allowAnonymous) {
+      anonymousLimiter(req, res, next);
+      return;
+    }
+
+    sendVerificationError(req, res, 401, "API key is required");
+    return;
+  }
+
+  const partner = partnerRegistry.findByApiKey(apiKey);
+  if (!partner) {
+    logger.warn(`Invalid API key used from ${req.ip} on ${req.path}`);
+    sendVerificationError(req, res, 401, "Invalid API key");
+    return;
+  }
+
+  // Set early so rejections below use the partner's response format
+  res.locals.partner = partner;
+
+  const origin = req.header("origin");
+  if (
+    origin &&
+    partner.corsOrigins.length > 0 &&
+    !partner.corsOrigins.includes(origin)
+  ) {
+    logger.warn(`Partner ${partner.id} used from disallowed origin ${origin}`);
+    sendVerificationError(req, res, 403, "Origin not allowed");
+    return;
+  }
+
+  // Contract and campaign come from the query string, or the body for batches
+  const contract = req.query.contract ?? req.body?.contract;
+  const campaign = req.query.campaign ?? req.body?.campaign;
+  const composite =
+    !contract && campaign
+      ? configLoader.getCompositeCampaign(String(campaign))
+      : null;
+
+  // Composite campaigns require access to every contract they reference
+  const allowed = composite
+    ? configLoader
+        .getRuleLeaves(composite.rule)
+        .every((leaf) =>
+          partnerRegistry.canAccess(partner, leaf.contract, leaf.campaign)
+        )
+    : !contract ||
+      partnerRegistry.canAccess(
+        partner,
+        String(contract),
+        campaign ? String(campaign) : undefined
+      );
+  if (!allowed) {
+    logger.warn(
+      `Partner ${partner.id} denied access to ${contract}/${campaign || "-"}`
+    );
+    sendVerificationError(
+      req,
+      res,
+      403,
+      "Access to this contract or campaign is not allowed"
+    );
+    return;
+  }
+
+  // Batches and jobs cost one unit per address; oversized lists are rejected
+  // by the controllers, so they are charged at most the batch limit
+  const addresses = req.body?.addresses;
+  const units = Array.isArray(addresses)
+    ? Math.min(
+        Math.max(addresses.length, 1),
+        configLoader.getEnvConfig().maxBatchSize
+      )
+    : 1;
+
+  const quota = partnerUsage.consume(partner, units);
+  if (!quota.allowed) {
+    logger.warn(`Partner ${partner.id} exceeded ${quota.limit} quota`);
+    res.setHeader("Retry-After", String(quota.retryAfter));
+    sendVerificationError(req, res, 429, `Quota exceeded (${quota.limit})`);
+    return;
+  }
+
+  next();
+}
@@ -0,0 +1,138 @@
+import { Router } from "express";
+import { AdminController } from "../controllers/admin";
+import { adminAudit, adminAuth } from "../middleware/admin-auth";
+
+const router = Router();
+const adminController = new AdminController();
+
+// Every admin request is audited (including rejected ones) and authenticated
+router.use(adminAudit);
+router.use(adminAuth);
+
+/**
+ * Reload configuration
+ * POST /api/admin/reload-config
+ */
+router.post("/reload-config", adminController.reloadConfig);
+
+/**
+ * Configuration changes of the last reload and pending in the file
+ * GET /api/admin/config/diff
+ */
+router.get("/config/diff", adminController.getConfigDiff);
+
+/**
+ * Create a contract
+ * POST /api/admin/contracts
+ *
+ * Body (JSON): id and the contract definition as in contracts.json
+ */
+router.post("/contracts", adminController.createContract);
+
+/**
+ * Replace or delete a contract
+ * PUT /api/admin/contracts/:contractId
+ * DELETE /api/admin/contracts/:contractId
+ */
+router.put("/contracts/:contractId", adminController.updateContract);
+router.delete("/contracts/:contractId", adminController.deleteContract);
+
+/**
+ * Create a campaign
+ * POST /api/admin/contracts/:contractId/campaigns
+ *
+ * Body (JSON): id and the campaign definition as in contracts.json
+ */
+router.post("/contracts/:contractId/campaigns", adminController.createCampaign);
+
+/**
+ * Replace or delete a campaign
+ * PUT /api/admin/contracts/:contractId/campaigns/:campaignId
+ * DELETE /api/admin/contracts/:contractId/campaigns/:campaignId
+ */
+router.put(
+  "/contracts/:contractId/campaigns/:campaignId",
+  adminController.updateCampaign
+);
+router.delete(
+  "/contracts/:contractId/campaigns/:campaignId",
+  adminController.deleteCampaign
+);
+
+/**
+ * Clear the verification cache
+ * POST /api/admin/clear-cache
+ */
+router.post("/clear-cache", adminController.clearCache);
+
+/**
+ * Export eligible addresses for a campaign
+ * GET /api/admin/contracts/:contractId/campaigns/:campaignId/export?format=csv|json
+ */
+router.get(
+  "/contracts/:contractId/campaigns/:campaignId/export",
+  adminController.exportCampaignEligibility
+);
+
+/**
+ * Build the Merkle distribution tree of a finished campaign
+ * POST /api/admin/contracts/:contractId/campaigns/:campaignId/merkle
+ *
+ * Body (JSON, optional):
+ * - amounts: Map of address to amount in base units
+ * - defaultAmount: Amount for eligible addresses missing from amounts
+ */
+router.post(
+  "/contracts/:contractId/campaigns/:campaignId/merkle",
+  adminController.buildMerkleTree
+);
+
+/**
+ * Get the stored Merkle distribution of a campaign
+ * GET /api/admin/contracts/:contractId/campaigns/:campaignId/merkle
+ */
+router.get(
+  "/contracts/:contractId/campaigns/:campaignId/merkle",
+  adminController.getMerkleTree
+);
+
+/**
+ * Freeze the final results of an ended campaign
+ * POST /api/admin/contracts/:contractId/campaigns/:campaignId/finalize
+ */
+router.post(
+  "/contracts/:contractId/campaigns/:campaignId/finalize",
+  adminController.finalizeCampaign
+);
+
+/**
+ * Delete the final results of a campaign
+ * DELETE /api/admin/contracts/:contractId/campaigns/:campaignId/finalize
+ */
+router.delete(
+  "/contracts/:contractId/campaigns/:campaignId/finalize",
+  adminController.unfinalizeCampaign
+);
+
+/**
+ * Partner quotas and usage counters
+ * GET /api/admin/partners/usage
+ */
+router.get("/partners/usage", adminController.getPartnerUsage);
+
+/**
+ * Webhook subscriptions, delivery counters and dead-letter list
+ * GET /api/admin/webhooks
+ */
+router.get("/webhooks", adminController.getWebhooks);
+
+/**
+ * Retry a dead-letter webhook delivery
+ * POST /api/admin/webhooks/dead-letters/:deliveryId/retry
+ */
+router.post(
+  "/webhooks/dead-letters/:deliveryId/retry",
+  adminController.retryWebhook
+);
+
+export default router;
@@ -0,0 +1,37 @@
+import { Router } from "express";
+import { AttestationController } from "../controllers/attestation";
+import { partnerAuth } from "../middleware/partner-auth";
+
+const router = Router();
+const attestationController = new AttestationController();
+
+/**
+ * EIP-712 domains, types and signer address
+ * GET /api/attestations/domain
+ */
+router.get("/domain", attestationController.getDomain);
+
+/**
+ * Verify a signed attestation
+ * POST /api/attestations/verify
+ *
+ * Body (JSON):
+ * - attestation: Attestation object returned by the signing endpoint
+ * - signature: Its signature
+ */
+router.post("/verify", attestationController.verifyAttestation);
+
+/**
+ * Verify an address and sign the result
+ * GET /api/attestations/:address?contract=contract_id&campaign=campaign_id
+ *
+ * Required query parameters:
+ * - contract: The contract identifier
+ * - campaign: The campaign identifier
+ *
+ * Optional query parameters:
+ * - window: Campaign window index of a recurring campaign, defaults to the current window
+ */
+router.get("/:address", partnerAuth, attestationController.createAttestation);
+
+export default router;
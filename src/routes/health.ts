@@ -0,0 +1,19 @@
+import { Router } from "express";
+import { HealthController } from "../controllers/health";
+
+const router = Router();
+const healthController = new HealthController();
+
+/**
+ * Liveness probe
+ * GET /health
+ */
+router.get("/health", healthController.getHealth);
+
+/**
+ * Readiness probe with per-contract RPC diagnostics
+ * GET /ready
+ */
+router.get("/ready", healthController.getReadiness);
+
+export default router;
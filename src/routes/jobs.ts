@@ -0,0 +1,41 @@
+import { Router } from "express";
+import { JobController } from "../controllers/jobs";
+import { partnerAuth } from "../middleware/partner-auth";
+
+const router = Router();
+const jobController = new JobController();
+
+/**
+ * Queue an asynchronous verification job
+ * POST /api/jobs
+ *
+ * Body (JSON):
+ * - address or addresses: Address, or array of addresses (max MAX_BATCH_SIZE)
+ * - contract: The contract identifier (omit for a composite campaign)
+ * - campaign: (Optional) Campaign or composite campaign identifier
+ * - window: (Optional) Campaign window index, defaults to the current window
+ * - startDate, endDate: (Optional) Date range, ignored if campaign is set
+ * - timezone: (Optional) Timezone of dates without an offset, defaults to UTC
+ * - callbackUrl: (Optional) URL notified with the job once it finishes, on
+ *   one of the partner's callback origins (API key required)
+ */
+router.post("/", partnerAuth, jobController.createJob);
+
+/**
+ * Job status, progress and results
+ * GET /api/jobs/:id
+ */
+router.get("/:id", partnerAuth, jobController.getJob);
+
+/**
+ * Handle OPTIONS requests for CORS preflight
+ */
+router.options("/", (_, res) => {
+  res.status(200).end();
+});
+
+router.options("/:id", (_, res) => {
+  res.status(200).end();
+});
+
+export default router;
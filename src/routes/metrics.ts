@@ -0,0 +1,16 @@
+import { Router } from "express";
+import { MetricsController } from "../controllers/metrics";
+
+const router = Router();
+const metricsController = new MetricsController();
+
+/**
+ * Prometheus metrics
+ * GET /metrics
+ *
+ * Headers:
+ * - Authorization: Bearer <METRICS_TOKEN>, when METRICS_TOKEN is set
+ */
+router.get("/", metricsController.getMetrics);
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { VerificationController } from "../controllers/verification";
+import { partnerAuth } from "../middleware/partner-auth";
 
 const router = Router();
 const verificationController = new VerificationController();
@@ -8,18 +9,39 @@ const verificationController = new VerificationController();
  * Verification endpoint
  * GET /api/verify/:address?contract=contract_id
  * Optional query param: ?campaign=campaign_id
+ * The address may be an ENS name (name.eth) or a Basename (name.base.eth)
  *
  * Required query parameters:
  * - contract: The contract identifier
  *
  * Optional query parameters:
  * - campaign: Campaign identifier for specific campaign verification
+ * - apiKey: Partner API key (or X-API-Key header)
  */
-router.get("/verify/:address", verificationController.verifyInteraction);
+router.get(
+  "/verify/:address",
+  partnerAuth,
+  verificationController.verifyInteraction
+);
+
+/**
+ * Batch verification endpoint
+ * POST /api/verify/batch
+ *
+ * Body (JSON):
+ * - addresses: Array of addresses or names to verify (max MAX_BATCH_SIZE)
+ * - contract: The contract identifier
+ * - campaign: (Optional) Campaign identifier
+ * - window: (Optional) Campaign window index, defaults to the current window
+ * - startDate, endDate: (Optional) Date range, ignored if campaign is set
+ * - timezone: (Optional) Timezone of dates without an offset, defaults to UTC
+ */
+router.post("/verify/batch", partnerAuth, verificationController.verifyBatch);
 
 /**
  * Time-range verification endpoint
  * GET /api/verify-in-range/:address?contract=contract_id&startDate=YYYY-MM-DD&endDate=YYYY-MM-DD
+ * The address may be an ENS name (name.eth) or a Basename (name.base.eth)
  *
  * Required query parameters:
  * - contract: The contract identifier
@@ -27,15 +49,21 @@ router.get("/verify/:address", verificationController.verifyInteraction);
  *
  * Optional query parameters:
  * - campaign: Campaign identifier (if provided, startDate and endDate are not required)
+ * - window: Campaign window index of a recurring campaign, defaults to the current window
+ * - timezone: Timezone of dates without an offset, defaults to UTC
  */
 router.get(
   "/verify-in-range/:address",
+  partnerAuth,
   verificationController.verifyInteractionInTimeRange
 );
 
 /**
  * List all contracts and campaigns
  * GET /api/contracts
+ *
+ * Query parameters:
+ * - status: (Optional) Comma separated statuses (upcoming, active, ended, finalized)
  */
 router.get("/contracts", verificationController.listContractsAndCampaigns);
 
@@ -49,16 +77,13 @@ router.get(
 );
 
 /**
- * Reload configuration
- * GET /api/reload-config
- */
-router.get("/reload-config", verificationController.reloadConfig);
-
-/**
- * Admin endpoint to clear cache
- * GET /api/clear-cache
+ * Merkle proof of an address for a campaign distribution
+ * GET /api/contracts/:contractId/campaigns/:campaignId/proof/:address
  */
-router.get("/clear-cache", verificationController.clearCache);
+router.get(
+  "/contracts/:contractId/campaigns/:campaignId/proof/:address",
+  verificationController.getMerkleProof
+);
 
 /**
  * Handle OPTIONS requests for CORS preflight
@@ -67,6 +92,10 @@ router.options("/verify/:address", (_, res) => {
   res.status(200).end();
 });
 
+router.options("/verify/batch", (_, res) => {
+  res.status(200).end();
+});
+
 router.options("/verify-in-range/:address", (_, res) => {
   res.status(200).end();
 });
@@ -79,4 +108,11 @@ router.options("/contracts/:contractId/campaigns/:campaignId", (_, res) => {
   res.status(200).end();
 });
 
+router.options(
+  "/contracts/:contractId/campaigns/:campaignId/proof/:address",
+  (_, res) => {
+    res.status(200).end();
+  }
+);
+
 export default router;
@@ -0,0 +1,127 @@
+import { ethers } from "ethers";
+import { AttestationService } from "./attestation";
+
+const CONTRACT_ID = "doge_base_aerodome";
+const CAMPAIGN_ID = "doge_december_2024";
+const ACCOUNT = "0xabcdef0000000000000000000000000000000001";
+
+/**
+ * Create a service signing with a key
+ */
+function withKey(privateKey?: string): AttestationService {
+  if (privateKey) {
+    process.env.ATTESTATION_PRIVATE_KEY = privateKey;
+  } else {
+    delete process.env.ATTESTATION_PRIVATE_KEY;
+  }
+  return new AttestationService();
+}
+
+describe("AttestationService", () => {
+  const wallet = ethers.Wallet.createRandom();
+  let service: AttestationService;
+
+  beforeEach(() => {
+    service = withKey(wallet.privateKey);
+  });
+
+  afterAll(() => {
+    delete process.env.ATTESTATION_PRIVATE_KEY;
+  });
+
+  it("signs attestations that verify", async () => {
+    const { attestation, signature, domain } = await service.sign(
+      ACCOUNT,
+      CONTRACT_ID,
+      CAMPAIGN_ID,
+      true,
+      123456
+    );
+
+    expect(attestation).toMatchObject({
+      account: ethers.getAddress(ACCOUNT),
+      result: true,
+      evidenceBlock: "123456",
+    });
+    expect(domain).toEqual({
+      name: "Quest Verification API",
+      version: "1",
+      chainId: 8453,
+    });
+    expect(service.verify(attestation, signature)).toEqual({
+      valid: true,
+      expired: false,
+      signer: wallet.address,
+    });
+  });
+
+  it("recovers the signer from the published domain and types", async () => {
+    const { attestation, signature } = await service.sign(
+      ACCOUNT,
+      CONTRACT_ID,
+      CAMPAIGN_ID,
+      false,
+      1
+    );
+    const { domains, types } = service.describe();
+
+    // Verifiers parse the JSON response, so check after a round trip
+    const received = JSON.parse(JSON.stringify(attestation));
+    expect(
+      ethers.verifyTypedData(domains[CONTRACT_ID], types, received, signature)
+    ).toBe(wallet.address);
+  });
+
+  it("rejects tampered attestations and other signers", async () => {
+    const { attestation, signature } = await service.sign(
+      ACCOUNT,
+      CONTRACT_ID,
+      CAMPAIGN_ID,
+      false,
+      1
+    );
+
+    expect(
+      service.verify({ ...attestation, result: true }, signature).valid
+    ).toBe(false);
+    expect(
+      withKey(ethers.Wallet.createRandom().privateKey).verify(
+        attestation,
+        signature
+      ).valid
+    ).toBe(false);
+    expect(service.verify(attestation, "0x1234")).toMatchObject({
+      valid: false,
+      signer: null,
+    });
+  });
+
+  it("reports expired attestations", async () => {
+    const { attestation, signature } = await service.sign(
+      ACCOUNT,
+      CONTRACT_ID,
+      CAMPAIGN_ID,
+      true,
+      1
+    );
+
+    jest.useFakeTimers({ now: (Number(attestation.expiry) + 1) * 1000 });
+    try {
+      expect(service.verify(attestation, signature)).toMatchObject({
+        valid: true,
+        expired: true,
+      });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("is disabled without a signing key", async () => {
+    const disabled = withKey();
+
+    expect(disabled.isEnabled()).toBe(false);
+    await expect(
+      disabled.sign(ACCOUNT, CONTRACT_ID, CAMPAIGN_ID, true, 1)
+    ).rejects.toThrow("Attestations are disabled");
+  });
+});
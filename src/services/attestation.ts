@@ -0,0 +1,203 @@
+import { ethers } from "ethers";
+import configLoader from "../config/config-loader";
+import logger from "../utils/logger";
+
+// EIP-712 domain constants
+const DOMAIN_NAME = "Quest Verification API";
+const DOMAIN_VERSION = "1";
+const PRIMARY_TYPE = "Eligibility";
+
+// EIP-712 types of a signed eligibility result
+const ELIGIBILITY_TYPES: Record<string, ethers.TypedDataField[]> = {
+  Eligibility: [
+    { name: "account", type: "address" },
+    { name: "contractId", type: "string" },
+    { name: "campaignId", type: "string" },
+    { name: "result", type: "bool" },
+    { name: "evidenceBlock", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+  ],
+};
+
+/**
+ * Signed eligibility statement
+ * Numbers are kept as decimal strings so the JSON round-trips exactly
+ */
+export interface IEligibilityAttestation {
+  account: string;
+  contractId: string;
+  campaignId: string;
+  result: boolean;
+  evidenceBlock: string;
+  expiry: string;
+}
+
+/**
+ * Outcome of checking a signed attestation
+ */
+export interface IAttestationVerification {
+  valid: boolean;
+  expired: boolean;
+  signer: string | null;
+  error?: string;
+}
+
+/**
+ * Signs and verifies EIP-712 eligibility attestations
+ * The domain is bound to the chain of the verified contract so claim
+ * contracts on that chain can check signatures with ecrecover
+ */
+export class AttestationService {
+  private wallet: ethers.Wallet | null = null;
+
+  constructor() {
+    const privateKey = process.env.ATTESTATION_PRIVATE_KEY;
+    if (privateKey) {
+      try {
+        this.wallet = new ethers.Wallet(privateKey);
+        logger.info(`Attestation signer: ${this.wallet.address}`);
+      } catch {
+        // Never log the key itself
+        throw new Error("ATTESTATION_PRIVATE_KEY is not a valid private key");
+      }
+    } else {
+      logger.warn(
+        "ATTESTATION_PRIVATE_KEY is not set, attestations are disabled"
+      );
+    }
+  }
+
+  /**
+   * Check if a signing key is configured
+   */
+  public isEnabled(): boolean {
+    return this.wallet !== null;
+  }
+
+  /**
+   * Get the signer address
+   * @returns Checksummed address, or null when disabled
+   */
+  public getSignerAddress(): string | null {
+    return this.wallet ? this.wallet.address : null;
+  }
+
+  /**
+   * Build the EIP-712 domain for a contract
+   * @param contractId Contract identifier
+   * @throws Error if the contract is not found
+   */
+  public getDomain(contractId: string): ethers.TypedDataDomain {
+    const { chainId } = configLoader.getContractConfig(contractId);
+    return {
+      name: DOMAIN_NAME,
+      version: DOMAIN_VERSION,
+      chainId,
+    };
+  }
+
+  /**
+   * Describe the domains and types used for signing, for offline and
+   * on-chain verifiers
+   */
+  public describe() {
+    const domains: Record<string, ethers.TypedDataDomain> = {};
+    for (const contractId of configLoader.getAvailableContracts()) {
+      domains[contractId] = this.getDomain(contractId);
+    }
+
+    return {
+      signer: this.getSignerAddress(),
+      primaryType: PRIMARY_TYPE,
+      types: ELIGIBILITY_TYPES,
+      domains,
+    };
+  }
+
+  /**
+   * Sign an eligibility result
+   * @param account Verified address
+   * @param contractId Contract identifier
+   * @param campaignId Campaign identifier
+   * @param result Verification result
+   * @param evidenceBlock Block of the matching interaction, or the last
+   *                      scanned block when not eligible
+   * @returns Attestation, its signature and the domain it was signed for
+   * @throws Error if attestations are disabled
+   */
+  public async sign(
+    account: string,
+    contractId: string,
+    campaignId: string,
+    result: boolean,
+    evidenceBlock: number
+  ): Promise<{
+    attestation: IEligibilityAttestation;
+    signature: string;
+    domain: ethers.TypedDataDomain;
+  }> {
+    if (!this.wallet) {
+      throw new Error("Attestations are disabled");
+    }
+
+    const { attestationTtl } = configLoader.getEnvConfig();
+    const attestation: IEligibilityAttestation = {
+      account: ethers.getAddress(account),
+      contractId,
+      campaignId,
+      result,
+      evidenceBlock: String(evidenceBlock),
+      expiry: String(Math.floor(Date.now() / 1000) + attestationTtl),
+    };
+
+    const domain = this.getDomain(contractId);
+    const signature = await this.wallet.signTypedData(
+      domain,
+      ELIGIBILITY_TYPES,
+      attestation
+    );
+
+    return { attestation, signature, domain };
+  }
+
+  /**
+   * Verify a signed attestation against the configured signer
+   * @param attestation Attestation as returned by sign()
+   * @param signature Signature as returned by sign()
+   * @returns Whether the signature is valid, and whether it has expired
+   */
+  public verify(
+    attestation: IEligibilityAttestation,
+    signature: string
+  ): IAttestationVerification {
+    if (!this.wallet) {
+      throw new Error("Attestations are disabled");
+    }
+
+    try {
+      const signer = ethers.verifyTypedData(
+        this.getDomain(attestation.contractId),
+        ELIGIBILITY_TYPES,
+        attestation,
+        signature
+      );
+
+      return {
+        valid: signer === this.wallet.address,
+        expired: Number(attestation.expiry) < Math.floor(Date.now() / 1000),
+        signer,
+      };
+    } catch (error: any) {
+      return {
+        valid: false,
+        expired: false,
+        signer: null,
+        error: error.shortMessage || error.message,
+      };
+    }
+  }
+}
+
+// Create and export a singleton instance
+const attestationService = new AttestationService();
+export default attestationService;
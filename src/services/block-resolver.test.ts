@@ -0,0 +1,121 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { BlockTimestampResolver } from "./block-resolver";
+import { RpcProviderPool } from "./rpc-pool";
+
+// A chain with irregular block times: 2 seconds, with a 12 second gap every
+// 10 blocks
+const BLOCKS = 10000;
+const timestamps: number[] = [1700000000];
+for (let i = 1; i < BLOCKS; i++) {
+  timestamps.push(timestamps[i - 1] + (i % 10 === 0 ? 12 : 2));
+}
+
+function fakePool() {
+  const getBlock = jest.fn(async (tag: number | "latest") => {
+    const number = tag === "latest" ? BLOCKS - 1 : tag;
+    return { number, timestamp: timestamps[number] };
+  });
+  const pool = {
+    execute: (_operation: string, fn: (provider: any) => Promise<unknown>) =>
+      fn({ getBlock }),
+  } as unknown as RpcProviderPool;
+  return { pool, getBlock };
+}
+
+// Reference answers by linear scan
+const firstAtOrAfter = (target: number) =>
+  timestamps.findIndex((ts) => ts >= target);
+const lastAtOrBefore = (target: number) =>
+  timestamps.length -
+  1 -
+  [...timestamps].reverse().findIndex((ts) => ts <= target);
+
+describe("BlockTimestampResolver", () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "block-resolver-"));
+  });
+
+  it("resolves timestamps to the exact first and last blocks", async () => {
+    const resolver = new BlockTimestampResolver(8453, dataDir);
+    const { pool } = fakePool();
+
+    for (const offset of [1, 7, 19, 20, 21, 3333, 12345, 20001]) {
+      const target = timestamps[0] + offset;
+      await expect(
+        resolver.resolve(pool, new Date(target * 1000), "after")
+      ).resolves.toBe(firstAtOrAfter(target));
+      await expect(
+        resolver.resolve(pool, new Date(target * 1000), "before")
+      ).resolves.toBe(lastAtOrBefore(target));
+    }
+  });
+
+  it("resolves windows after the head block to an empty block range", async () => {
+    const resolver = new BlockTimestampResolver(8453, dataDir);
+    const { pool } = fakePool();
+    const future = new Date((timestamps[BLOCKS - 1] + 3600) * 1000);
+    const later = new Date((timestamps[BLOCKS - 1] + 7200) * 1000);
+
+    const startBlock = await resolver.resolve(pool, future, "after");
+    const endBlock = await resolver.resolve(pool, later, "before");
+
+    expect(startBlock).toBe(BLOCKS);
+    expect(endBlock).toBe(BLOCKS - 1);
+    expect(endBlock).toBeLessThan(startBlock);
+  });
+
+  it("keeps a bounded number of resolved lookups", async () => {
+    const resolver = new BlockTimestampResolver(8453, dataDir);
+    const { pool } = fakePool();
+
+    for (let offset = 1; offset <= 2100; offset++) {
+      await resolver.resolve(
+        pool,
+        new Date((timestamps[0] + offset) * 1000),
+        "after"
+      );
+    }
+    resolver.persist();
+
+    const { resolved } = JSON.parse(
+      fs.readFileSync(path.join(dataDir, "block-index", "8453.json"), "utf8")
+    );
+    expect(Object.keys(resolved)).toHaveLength(2000);
+    // The oldest lookups were evicted first
+    expect(resolved[`after:${timestamps[0] + 1}`]).toBeUndefined();
+    expect(resolved[`after:${timestamps[0] + 2100}`]).toBeDefined();
+  });
+
+  it("answers repeated lookups from the persisted index", async () => {
+    const target = new Date((timestamps[0] + 5000) * 1000);
+    const first = new BlockTimestampResolver(8453, dataDir);
+    const expected = await first.resolve(fakePool().pool, target, "after");
+    first.persist();
+
+    const reloaded = new BlockTimestampResolver(8453, dataDir);
+    const { pool, getBlock } = fakePool();
+    await expect(reloaded.resolve(pool, target, "after")).resolves.toBe(
+      expected
+    );
+    expect(getBlock).not.toHaveBeenCalled();
+  });
+
+  it("ignores an index persisted for another chain", async () => {
+    const target = new Date((timestamps[0] + 5000) * 1000);
+    const base = new BlockTimestampResolver(8453, dataDir);
+    await base.resolve(fakePool().pool, target, "after");
+    base.persist();
+    fs.renameSync(
+      path.join(dataDir, "block-index", "8453.json"),
+      path.join(dataDir, "block-index", "1.json")
+    );
+
+    const { pool, getBlock } = fakePool();
+    await new BlockTimestampResolver(1, dataDir).resolve(pool, target, "after");
+    expect(getBlock).toHaveBeenCalled();
+  });
+});
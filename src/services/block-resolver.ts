@@ -0,0 +1,354 @@
+import fs from "fs";
+import path from "path";
+import logger from "../utils/logger";
+import { RpcProviderPool } from "./rpc-pool";
+
+// Index constants
+const MAX_INDEX_POINTS = 20000; // Maximum block/timestamp samples kept per chain
+const MAX_RESOLVED_LOOKUPS = 2000; // Most recently used resolved timestamps kept per chain
+const MAX_SEARCH_STEPS = 80; // Safety limit for the search loop
+const FINALITY_MARGIN = 600; // Only remember answers older than 10 minutes (reorg safety)
+const PERSIST_DELAY = 5000; // Debounce writes of the index file by 5 seconds
+
+/**
+ * Which side of the target timestamp the resolved block should be on
+ * - "after": first block with timestamp >= target (start of a window)
+ * - "before": last block with timestamp <= target (end of a window)
+ */
+export type BlockSearchMode = "after" | "before";
+
+/**
+ * Shape of the persisted index file
+ */
+interface PersistedIndex {
+  chainId: number;
+  points: Array<[number, number]>;
+  resolved: Record<string, number>;
+}
+
+/**
+ * Resolves timestamps to exact block numbers for a single chain
+ * Uses interpolation search over getBlock, bounded by a persisted
+ * timestamp→block index so repeated lookups resolve without RPC calls
+ */
+export class BlockTimestampResolver {
+  // Known [blockNumber, timestamp] samples, sorted by block number
+  private points: Array<[number, number]> = [];
+  // Previously resolved lookups keyed by `${mode}:${timestamp}`, least
+  // recently used first
+  private resolved: Map<string, number> = new Map();
+  private indexPath: string;
+  private persistTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * @param chainId Chain ID the index belongs to
+   * @param dataDir Directory where index files are stored
+   */
+  constructor(private readonly chainId: number, dataDir: string) {
+    this.indexPath = path.resolve(dataDir, "block-index", `${chainId}.json`);
+    this.loadIndex();
+  }
+
+  /**
+   * Resolve a date to a block number
+   * @param pool Provider pool for a contract on this chain
+   * @param targetDate Date to resolve
+   * @param mode Which side of the date the block should be on
+   * @returns Block number
+   */
+  public async resolve(
+    pool: RpcProviderPool,
+    targetDate: Date,
+    mode: BlockSearchMode
+  ): Promise<number> {
+    const target = Math.floor(targetDate.getTime() / 1000);
+    const key = `${mode}:${target}`;
+
+    const known = this.resolved.get(key);
+    if (known !== undefined) {
+      this.resolved.delete(key);
+      this.resolved.set(key, known);
+      logger.debug(
+        `Block index hit on chain ${
+          this.chainId
+        } for ${targetDate.toISOString()} (${mode}): ${known}`
+      );
+      return known;
+    }
+
+    const latest = await pool.execute("getBlock", (provider) =>
+      provider.getBlock("latest")
+    );
+    if (!latest || !latest.timestamp) {
+      throw new Error(
+        `Failed to get latest block timestamp on chain ${this.chainId}`
+      );
+    }
+    this.addPoint(latest.number, latest.timestamp);
+
+    // Dates after the head block: no block is at or after them yet, so
+    // "after" points past the head and a window that has not started is empty
+    if (target >= latest.timestamp) {
+      return mode === "after" && target > latest.timestamp
+        ? latest.number + 1
+        : latest.number;
+    }
+
+    // "before" is the block just ahead of the first block strictly after the target
+    const block =
+      mode === "after"
+        ? await this.findFirstBlockAtOrAfter(pool, target, latest.number)
+        : (await this.findFirstBlockAtOrAfter(
+            pool,
+            target + 1,
+            latest.number
+          )) - 1;
+
+    const result = Math.max(0, block);
+
+    if (target < latest.timestamp - FINALITY_MARGIN) {
+      this.remember(key, result);
+    }
+
+    logger.debug(
+      `Resolved ${targetDate.toISOString()} (${mode}) to block ${result} on chain ${
+        this.chainId
+      }`
+    );
+    return result;
+  }
+
+  /**
+   * Remember a resolved lookup, evicting the least recently used one when
+   * the cap is reached; ad-hoc dates from requests must not grow the index
+   * without bound
+   */
+  private remember(key: string, block: number): void {
+    this.resolved.set(key, block);
+    if (this.resolved.size > MAX_RESOLVED_LOOKUPS) {
+      this.resolved.delete(this.resolved.keys().next().value as string);
+    }
+    this.schedulePersist();
+  }
+
+  /**
+   * Find the first block whose timestamp is >= target
+   * Interpolates between the closest known samples, alternating with
+   * bisection so skewed block times still converge quickly
+   */
+  private async findFirstBlockAtOrAfter(
+    pool: RpcProviderPool,
+    target: number,
+    latestBlock: number
+  ): Promise<number> {
+    let [lo, loTs, hi, hiTs] = this.bracket(target);
+
+    if (lo < 0) {
+      // Nothing known below the target yet, anchor on genesis
+      const genesisTs = await this.getBlockTimestamp(pool, 0);
+      if (genesisTs >= target) {
+        return 0;
+      }
+      lo = 0;
+      loTs = genesisTs;
+    }
+    if (hi < 0) {
+      hi = latestBlock;
+      hiTs = await this.getBlockTimestamp(pool, latestBlock);
+    }
+
+    let steps = 0;
+    while (hi - lo > 1) {
+      if (++steps > MAX_SEARCH_STEPS) {
+        throw new Error(
+          `Block search did not converge on chain ${this.chainId} for timestamp ${target}`
+        );
+      }
+
+      let guess: number;
+      if (steps % 2 === 1 && hiTs > loTs) {
+        guess = lo + Math.floor(((target - loTs) * (hi - lo)) / (hiTs - loTs));
+      } else {
+        guess = lo + Math.floor((hi - lo) / 2);
+      }
+      guess = Math.min(hi - 1, Math.max(lo + 1, guess));
+
+      const guessTs = await this.getBlockTimestamp(pool, guess);
+      if (guessTs < target) {
+        lo = guess;
+        loTs = guessTs;
+      } else {
+        hi = guess;
+        hiTs = guessTs;
+      }
+    }
+
+    logger.debug(
+      `Block search on chain ${this.chainId} for timestamp ${target} took ${steps} lookups`
+    );
+    return hi;
+  }
+
+  /**
+   * Find the closest known samples around a timestamp
+   * @returns [loBlock, loTimestamp, hiBlock, hiTimestamp], -1 when unknown
+   */
+  private bracket(target: number): [number, number, number, number] {
+    // Last point with timestamp < target
+    let left = 0;
+    let right = this.points.length;
+    while (left < right) {
+      const mid = (left + right) >> 1;
+      if (this.points[mid][1] < target) {
+        left = mid + 1;
+      } else {
+        right = mid;
+      }
+    }
+
+    const below = left > 0 ? this.points[left - 1] : null;
+    const above = left < this.points.length ? this.points[left] : null;
+
+    return [
+      below ? below[0] : -1,
+      below ? below[1] : 0,
+      above ? above[0] : -1,
+      above ? above[1] : 0,
+    ];
+  }
+
+  /**
+   * Get a block timestamp, from the index when possible
+   */
+  private async getBlockTimestamp(
+    pool: RpcProviderPool,
+    blockNumber: number
+  ): Promise<number> {
+    const index = this.findPoint(blockNumber);
+    if (index >= 0) {
+      return this.points[index][1];
+    }
+
+    const block = await pool.execute("getBlock", (provider) =>
+      provider.getBlock(blockNumber)
+    );
+    if (!block) {
+      throw new Error(
+        `Block ${blockNumber} not found on chain ${this.chainId}`
+      );
+    }
+
+    this.addPoint(block.number, block.timestamp);
+    return block.timestamp;
+  }
+
+  private findPoint(blockNumber: number): number {
+    let left = 0;
+    let right = this.points.length - 1;
+    while (left <= right) {
+      const mid = (left + right) >> 1;
+      if (this.points[mid][0] === blockNumber) {
+        return mid;
+      }
+      if (this.points[mid][0] < blockNumber) {
+        left = mid + 1;
+      } else {
+        right = mid - 1;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Insert a sample into the sorted index
+   */
+  private addPoint(blockNumber: number, timestamp: number): void {
+    let left = 0;
+    let right = this.points.length;
+    while (left < right) {
+      const mid = (left + right) >> 1;
+      if (this.points[mid][0] < blockNumber) {
+        left = mid + 1;
+      } else {
+        right = mid;
+      }
+    }
+
+    if (this.points[left] && this.points[left][0] === blockNumber) {
+      return;
+    }
+    this.points.splice(left, 0, [blockNumber, timestamp]);
+
+    // Thin the index by dropping every other sample when it grows too large
+    if (this.points.length > MAX_INDEX_POINTS) {
+      this.points = this.points.filter(
+        (_, i) => i % 2 === 0 || i === this.points.length - 1
+      );
+    }
+
+    this.schedulePersist();
+  }
+
+  /**
+   * Load the persisted index from disk, if any
+   */
+  private loadIndex(): void {
+    try {
+      if (!fs.existsSync(this.indexPath)) {
+        return;
+      }
+
+      const data: PersistedIndex = JSON.parse(
+        fs.readFileSync(this.indexPath, "utf8")
+      );
+      if (data.chainId !== this.chainId) {
+        logger.warn(
+          `Ignoring block index at ${this.indexPath}: chain ID mismatch`
+        );
+        return;
+      }
+
+      this.points = (data.points || []).sort((a, b) => a[0] - b[0]);
+      this.resolved = new Map(
+        Object.entries(data.resolved || {}).slice(-MAX_RESOLVED_LOOKUPS)
+      );
+      logger.info(
+        `Loaded block index for chain ${this.chainId}: ${this.points.length} samples, ${this.resolved.size} resolved timestamps`
+      );
+    } catch (error) {
+      logger.warn(`Failed to load block index ${this.indexPath}: ${error}`);
+    }
+  }
+
+  private schedulePersist(): void {
+    if (this.persistTimer) {
+      return;
+    }
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist();
+    }, PERSIST_DELAY);
+    this.persistTimer.unref();
+  }
+
+  /**
+   * Write the index to disk atomically (temp file + rename)
+   */
+  public persist(): void {
+    try {
+      const data: PersistedIndex = {
+        chainId: this.chainId,
+        points: this.points,
+        resolved: Object.fromEntries(this.resolved),
+      };
+
+      fs.mkdirSync(path.dirname(this.indexPath), { recursive: true });
+      const tmpPath = `${this.indexPath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(data));
+      fs.renameSync(tmpPath, this.indexPath);
+    } catch (error) {
+      logger.warn(`Failed to persist block index ${this.indexPath}: ${error}`);
+    }
+  }
+}
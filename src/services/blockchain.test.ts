@@ -0,0 +1,688 @@
+import { ethers } from "ethers";
+import configLoader, {
+  CompositeRule,
+  DEFAULT_ABI,
+  ICampaignCriteria,
+} from "../config/config-loader";
+import blockchainService, { IndeterminateResultError } from "./blockchain";
+import campaignSnapshotStore from "./campaign-snapshots";
+import { VerificationTrace } from "./verification-trace";
+import { IIndexedLog } from "./indexer";
+import { RpcProviderPool, RpcUnavailableError } from "./rpc-pool";
+
+const CONTRACT_ID = "doge_base_aerodome";
+const USER = "0x1111111111111111111111111111111111111111";
+const OTHER = "0x2222222222222222222222222222222222222222";
+const DAY = 86400;
+
+// Private members exercised by the tests
+const service = blockchainService as any;
+const erc20 = new ethers.Interface(DEFAULT_ABI);
+
+/**
+ * Build an ERC-20 log of the user
+ * @param event Transfer or Approval
+ * @param value Token amount, in whole tokens
+ * @param blockNumber Block of the log
+ */
+function erc20Log(
+  event: "Transfer" | "Approval",
+  value: string,
+  blockNumber: number,
+  from = USER,
+  to = OTHER
+): IIndexedLog {
+  const { topics, data } = erc20.encodeEventLog(event, [
+    from,
+    to,
+    ethers.parseUnits(value, 18),
+  ]);
+  return {
+    blockNumber,
+    index: 0,
+    transactionHash: ethers.id(`${event}:${value}:${blockNumber}`),
+    topics,
+    data,
+  };
+}
+
+const criteria = (fields: Partial<ICampaignCriteria>): ICampaignCriteria => ({
+  valueArg: "value",
+  valueDecimals: 18,
+  ...fields,
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  blockchainService.clearCache();
+});
+
+describe("campaign criteria", () => {
+  const meets = (fields: Partial<ICampaignCriteria>, logs: IIndexedLog[]) =>
+    service.meetsCampaignCriteria(CONTRACT_ID, USER, criteria(fields), logs);
+
+  it("counts only the events the campaign selects", async () => {
+    const logs = [
+      erc20Log("Transfer", "1", 10),
+      erc20Log("Approval", "1", 11),
+      erc20Log("Transfer", "1", 12),
+    ];
+
+    await expect(meets({ minEventCount: 3 }, logs)).resolves.toBe(true);
+    await expect(
+      meets({ minEventCount: 3, events: ["Transfer"] }, logs)
+    ).resolves.toBe(false);
+    await expect(
+      meets({ minEventCount: 2, events: ["Transfer"] }, logs)
+    ).resolves.toBe(true);
+  });
+
+  it("sums the value argument in token units", async () => {
+    const logs = [
+      erc20Log("Transfer", "0.75", 10),
+      erc20Log("Transfer", "0.75", 11),
+    ];
+
+    await expect(meets({ minTotalValue: "1.5" }, logs)).resolves.toBe(true);
+    await expect(meets({ minTotalValue: "1.500001" }, logs)).resolves.toBe(
+      false
+    );
+  });
+
+  it("counts distinct UTC days of activity", async () => {
+    const midnight = Date.UTC(2025, 0, 1) / 1000;
+    const timestamps: Record<number, number> = {
+      10: midnight + 60,
+      11: midnight + DAY - 60,
+      12: midnight + DAY + 60,
+    };
+    jest
+      .spyOn(service, "getBlockTimestamp")
+      .mockImplementation(
+        async (...args: unknown[]) => timestamps[args[1] as number]
+      );
+    const logs = [
+      erc20Log("Transfer", "1", 10),
+      erc20Log("Transfer", "1", 11),
+      erc20Log("Transfer", "1", 12),
+    ];
+
+    await expect(meets({ minDistinctDays: 2 }, logs)).resolves.toBe(true);
+    await expect(meets({ minDistinctDays: 3 }, logs)).resolves.toBe(false);
+  });
+
+  it("requires every configured threshold", async () => {
+    const logs = [erc20Log("Transfer", "5", 10)];
+
+    await expect(
+      meets({ minEventCount: 1, minTotalValue: "5" }, logs)
+    ).resolves.toBe(true);
+    await expect(
+      meets({ minEventCount: 2, minTotalValue: "5" }, logs)
+    ).resolves.toBe(false);
+  });
+});
+
+describe("campaign eligibility export", () => {
+  const CAMPAIGN_ID = "doge_december_2024";
+
+  it("lists every address by first interaction with its event count", async () => {
+    jest
+      .spyOn(service, "getBlockForDate")
+      .mockImplementation(async (...args: unknown[]) =>
+        args[2] === "after" ? 100 : 200
+      );
+    const queryWithRetry = jest
+      .spyOn(service, "queryWithRetry")
+      .mockResolvedValue([
+        erc20Log("Transfer", "1", 120, OTHER, OTHER),
+        erc20Log("Transfer", "1", 150),
+        erc20Log("Transfer", "2", 180),
+      ]);
+
+    const eligibility = await blockchainService.getCampaignEligibility(
+      CONTRACT_ID,
+      CAMPAIGN_ID
+    );
+
+    expect(queryWithRetry).toHaveBeenCalledWith(
+      CONTRACT_ID,
+      100,
+      200,
+      expect.any(Array)
+    );
+    expect(eligibility).toMatchObject({ startBlock: 100, endBlock: 200 });
+    expect(
+      eligibility.addresses.map(({ address, firstBlock, eventCount }) => ({
+        address,
+        firstBlock,
+        eventCount,
+      }))
+    ).toEqual([
+      // A transfer to self counts once
+      { address: OTHER, firstBlock: 120, eventCount: 3 },
+      { address: USER, firstBlock: 150, eventCount: 2 },
+    ]);
+  });
+
+  it("rejects unknown campaigns", async () => {
+    await expect(
+      blockchainService.getCampaignEligibility(CONTRACT_ID, "missing")
+    ).rejects.toThrow("Campaign not found: missing");
+  });
+});
+
+describe("composite campaigns", () => {
+  // Leaf results by contract; null leaves are indeterminate
+  const leaves: Record<string, boolean | null> = {
+    yes: true,
+    no: false,
+    unknown: null,
+  };
+  let checked: string[];
+
+  const leaf = (contract: string): CompositeRule => ({ contract });
+
+  /**
+   * Evaluate a rule
+   * @returns The verdict, or "indeterminate"
+   */
+  async function evaluate(rule: CompositeRule) {
+    jest.spyOn(configLoader, "getCompositeCampaign").mockReturnValue({
+      name: "Composite",
+      startDate: "2025-01-01T00:00:00Z",
+      endDate: "2025-01-31T23:59:59Z",
+      timezone: "UTC",
+      description: "",
+      rule,
+    });
+    try {
+      return await blockchainService.hasInteractedComposite(USER, "combo");
+    } catch (error) {
+      if (error instanceof IndeterminateResultError) {
+        return "indeterminate";
+      }
+      throw error;
+    }
+  }
+
+  beforeEach(() => {
+    checked = [];
+    jest
+      .spyOn(blockchainService, "hasInteractedInTimeRange")
+      .mockImplementation(async (_address, _start, _end, contractId) => {
+        checked.push(contractId);
+        if (leaves[contractId] === null) {
+          throw new IndeterminateResultError("RPC unavailable");
+        }
+        return leaves[contractId] as boolean;
+      });
+  });
+
+  it.each([
+    ["and", ["yes", "yes"], true],
+    ["and", ["yes", "no"], false],
+    ["and", ["unknown", "no"], false],
+    ["and", ["yes", "unknown"], "indeterminate"],
+    ["or", ["no", "yes"], true],
+    ["or", ["unknown", "yes"], true],
+    ["or", ["no", "no"], false],
+    ["or", ["no", "unknown"], "indeterminate"],
+  ])("%s of %j is %s", async (operator, operands, expected) => {
+    const rule = { [operator]: operands.map(leaf) } as CompositeRule;
+    await expect(evaluate(rule)).resolves.toBe(expected);
+  });
+
+  it("negates decided results only", async () => {
+    await expect(evaluate({ not: leaf("no") })).resolves.toBe(true);
+    await expect(evaluate({ not: leaf("yes") })).resolves.toBe(false);
+    await expect(evaluate({ not: leaf("unknown") })).resolves.toBe(
+      "indeterminate"
+    );
+    // NOT of an undecided OR stays undecided, instead of becoming eligible
+    await expect(
+      evaluate({ not: { or: [leaf("no"), leaf("unknown")] } })
+    ).resolves.toBe("indeterminate");
+  });
+
+  it("short-circuits left to right", async () => {
+    await evaluate({ and: [leaf("no"), leaf("yes")] });
+    expect(checked).toEqual(["no"]);
+
+    checked = [];
+    await evaluate({
+      or: [{ and: [leaf("yes"), leaf("yes")] }, leaf("unknown")],
+    });
+    expect(checked).toEqual(["yes", "yes"]);
+  });
+
+  it("propagates errors other than indeterminate results", async () => {
+    jest
+      .spyOn(blockchainService, "hasInteractedInTimeRange")
+      .mockRejectedValue(new Error("Contract not found"));
+
+    await expect(evaluate(leaf("yes"))).rejects.toThrow("Contract not found");
+  });
+});
+
+describe("tri-state verification", () => {
+  const CACHE_KEY = "test:verdict";
+  const verify = (check: () => Promise<boolean | null>) =>
+    service.runVerification(CONTRACT_ID, CACHE_KEY, "test", check);
+
+  it("caches definite results", async () => {
+    await expect(verify(async () => false)).resolves.toBe(false);
+    expect(service.cache.get(CACHE_KEY)).toBe(false);
+  });
+
+  it("reports failed and incomplete checks as indeterminate, uncached", async () => {
+    await expect(verify(async () => null)).rejects.toBeInstanceOf(
+      IndeterminateResultError
+    );
+    await expect(
+      verify(() => Promise.reject(new Error("RPC unavailable")))
+    ).rejects.toBeInstanceOf(IndeterminateResultError);
+    expect(service.cache.get(CACHE_KEY)).toBeUndefined();
+  });
+
+  it("reports an RPC outage while resolving blocks as indeterminate", async () => {
+    jest
+      .spyOn(service, "getBlockForDate")
+      .mockRejectedValue(
+        new RpcUnavailableError("All RPC endpoints failed for getBlock")
+      );
+
+    await expect(
+      blockchainService.hasInteractedInTimeRange(
+        USER,
+        new Date("2025-01-01T00:00:00Z"),
+        new Date("2025-01-31T23:59:59Z"),
+        CONTRACT_ID
+      )
+    ).rejects.toBeInstanceOf(IndeterminateResultError);
+  });
+
+  it("reports an RPC outage, not a rejected call, of minter() as indeterminate", async () => {
+    const getMinter = jest
+      .spyOn(service, "getMinter")
+      .mockRejectedValue(new Error("execution reverted"));
+    await expect(service.checkMinterRole(CONTRACT_ID, USER)).resolves.toBe(
+      false
+    );
+
+    getMinter.mockRejectedValue(
+      new RpcUnavailableError("All RPC endpoints failed for minter")
+    );
+    await expect(
+      service.checkMinterRole(CONTRACT_ID, USER)
+    ).rejects.toBeInstanceOf(IndeterminateResultError);
+  });
+
+  it("shares a running check between concurrent requests", async () => {
+    const check = jest.fn(async () => true);
+
+    await expect(Promise.all([verify(check), verify(check)])).resolves.toEqual([
+      true,
+      true,
+    ]);
+    expect(check).toHaveBeenCalledTimes(1);
+  });
+
+  it("caches a timed out check once it completes in the background", async () => {
+    jest.useFakeTimers();
+    try {
+      let finish!: (result: boolean) => void;
+      const pending = verify(
+        () => new Promise<boolean>((resolve) => (finish = resolve))
+      );
+      const timedOut = expect(pending).rejects.toThrow("is still running");
+
+      await jest.advanceTimersByTimeAsync(12000);
+      await timedOut;
+      expect(service.cache.get(CACHE_KEY)).toBeUndefined();
+
+      finish(true);
+      await jest.advanceTimersByTimeAsync(0);
+      expect(service.cache.get(CACHE_KEY)).toBe(true);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe("direct transaction check", () => {
+  const START_BLOCK = 1000;
+  const END_BLOCK = 4000;
+  let provider: {
+    getTransactionCount: jest.Mock;
+    getLogs: jest.Mock;
+  };
+
+  const check = (strictness = "strict", trace?: VerificationTrace) =>
+    service.checkDirectTransactionInteractions(
+      CONTRACT_ID,
+      USER,
+      START_BLOCK,
+      END_BLOCK,
+      strictness,
+      trace
+    );
+
+  beforeEach(() => {
+    // Three transactions sent in the range, no matching event by default
+    provider = {
+      getTransactionCount: jest.fn(async (_address, block: number) =>
+        block >= END_BLOCK ? 5 : 2
+      ),
+      getLogs: jest.fn(async () => []),
+    };
+    const pool = {
+      execute: (_operation: string, fn: (p: unknown) => Promise<unknown>) =>
+        fn(provider),
+    } as unknown as RpcProviderPool;
+    jest.spyOn(service, "getProvider").mockReturnValue(pool);
+  });
+
+  it("is not eligible without transactions in the range", async () => {
+    provider.getTransactionCount.mockResolvedValue(2);
+
+    await expect(check()).resolves.toBe(false);
+    expect(provider.getLogs).not.toHaveBeenCalled();
+  });
+
+  it("is eligible with a matching event", async () => {
+    provider.getLogs.mockResolvedValueOnce([erc20Log("Transfer", "1", 3900)]);
+
+    await expect(check()).resolves.toBe(true);
+  });
+
+  it("is indeterminate when transaction counts cannot be read", async () => {
+    provider.getTransactionCount.mockRejectedValue(new Error("timeout"));
+
+    await expect(check()).rejects.toBeInstanceOf(IndeterminateResultError);
+  });
+
+  it("is indeterminate when part of the range could not be scanned", async () => {
+    provider.getLogs.mockRejectedValueOnce(new Error("timeout"));
+
+    await expect(check()).rejects.toBeInstanceOf(IndeterminateResultError);
+  });
+
+  it("requires a matching event in strict mode", async () => {
+    const trace = new VerificationTrace();
+
+    await expect(check("strict", trace)).resolves.toBe(false);
+    expect(trace.heuristic).toBe(false);
+  });
+
+  it("accepts the transaction count increase in heuristic mode", async () => {
+    const trace = new VerificationTrace();
+
+    await expect(check("heuristic", trace)).resolves.toBe(true);
+    expect(trace.heuristic).toBe(true);
+    expect(trace.steps.map((step) => step.check)).toContain(
+      "transaction-count-heuristic"
+    );
+  });
+});
+
+describe("verification strictness", () => {
+  const getCampaignConfig = configLoader.getCampaignConfig.bind(configLoader);
+  const window = {
+    startDate: new Date("2024-12-12T00:00:00Z"),
+    endDate: new Date("2024-12-27T23:59:59Z"),
+  };
+
+  /**
+   * Verify the campaign with a strictness
+   * @returns Strictness the activity check ran with
+   */
+  async function strictnessUsed(strictness?: string) {
+    jest
+      .spyOn(configLoader, "getCampaignConfig")
+      .mockImplementation((contractId, campaignId) => {
+        const campaign = getCampaignConfig(contractId, campaignId);
+        return campaign && strictness
+          ? { ...campaign, strictness: strictness as any }
+          : campaign;
+      });
+    jest.spyOn(service, "checkMinterRole").mockResolvedValue(false);
+    jest
+      .spyOn(service, "getBlockForDate")
+      .mockImplementation(async (...args: unknown[]) =>
+        args[2] === "after" ? 100 : 200
+      );
+    const activity = jest
+      .spyOn(service, "checkActivityFast")
+      .mockResolvedValue(true);
+
+    await blockchainService.hasInteractedInTimeRange(
+      USER,
+      window.startDate,
+      window.endDate,
+      CONTRACT_ID,
+      strictness === undefined ? undefined : "doge_december_2024"
+    );
+    return activity.mock.lastCall![4];
+  }
+
+  it("is strict for explicit date ranges", async () => {
+    await expect(strictnessUsed()).resolves.toBe("strict");
+  });
+
+  it("follows the campaign strictness", async () => {
+    await expect(strictnessUsed("strict")).resolves.toBe("strict");
+    blockchainService.clearCache();
+    await expect(strictnessUsed("heuristic")).resolves.toBe("heuristic");
+  });
+});
+
+describe("configuration reload invalidation", () => {
+  const START = new Date("2025-01-01T00:00:00Z");
+  const END = new Date("2025-01-31T23:59:59Z");
+
+  // Verdicts of a contract and of one whose ID starts with it
+  const cacheKeys = () => [
+    service.timeRangeCacheKey("aero", "launch", USER, START, END),
+    service.timeRangeCacheKey("aero", "summer", USER, START, END),
+    service.allTimeCacheKey("aero", undefined, USER),
+    service.timeRangeCacheKey("aero_v2", "launch", USER, START, END),
+    service.allTimeCacheKey("aero_v2", "launch", USER),
+  ];
+
+  const cachedAfter = (diff: object): string[] => {
+    for (const key of cacheKeys()) {
+      service.cache.set(key, true);
+    }
+    service.applyConfigDiff({ compositeCampaigns: [], ...diff });
+    return cacheKeys().filter((key: string) => service.cache.has(key));
+  };
+
+  it("invalidates the verdicts of a changed campaign only", () => {
+    const [, summer, all, v2Launch, v2AllTime] = cacheKeys();
+
+    expect(
+      cachedAfter({
+        contracts: [
+          {
+            id: "aero",
+            change: "modified",
+            fields: [],
+            campaigns: [
+              { id: "launch", change: "modified", fields: ["endDate"] },
+            ],
+          },
+        ],
+      })
+    ).toEqual([summer, all, v2Launch, v2AllTime]);
+  });
+
+  it("invalidates every verdict of a changed contract, not of its namesakes", () => {
+    const [, , , v2Launch, v2AllTime] = cacheKeys();
+
+    expect(
+      cachedAfter({
+        contracts: [
+          {
+            id: "aero",
+            change: "modified",
+            fields: ["interactionEvents"],
+            campaigns: [],
+          },
+        ],
+      })
+    ).toEqual([v2Launch, v2AllTime]);
+  });
+
+  it("keeps verdicts on cosmetic changes", () => {
+    expect(
+      cachedAfter({
+        contracts: [
+          {
+            id: "aero",
+            change: "modified",
+            fields: ["name"],
+            campaigns: [{ id: "launch", change: "modified", fields: ["name"] }],
+          },
+        ],
+      })
+    ).toEqual(cacheKeys());
+  });
+
+  it("invalidates the verdicts of removed contracts and campaigns", () => {
+    const [launch, , all] = cacheKeys();
+
+    expect(
+      cachedAfter({
+        contracts: [
+          {
+            id: "aero",
+            change: "modified",
+            fields: [],
+            campaigns: [{ id: "summer", change: "removed", fields: [] }],
+          },
+          { id: "aero_v2", change: "removed", fields: [], campaigns: [] },
+        ],
+      })
+    ).toEqual([launch, all]);
+  });
+});
+
+describe("campaign finalization", () => {
+  const CAMPAIGN_ID = "doge_december_2024";
+  const campaign = configLoader.getCampaignConfig(CONTRACT_ID, CAMPAIGN_ID);
+  const startDate = new Date(campaign?.startDate as string);
+  const endDate = new Date(campaign?.endDate as string);
+
+  beforeEach(() => {
+    jest
+      .spyOn(blockchainService, "getCampaignEligibility")
+      .mockImplementation(async (contractId, campaignId, window = 0) => ({
+        contractId,
+        campaignId,
+        window,
+        startBlock: 100,
+        endBlock: 200,
+        addresses: [
+          {
+            address: USER,
+            firstBlock: 150,
+            firstTxHash: ethers.id("first"),
+            firstLogIndex: 0,
+            eventCount: 2,
+          },
+        ],
+      }));
+  });
+
+  afterEach(() => {
+    campaignSnapshotStore.remove(CONTRACT_ID, CAMPAIGN_ID);
+  });
+
+  it("freezes the eligible set of every window", async () => {
+    expect(blockchainService.getCampaignStatus(CONTRACT_ID, CAMPAIGN_ID)).toBe(
+      "ended"
+    );
+
+    const snapshot = await blockchainService.finalizeCampaign(
+      CONTRACT_ID,
+      CAMPAIGN_ID
+    );
+
+    expect(snapshot.windows).toEqual([
+      expect.objectContaining({
+        index: 0,
+        startDate: startDate.toISOString(),
+        startBlock: 100,
+        endBlock: 200,
+      }),
+    ]);
+    expect(blockchainService.getCampaignEligibility).toHaveBeenCalledWith(
+      CONTRACT_ID,
+      CAMPAIGN_ID,
+      0,
+      true
+    );
+    expect(blockchainService.getCampaignStatus(CONTRACT_ID, CAMPAIGN_ID)).toBe(
+      "finalized"
+    );
+  });
+
+  it("answers verifications from the snapshot instead of the chain", async () => {
+    await blockchainService.finalizeCampaign(CONTRACT_ID, CAMPAIGN_ID);
+    const scan = jest.spyOn(service, "queryWithRetry");
+    const verify = (address: string) =>
+      blockchainService.hasInteractedInTimeRange(
+        address,
+        startDate,
+        endDate,
+        CONTRACT_ID,
+        CAMPAIGN_ID
+      );
+
+    await expect(verify(USER)).resolves.toBe(true);
+    await expect(verify(OTHER)).resolves.toBe(false);
+    expect(scan).not.toHaveBeenCalled();
+  });
+
+  it("invalidates the live verdicts of the campaign only", async () => {
+    const live = service.timeRangeCacheKey(
+      CONTRACT_ID,
+      CAMPAIGN_ID,
+      OTHER,
+      startDate,
+      endDate
+    );
+    const other = service.timeRangeCacheKey(
+      CONTRACT_ID,
+      "doge_january_2025",
+      OTHER,
+      startDate,
+      endDate
+    );
+    service.cache.set(live, true);
+    service.cache.set(other, true);
+
+    await blockchainService.finalizeCampaign(CONTRACT_ID, CAMPAIGN_ID);
+
+    expect(service.cache.has(live)).toBe(false);
+    expect(service.cache.has(other)).toBe(true);
+  });
+
+  it("refuses campaigns that have not ended", async () => {
+    jest.useFakeTimers({
+      now: new Date("2024-12-20T00:00:00Z"),
+      doNotFake: ["nextTick", "setImmediate", "queueMicrotask"],
+    });
+    try {
+      expect(
+        blockchainService.getCampaignStatus(CONTRACT_ID, CAMPAIGN_ID)
+      ).toBe("active");
+      await expect(
+        blockchainService.finalizeCampaign(CONTRACT_ID, CAMPAIGN_ID)
+      ).rejects.toThrow(`Campaign ${CAMPAIGN_ID} has not ended yet`);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
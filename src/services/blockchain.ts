@@ -1,40 +1,117 @@
 import { ethers } from "ethers";
-import configLoader from "../config/config-loader";
+import configLoader, {
+  CompositeRule,
+  ICampaignCriteria,
+  IConfigDiff,
+  VerificationStrictness,
+} from "../config/config-loader";
 import logger from "../utils/logger";
+import { cacheLookups, verificationTimeouts } from "../utils/metrics";
+import {
+  CampaignStatus,
+  ICampaignWindow,
+  countCampaignWindows,
+  findCampaignWindow,
+  getCampaignSpan,
+  getCampaignWindow,
+  getScheduleStatus,
+} from "../utils/schedule";
 import NodeCache from "node-cache";
 import { performance } from "perf_hooks";
-
-/**
- * Core ABI elements needed for interactions with the token contract
- */
-const ABI = [
-  "event Transfer(address indexed from, address indexed to, uint256 value)",
-  "event Approval(address indexed owner, address indexed spender, uint256 value)",
-  "function mint(address account, uint256 amount) external returns (bool)",
-  "function setMinter(address _minter)",
-  "function transfer(address to, uint256 amount) external returns (bool)",
-  "function approve(address spender, uint256 amount) external returns (bool)",
-  "function transferFrom(address from, address to, uint256 amount) external returns (bool)",
-  "function minter() view returns (address)",
-];
+import {
+  IRpcEndpointProbe,
+  RpcProviderPool,
+  RpcUnavailableError,
+} from "./rpc-pool";
+import { BlockSearchMode, BlockTimestampResolver } from "./block-resolver";
+import { EventIndexer, IIndexedLog, InteractionListener } from "./indexer";
+import { VerificationTrace } from "./verification-trace";
+import campaignSnapshotStore, {
+  ICampaignSnapshot,
+  IFrozenWindow,
+} from "./campaign-snapshots";
 
 // Configuration constants
 const BLOCK_RANGE = 9500; // Number of blocks to query at once
 const RECENT_BLOCKS = 2500; // Define what "recent" means in terms of blocks
 const CACHE_TTL = 3600; // Cache TTL in seconds (1 hour)
+const CACHE_KEY_SEPARATOR = ":"; // Separates verdict cache key parts; never part of an ID
 const MAX_RETRIES = 2; // Number of retries for failed queries
 const MAX_VERIFICATION_TIME = 12000; // 12 seconds max for verification
+const BACKGROUND_VERIFICATION_TIME = 120000; // Timed out checks keep scanning for up to 2 minutes
+const RETRY_AFTER = 30; // Seconds clients should wait before retrying an indeterminate result
 const MAX_BLOCKS_TO_SCAN = 100000; // Maximum blocks to scan before early termination
 
+// Contract fields that require a new provider pool and contract instance
+const PROVIDER_FIELDS = [
+  "rpcUrl",
+  "fallbackRpcUrls",
+  "chainId",
+  "address",
+  "abi",
+];
+// Contract and campaign fields that can change cached verdicts
+const CONTRACT_VERDICT_FIELDS = [
+  "address",
+  "chainId",
+  "abi",
+  "interactionEvents",
+];
+const CAMPAIGN_VERDICT_FIELDS = [
+  "startDate",
+  "endDate",
+  "timezone",
+  "recurrence",
+  "criteria",
+  "strictness",
+];
+
+/**
+ * Thrown when a verification could not reach a definite answer because of
+ * RPC failures or timeouts. Such outcomes are never cached; timed out checks
+ * keep running in the background so a retry can be answered from the cache
+ */
+export class IndeterminateResultError extends Error {
+  constructor(message: string, public readonly retryAfter = RETRY_AFTER) {
+    super(message);
+    this.name = "IndeterminateResultError";
+  }
+}
+
+/**
+ * An address that qualified for a campaign, with its first interaction
+ */
+export interface IEligibleAddress {
+  address: string;
+  firstBlock: number;
+  firstTxHash: string;
+  firstLogIndex: number;
+  eventCount: number;
+}
+
+/**
+ * Snapshot of every address that qualified for a campaign
+ */
+export interface ICampaignEligibility {
+  contractId: string;
+  campaignId: string;
+  window: number;
+  startBlock: number;
+  endBlock: number;
+  addresses: IEligibleAddress[];
+}
+
 /**
  * Service for interacting with blockchain contracts and verifying address interactions
  */
 export class BlockchainService {
-  private providers: Map<string, ethers.JsonRpcProvider> = new Map();
+  private providers: Map<string, RpcProviderPool> = new Map();
   private contracts: Map<string, ethers.Contract> = new Map();
+  private blockResolvers: Map<number, BlockTimestampResolver> = new Map();
+  private indexer: EventIndexer;
   private cache: NodeCache;
-  private queryCount: number = 0;
-  private cacheHits: number = 0;
+  // Running verification checks by cache key, shared by concurrent requests
+  private pendingChecks: Map<string, Promise<boolean | null>> = new Map();
   private static isInitialized = false;
 
   constructor() {
@@ -47,8 +124,17 @@ export class BlockchainService {
     // Initialize all contracts from the configuration file
     this.initializeAllContracts();
 
-    // Log performance stats periodically
-    setInterval(() => this.logStats(), 10800000); // 3 hours
+    // Local event index, answers lookups for indexed contracts without RPC
+    const { dataDir, indexerEnabled } = configLoader.getEnvConfig();
+    this.indexer = new EventIndexer(dataDir, (contractId) =>
+      this.getProvider(contractId)
+    );
+    if (indexerEnabled) {
+      this.indexer.start();
+    }
+
+    // Drop providers and cached verdicts made stale by configuration reloads
+    configLoader.onReload((diff) => this.applyConfigDiff(diff));
 
     if (!BlockchainService.isInitialized) {
       this.clearCache();
@@ -83,16 +169,22 @@ export class BlockchainService {
 
     const contractConfig = configLoader.getContractConfig(contractId);
 
-    // Create a provider for this contract
+    // Create a provider pool (primary + fallbacks) for this contract
     try {
-      const provider = new ethers.JsonRpcProvider(contractConfig.rpcUrl);
-      this.providers.set(contractId, provider);
+      const pool = new RpcProviderPool(
+        contractId,
+        contractConfig.rpcUrl,
+        contractConfig.fallbackRpcUrls,
+        contractConfig.chainId
+      );
+      this.providers.set(contractId, pool);
 
-      // Create the contract instance
+      // Create the contract instance, bound to the primary provider.
+      // Calls go through the pool with contract.connect(provider).
       const contract = new ethers.Contract(
         contractConfig.address,
-        ABI,
-        provider
+        contractConfig.abi,
+        pool.getPrimaryProvider()
       );
       this.contracts.set(contractId, contract);
 
@@ -108,35 +200,75 @@ export class BlockchainService {
   }
 
   /**
-   * Reload all contract configurations
-   * @throws Error if reload fails
+   * Invalidate what a configuration reload made stale: the provider pools of
+   * contracts whose endpoints or address changed, and the cached verdicts of
+   * changed contracts and campaigns. Cosmetic changes (names, descriptions)
+   * keep the cache
+   * @param diff Differences applied by the reload
    */
-  public reloadContractConfigurations(): void {
-    try {
-      // Clear existing providers and contracts
-      this.providers.clear();
-      this.contracts.clear();
+  private applyConfigDiff(diff: IConfigDiff): void {
+    let invalidated = 0;
+
+    for (const contract of diff.contracts) {
+      const replaced = contract.change !== "modified";
+
+      if (
+        replaced ||
+        contract.fields.some((f) => PROVIDER_FIELDS.includes(f))
+      ) {
+        this.providers.get(contract.id)?.destroy();
+        this.providers.delete(contract.id);
+        this.contracts.delete(contract.id);
+        logger.info(`Reset RPC providers of ${contract.id}`);
+      }
 
-      // Reload the configuration file
-      configLoader.reloadConfig();
+      if (
+        replaced ||
+        contract.fields.some((f) => CONTRACT_VERDICT_FIELDS.includes(f))
+      ) {
+        invalidated += this.invalidateCache(
+          this.verdictCachePrefix(contract.id)
+        );
+        continue;
+      }
 
-      // Clear the cache to ensure fresh data
-      this.clearCache();
+      for (const campaign of contract.campaigns) {
+        if (
+          campaign.change === "removed" ||
+          campaign.fields.some((f) => CAMPAIGN_VERDICT_FIELDS.includes(f))
+        ) {
+          invalidated += this.invalidateCache(
+            this.verdictCachePrefix(contract.id, campaign.id)
+          );
+        }
+      }
+    }
 
-      logger.info("Contract configurations reloaded successfully");
-    } catch (error) {
-      logger.error("Failed to reload contract configurations:", error);
-      throw error;
+    if (invalidated > 0) {
+      logger.info(
+        `Invalidated ${invalidated} cached verdicts after configuration reload`
+      );
     }
   }
 
   /**
-   * Get provider for a specific contract
+   * Remove the cache entries whose key starts with a prefix
+   * @param prefix Cache key prefix, see verdictCachePrefix
+   * @returns Number of removed entries
+   */
+  private invalidateCache(prefix: string): number {
+    return this.cache.del(
+      this.cache.keys().filter((key) => key.startsWith(prefix))
+    );
+  }
+
+  /**
+   * Get the RPC provider pool for a specific contract
    * @param contractId The contract identifier
-   * @returns The JsonRpcProvider for the contract
+   * @returns The RpcProviderPool for the contract
    * @throws Error if contract initialization fails
    */
-  private getProvider(contractId: string): ethers.JsonRpcProvider {
+  private getProvider(contractId: string): RpcProviderPool {
     if (!contractId) {
       throw new Error("Contract ID is required");
     }
@@ -165,18 +297,67 @@ export class BlockchainService {
   }
 
   /**
-   * Log performance statistics
+   * Build topic filters for the contract's interaction events
+   * One filter per (event, user argument) pair, with the address in the
+   * topic position of that argument
+   * @param contractId The contract identifier
+   * @param address Address identifying the user
+   * @returns Labelled topic filters
    */
-  private logStats() {
-    const hitRate = (this.cacheHits / this.queryCount) * 100 || 0;
-    logger.info({
-      message: "Performance Stats",
-      totalQueries: this.queryCount,
-      cacheHitRate: `${hitRate.toFixed(2)}%`,
-      cacheSize: this.cache.getStats().keys,
-    });
-    this.queryCount = 0;
-    this.cacheHits = 0;
+  private getInteractionFilters(
+    contractId: string,
+    address: string
+  ): Array<{ label: string; topics: Array<string | null> }> {
+    const contract = this.getContract(contractId);
+    const { interactionEvents } = configLoader.getContractConfig(contractId);
+    const paddedAddress = ethers.zeroPadValue(address, 32);
+    const filters: Array<{ label: string; topics: Array<string | null> }> = [];
+
+    for (const { event, userArgs } of interactionEvents) {
+      const fragment = contract.interface.getEvent(event);
+      if (!fragment) {
+        throw new Error(
+          `Interaction event ${event} not found on ${contractId}`
+        );
+      }
+
+      const indexedInputs = fragment.inputs.filter((input) => input.indexed);
+      for (const arg of userArgs) {
+        const position = indexedInputs.findIndex((input) => input.name === arg);
+        const topics: Array<string | null> = [fragment.topicHash];
+        for (let i = 0; i < position; i++) {
+          topics.push(null);
+        }
+        topics.push(paddedAddress);
+
+        filters.push({ label: `${fragment.name}.${arg}`, topics });
+      }
+    }
+
+    return filters;
+  }
+
+  /**
+   * Query all interaction event logs involving an address in a block range
+   * @param contractId The contract identifier
+   * @param address Address identifying the user
+   * @param fromBlock Starting block number
+   * @param toBlock Ending block number
+   * @returns Matching logs across all interaction events
+   */
+  private async queryInteractionLogs(
+    contractId: string,
+    address: string,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<ethers.Log[]> {
+    const filters = this.getInteractionFilters(contractId, address);
+    const results = await Promise.all(
+      filters.map((filter) =>
+        this.queryWithRetry(contractId, fromBlock, toBlock, filter.topics)
+      )
+    );
+    return results.flat();
   }
 
   /**
@@ -187,6 +368,7 @@ export class BlockchainService {
    * @param filter Event filter
    * @param retryCount Current retry attempt
    * @returns Array of logs matching the filter
+   * @throws Error if the query still fails after MAX_RETRIES retries
    */
   private async queryWithRetry(
     contractId: string,
@@ -197,16 +379,19 @@ export class BlockchainService {
   ): Promise<ethers.Log[]> {
     try {
       const contract = this.getContract(contractId);
-
-      // Add timeout to the request
-      const timeoutPromise = new Promise<ethers.Log[]>((_, reject) => {
-        setTimeout(() => reject(new Error("Query timeout")), 3000); // 3 second timeout
-      });
-
-      return await Promise.race([
-        contract.queryFilter(filter, fromBlock, toBlock),
-        timeoutPromise,
-      ]);
+      const pool = this.getProvider(contractId);
+
+      // Each endpoint gets a 3 second timeout before failing over to the next one
+      return await pool.execute(
+        `queryFilter ${fromBlock}-${toBlock}`,
+        (provider) =>
+          (contract.connect(provider) as ethers.Contract).queryFilter(
+            filter,
+            fromBlock,
+            toBlock
+          ),
+        3000
+      );
     } catch (error) {
       if (retryCount < MAX_RETRIES) {
         logger.warn(
@@ -230,201 +415,248 @@ export class BlockchainService {
         `Failed after ${MAX_RETRIES} retries for ${contractId}:`,
         error
       );
-      return [];
+      throw new Error(
+        `Log query ${fromBlock}-${toBlock} failed on ${contractId} after ${MAX_RETRIES} retries: ${error}`
+      );
     }
   }
 
   /**
-   * Gets approximate block number for a date
-   * This uses a faster estimation approach rather than binary search
+   * Get the timestamp→block resolver for a chain, shared by all contracts on it
+   * @param chainId Chain ID
+   * @returns The resolver for the chain
    */
-  private async getApproximateBlockForDate(
-    contractId: string,
-    targetDate: Date
-  ): Promise<number> {
-    const provider = this.getProvider(contractId);
-
-    // Get the current block
-    const currentBlock = await provider.getBlockNumber();
-    const latestBlock = await provider.getBlock(currentBlock);
-
-    if (!latestBlock || !latestBlock.timestamp) {
-      throw new Error(`Failed to get latest block timestamp for ${contractId}`);
-    }
-
-    const targetTimestamp = Math.floor(targetDate.getTime() / 1000);
-    const currentTimestamp = latestBlock.timestamp;
-
-    // If target date is in the future, return current block
-    if (targetTimestamp >= currentTimestamp) {
-      return currentBlock;
+  private getBlockResolver(chainId: number): BlockTimestampResolver {
+    let resolver = this.blockResolvers.get(chainId);
+    if (!resolver) {
+      resolver = new BlockTimestampResolver(
+        chainId,
+        configLoader.getEnvConfig().dataDir
+      );
+      this.blockResolvers.set(chainId, resolver);
     }
+    return resolver;
+  }
 
-    // Simple approximation: assume average block time of 2.5 seconds for Base chain
-    const AVERAGE_BLOCK_TIME = 2.5;
-    const timestampDiff = currentTimestamp - targetTimestamp;
-    const estimatedBlocksBack = Math.floor(timestampDiff / AVERAGE_BLOCK_TIME);
-
-    // Ensure we don't go below block 0
-    const estimatedBlock = Math.max(1, currentBlock - estimatedBlocksBack);
+  /**
+   * Gets the exact block number for a date on the contract's chain
+   * @param contractId The contract identifier
+   * @param targetDate Date to resolve
+   * @param mode "after" for the first block at or after the date,
+   *             "before" for the last block at or before it
+   * @returns Block number
+   */
+  private async getBlockForDate(
+    contractId: string,
+    targetDate: Date,
+    mode: BlockSearchMode
+  ): Promise<number> {
+    const pool = this.getProvider(contractId);
+    const { chainId } = configLoader.getContractConfig(contractId);
 
-    logger.debug(
-      `Estimated block for ${targetDate.toISOString()} is ${estimatedBlock}`
-    );
-    return estimatedBlock;
+    return this.getBlockResolver(chainId).resolve(pool, targetDate, mode);
   }
 
   /**
    * Check if there are any direct transactions between the address and the contract
    * This optimized version focuses on the most likely block ranges first
+   * @param strictness "strict" requires a matching event; "heuristic" also
+   *                   accepts a transaction count increase in the range
+   * @param trace Optional decision trace for explain mode
+   * @throws IndeterminateResultError if transaction counts or events could not
+   *         be read, so "no interaction" is never reported for a failed scan
    */
   private async checkDirectTransactionInteractions(
     contractId: string,
     address: string,
     startBlock: number,
-    endBlock: number
+    endBlock: number,
+    strictness: VerificationStrictness,
+    trace?: VerificationTrace
   ): Promise<boolean> {
+    const pool = this.getProvider(contractId);
+    const contractConfig = configLoader.getContractConfig(contractId);
+    const contractAddress = contractConfig.address;
+
+    logger.info(
+      `Checking direct transactions between ${address} and ${contractAddress}`
+    );
+
+    // Try the transaction count approach
+    let addressTxCount: number;
+    let addressTxCountStart: number;
     try {
-      const provider = this.getProvider(contractId);
-      const contractConfig = configLoader.getContractConfig(contractId);
-      const contractAddress = contractConfig.address;
+      addressTxCount = await pool.execute("getTransactionCount", (provider) =>
+        provider.getTransactionCount(address, endBlock)
+      );
+      addressTxCountStart = await pool.execute(
+        "getTransactionCount",
+        (provider) => provider.getTransactionCount(address, startBlock)
+      );
+    } catch (error) {
+      logger.warn(`Error checking transaction counts: ${error}`);
+      trace?.step("transaction-count", false, { detail: `Error: ${error}` });
+      throw new IndeterminateResultError(
+        `Could not read transaction counts of ${address}`
+      );
+    }
 
+    if (addressTxCount <= addressTxCountStart) {
       logger.info(
-        `Checking direct transactions between ${address} and ${contractAddress}`
+        `No transaction count difference found for address ${address} in the block range.`
       );
+      trace?.step("transaction-count", false, {
+        fromBlock: startBlock,
+        toBlock: endBlock,
+        detail: "No transactions sent in range",
+      });
+      logger.info(
+        `No direct transactions found between ${address} and ${contractAddress}`
+      );
+      return false;
+    }
 
-      // Try the transaction count approach
-      try {
-        const addressTxCount = await provider.getTransactionCount(
-          address,
-          endBlock
-        );
-        const addressTxCountStart = await provider.getTransactionCount(
-          address,
-          startBlock
-        );
-
-        if (addressTxCount > addressTxCountStart) {
-          const txDiff = addressTxCount - addressTxCountStart;
-          logger.info(
-            `Address ${address} has ${txDiff} transactions in the block range.`
-          );
+    const txDiff = addressTxCount - addressTxCountStart;
+    logger.info(
+      `Address ${address} has ${txDiff} transactions in the block range.`
+    );
+    trace?.step("transaction-count", true, {
+      fromBlock: startBlock,
+      toBlock: endBlock,
+      detail: `${txDiff} transactions sent in range`,
+    });
 
-          // Calculate block ranges to check - prioritize the later part of the range first
-          // as recent transactions are more likely
-          const totalBlocks = endBlock - startBlock;
-          const ranges = [];
+    // Calculate block ranges to check - prioritize the later part of the range first
+    // as recent transactions are more likely
+    const totalBlocks = endBlock - startBlock;
+    const ranges = [];
 
-          // Check the most recent third first
-          const thirdSize = Math.floor(totalBlocks / 3);
-          ranges.push({
-            from: endBlock - thirdSize,
-            to: endBlock,
-          });
+    // Check the most recent third first
+    const thirdSize = Math.floor(totalBlocks / 3);
+    ranges.push({
+      from: endBlock - thirdSize,
+      to: endBlock,
+    });
 
-          // Then the middle third
-          ranges.push({
-            from: startBlock + thirdSize,
-            to: endBlock - thirdSize,
-          });
+    // Then the middle third
+    ranges.push({
+      from: startBlock + thirdSize,
+      to: endBlock - thirdSize,
+    });
 
-          // Then the earliest third
-          ranges.push({
-            from: startBlock,
-            to: startBlock + thirdSize,
-          });
+    // Then the earliest third
+    ranges.push({
+      from: startBlock,
+      to: startBlock + thirdSize,
+    });
 
-          // Check each range
-          for (const range of ranges) {
-            // Check contract logs where the address is involved in Transfer events
-            try {
-              // Check as sender
-              const sentLogs = await provider.getLogs({
-                address: contractAddress,
-                fromBlock: range.from,
-                toBlock: range.to,
-                topics: [
-                  ethers.id("Transfer(address,address,uint256)"),
-                  ethers.zeroPadValue(address, 32),
-                ],
-              });
-
-              if (sentLogs.length > 0) {
-                logger.info(
-                  `Found ${sentLogs.length} Transfer events from address in block range ${range.from}-${range.to}`
-                );
-                return true;
-              }
-
-              // Check as recipient
-              const receivedLogs = await provider.getLogs({
-                address: contractAddress,
-                fromBlock: range.from,
-                toBlock: range.to,
-                topics: [
-                  ethers.id("Transfer(address,address,uint256)"),
-                  null, // any sender
-                  ethers.zeroPadValue(address, 32), // to this address
-                ],
-              });
-
-              if (receivedLogs.length > 0) {
-                logger.info(
-                  `Found ${receivedLogs.length} Transfer events to address in block range ${range.from}-${range.to}`
-                );
-                return true;
-              }
-            } catch (error) {
-              // logger.warn(
-              //   `Error checking events in range ${range.from}-${range.to}: ${error}`
-              // );
-            }
-          }
+    // Set when a range could not be scanned, so "no event" is not definite
+    let failed = false;
 
-          // If we found transaction count differences but couldn't pinpoint the exact interactions,
-          // it's very likely this address has interacted with the contract
-          logger.info(
-            `Found transaction count difference but couldn't verify contract interaction. Assuming true.`
-          );
-          return true;
-        } else {
-          logger.info(
-            `No transaction count difference found for address ${address} in the block range.`
+    // Check each range
+    for (const range of ranges) {
+      // Check contract logs where the address appears in an interaction event
+      try {
+        for (const filter of this.getInteractionFilters(contractId, address)) {
+          const logs = await pool.execute("getLogs", (provider) =>
+            provider.getLogs({
+              address: contractAddress,
+              fromBlock: range.from,
+              toBlock: range.to,
+              topics: filter.topics,
+            })
           );
+
+          if (logs.length > 0) {
+            logger.info(
+              `Found ${logs.length} ${filter.label} events for address in block range ${range.from}-${range.to}`
+            );
+            trace?.step("direct-transactions", true, {
+              fromBlock: range.from,
+              toBlock: range.to,
+              detail: `${logs.length} ${filter.label} events`,
+            });
+            this.recordEvidence(trace, contractId, logs[0]);
+            return true;
+          }
         }
+        trace?.step("direct-transactions", false, {
+          fromBlock: range.from,
+          toBlock: range.to,
+        });
       } catch (error) {
-        logger.warn(`Error checking transaction counts: ${error}`);
+        logger.warn(
+          `Error checking events in range ${range.from}-${range.to}: ${error}`
+        );
+        failed = true;
+        trace?.step("direct-transactions", false, {
+          fromBlock: range.from,
+          toBlock: range.to,
+          detail: `Error: ${error}`,
+        });
       }
+    }
 
-      logger.info(
-        `No direct transactions found between ${address} and ${contractAddress}`
+    // Transactions were sent but none matched an interaction event. Only
+    // campaigns that opted into the heuristic accept that as eligible
+    if (strictness === "heuristic") {
+      logger.warn(
+        `Found transaction count difference but couldn't verify contract interaction for ${address}. Assuming true (heuristic mode).`
+      );
+      if (trace) {
+        trace.heuristic = true;
+      }
+      trace?.step("transaction-count-heuristic", true, {
+        fromBlock: startBlock,
+        toBlock: endBlock,
+        detail:
+          "No matching event found; assumed eligible from the transaction count (heuristic mode)",
+      });
+      return true;
+    }
+
+    if (failed) {
+      throw new IndeterminateResultError(
+        `Could not scan events of ${address} on ${contractId}`
       );
-      return false;
-    } catch (error) {
-      logger.error(`Error checking direct transactions: ${error}`);
-      return false;
     }
+
+    logger.info(
+      `Found transaction count difference but no matching event for ${address}; strict mode requires one`
+    );
+    return false;
   }
 
   /**
    * Sample-based activity check with direct transaction verification
+   * Runs for up to BACKGROUND_VERIFICATION_TIME so it can finish in the
+   * background after the request timed out
+   * @param strictness Evidence required by the direct transaction check
+   * @param trace Optional decision trace for explain mode
+   * @returns True/false, or null when RPC failures or the time limit left
+   *          part of the range unchecked
    */
   private async checkActivityFast(
     contractId: string,
     address: string,
     startBlock: number,
-    endBlock: number
-  ): Promise<boolean> {
+    endBlock: number,
+    strictness: VerificationStrictness,
+    trace?: VerificationTrace
+  ): Promise<boolean | null> {
     if (!contractId || !address) {
       throw new Error("Contract ID and address are required");
     }
 
-    const rangeStart = performance.now();
+    const checkStart = performance.now();
+    // Set when a query failed, so "nothing found" is not a definite answer
+    let incomplete = false;
 
     try {
-      const provider = this.getProvider(contractId);
-      const contract = this.getContract(contractId);
-      const currentBlock = await provider.getBlockNumber();
+      const pool = this.getProvider(contractId);
+      const currentBlock = await pool.execute("getBlockNumber", (provider) =>
+        provider.getBlockNumber()
+      );
 
       // Ensure valid block range
       startBlock = Math.max(1, startBlock);
@@ -437,7 +669,9 @@ export class BlockchainService {
             contractId,
             address,
             startBlock,
-            endBlock
+            endBlock,
+            strictness,
+            trace
           );
 
         if (hasDirectInteractions) {
@@ -446,6 +680,9 @@ export class BlockchainService {
         }
       } catch (error) {
         logger.warn(`Error checking direct transactions: ${error}`);
+        // Large ranges are only sampled below, so nothing found there is no
+        // longer a definite answer
+        incomplete = true;
       }
 
       // 1. Check recent blocks (most likely to have activity)
@@ -460,27 +697,30 @@ export class BlockchainService {
         );
 
         try {
-          const [sentLogs, receivedLogs] = await Promise.all([
-            this.queryWithRetry(
-              contractId,
-              recentStartBlock,
-              endBlock,
-              contract.filters.Transfer(address)
-            ),
-            this.queryWithRetry(
-              contractId,
-              recentStartBlock,
-              endBlock,
-              contract.filters.Transfer(null, address)
-            ),
-          ]);
+          const logs = await this.queryInteractionLogs(
+            contractId,
+            address,
+            recentStartBlock,
+            endBlock
+          );
 
-          if (sentLogs.length > 0 || receivedLogs.length > 0) {
+          trace?.step("recent-blocks", logs.length > 0, {
+            fromBlock: recentStartBlock,
+            toBlock: endBlock,
+          });
+          if (logs.length > 0) {
             logger.info(`Found activity for ${address} in recent blocks`);
+            this.recordEvidence(trace, contractId, logs[0]);
             return true;
           }
         } catch (error) {
           logger.warn(`Error checking recent blocks: ${error}`);
+          incomplete = true;
+          trace?.step("recent-blocks", false, {
+            fromBlock: recentStartBlock,
+            toBlock: endBlock,
+            detail: `Error: ${error}`,
+          });
         }
       }
 
@@ -521,41 +761,49 @@ export class BlockchainService {
           const rangeEnd = Math.min(endBlock, point + 2000);
 
           try {
-            const [sentLogs, receivedLogs] = await Promise.all([
-              this.queryWithRetry(
-                contractId,
-                rangeStart,
-                rangeEnd,
-                contract.filters.Transfer(address)
-              ),
-              this.queryWithRetry(
-                contractId,
-                rangeStart,
-                rangeEnd,
-                contract.filters.Transfer(null, address)
-              ),
-            ]);
-
-            if (sentLogs.length > 0 || receivedLogs.length > 0) {
+            const logs = await this.queryInteractionLogs(
+              contractId,
+              address,
+              rangeStart,
+              rangeEnd
+            );
+
+            trace?.step("sampled-range", logs.length > 0, {
+              fromBlock: rangeStart,
+              toBlock: rangeEnd,
+            });
+            if (logs.length > 0) {
               logger.info(
                 `Found activity for ${address} in sampled block range ${rangeStart}-${rangeEnd}`
               );
+              this.recordEvidence(trace, contractId, logs[0]);
               return true;
             }
           } catch (error) {
             logger.warn(
               `Error checking sampled range ${rangeStart}-${rangeEnd}: ${error}`
             );
+            incomplete = true;
+            trace?.step("sampled-range", false, {
+              fromBlock: rangeStart,
+              toBlock: rangeEnd,
+              detail: `Error: ${error}`,
+            });
           }
 
           // Check if we're reaching timeout
-          if (performance.now() - rangeStart > MAX_VERIFICATION_TIME) {
+          if (performance.now() - checkStart > BACKGROUND_VERIFICATION_TIME) {
             logger.warn(
               `Verification timeout reached after checking ${
                 samplingPoints.indexOf(point) + 1
               } sample points`
             );
-            return false;
+            trace?.step("timeout", false, {
+              detail: `Stopped after ${
+                samplingPoints.indexOf(point) + 1
+              } sample points`,
+            });
+            return null;
           }
         }
 
@@ -569,241 +817,656 @@ export class BlockchainService {
             `Performing final check of middle range ${midRangeStart}-${midRangeEnd}`
           );
 
-          const [sentLogs, receivedLogs] = await Promise.all([
-            this.queryWithRetry(
-              contractId,
-              midRangeStart,
-              midRangeEnd,
-              contract.filters.Transfer(address)
-            ),
-            this.queryWithRetry(
-              contractId,
-              midRangeStart,
-              midRangeEnd,
-              contract.filters.Transfer(null, address)
-            ),
-          ]);
+          const logs = await this.queryInteractionLogs(
+            contractId,
+            address,
+            midRangeStart,
+            midRangeEnd
+          );
 
-          if (sentLogs.length > 0 || receivedLogs.length > 0) {
+          trace?.step("middle-range", logs.length > 0, {
+            fromBlock: midRangeStart,
+            toBlock: midRangeEnd,
+          });
+          if (logs.length > 0) {
             logger.info(
               `Found activity for ${address} in middle range ${midRangeStart}-${midRangeEnd}`
             );
+            this.recordEvidence(trace, contractId, logs[0]);
             return true;
           }
         } catch (error) {
           logger.warn(`Error checking middle range: ${error}`);
+          incomplete = true;
+          trace?.step("middle-range", false, { detail: `Error: ${error}` });
         }
 
         logger.info(
-          `No activity found for ${address} in block range after ${(
-            performance.now() - rangeStart
-          ).toFixed(2)}ms`
+          `No activity found for ${address} in block range${
+            incomplete ? " (some ranges unchecked)" : ""
+          } after ${(performance.now() - checkStart).toFixed(2)}ms`
         );
-        return false;
+        return incomplete ? null : false;
       } else {
         // For smaller ranges, use higher coverage with batch checking
         const batchSize = 3000;
+        // The full scan below covers the recent blocks again
+        incomplete = false;
 
         for (let i = startBlock; i < endBlock; i += batchSize) {
           const batchEnd = Math.min(i + batchSize, endBlock);
 
           try {
-            const [sentLogs, receivedLogs] = await Promise.all([
-              this.queryWithRetry(
-                contractId,
-                i,
-                batchEnd,
-                contract.filters.Transfer(address)
-              ),
-              this.queryWithRetry(
-                contractId,
-                i,
-                batchEnd,
-                contract.filters.Transfer(null, address)
-              ),
-            ]);
-
-            if (sentLogs.length > 0 || receivedLogs.length > 0) {
+            const logs = await this.queryInteractionLogs(
+              contractId,
+              address,
+              i,
+              batchEnd
+            );
+
+            trace?.step("range-scan", logs.length > 0, {
+              fromBlock: i,
+              toBlock: batchEnd,
+            });
+            if (logs.length > 0) {
               logger.info(
                 `Found activity for ${address} in block range ${i}-${batchEnd}`
               );
+              this.recordEvidence(trace, contractId, logs[0]);
               return true;
             }
           } catch (error) {
             logger.warn(`Error checking range ${i}-${batchEnd}: ${error}`);
+            incomplete = true;
+            trace?.step("range-scan", false, {
+              fromBlock: i,
+              toBlock: batchEnd,
+              detail: `Error: ${error}`,
+            });
           }
 
           // Check if we're reaching timeout
-          if (performance.now() - rangeStart > MAX_VERIFICATION_TIME) {
+          if (performance.now() - checkStart > BACKGROUND_VERIFICATION_TIME) {
             logger.warn(
               `Verification timeout reached after checking up to block ${batchEnd}`
             );
-            return false;
+            trace?.step("timeout", false, {
+              detail: `Stopped after scanning up to block ${batchEnd}`,
+            });
+            return null;
           }
         }
       }
 
       logger.info(
-        `No activity found for ${address} in block range after ${(
-          performance.now() - rangeStart
-        ).toFixed(2)}ms`
+        `No activity found for ${address} in block range${
+          incomplete ? " (some ranges unchecked)" : ""
+        } after ${(performance.now() - checkStart).toFixed(2)}ms`
       );
-      return false;
+      return incomplete ? null : false;
     } catch (error) {
       logger.error(`Error in fast activity check: ${error}`);
-      return false;
+      return null;
     }
   }
 
   /**
-   * Check if an address has interacted with a specific contract within a time range
-   * @param address Ethereum address to check
-   * @param startDate Start date of the time range
-   * @param endDate End date of the time range
-   * @param contractId Contract identifier
-   * @param campaignId Optional campaign identifier
-   * @returns True if interaction found
-   * @throws Error if contractId is not provided or not found
+   * Check the local event index for an interaction in a block range
+   * @param contractId The contract identifier
+   * @param address Address identifying the user
+   * @param startBlock Starting block number
+   * @param endBlock Ending block number
+   * @param trace Optional decision trace for explain mode
+   * @returns Whether an indexed interaction was found and the first block
+   *          not covered by the index (endBlock + 1 when fully covered),
+   *          or null when the index does not cover the start of the range
    */
-  async hasInteractedInTimeRange(
-    address: string,
-    startDate: Date,
-    endDate: Date,
+  private checkIndex(
     contractId: string,
-    campaignId?: string
-  ): Promise<boolean> {
-    if (!address || !startDate || !endDate || !contractId) {
-      throw new Error(
-        "Address, start date, end date, and contract ID are all required"
-      );
+    address: string,
+    startBlock: number,
+    endBlock: number,
+    trace?: VerificationTrace
+  ): { found: boolean; nextBlock: number } | null {
+    const coverage = this.indexer.getCoverage(contractId);
+    if (!coverage) {
+      return null;
     }
 
-    const start = performance.now();
-    const normalizedAddress = address.toLowerCase();
-
-    this.queryCount++;
-
-    // Create a unique cache key for this address + time range + contract + campaign
-    const cacheKey = `${contractId}_${
-      campaignId || "custom"
-    }_${normalizedAddress}_${startDate.getTime()}_${endDate.getTime()}`;
-
-    const cached = this.cache.get(cacheKey);
-    if (cached !== undefined) {
-      this.cacheHits++;
+    const from = Math.max(startBlock, coverage.startBlock);
+    const to = Math.min(endBlock, coverage.lastBlock);
+    if (
+      from <= to &&
+      this.indexer.hasInteraction(contractId, address, from, to)
+    ) {
       logger.info(
-        `Cache hit for ${cacheKey}, time: ${performance.now() - start}ms`
+        `Found indexed interaction for ${address} on ${contractId} in blocks ${from}-${to}`
       );
-      return cached as boolean;
-    }
-
-    try {
-      // Validate the campaign dates if a campaign is specified
-      if (campaignId) {
-        // Get campaign configuration
-        const campaignConfig = configLoader.getCampaignConfig(
+      if (trace) {
+        trace.step("index", true, { fromBlock: from, toBlock: to });
+        const [first] = this.indexer.getInteractions(
           contractId,
-          campaignId
+          address,
+          from,
+          to
         );
+        this.recordEvidence(trace, contractId, first);
+      }
+      return { found: true, nextBlock: endBlock + 1 };
+    }
 
-        if (!campaignConfig) {
-          throw new Error(`Campaign not found: ${campaignId}`);
-        }
+    if (from <= to) {
+      trace?.step("index", false, { fromBlock: from, toBlock: to });
+    }
 
-        // Override date range with campaign dates
-        startDate = new Date(campaignConfig.startDate);
-        endDate = new Date(campaignConfig.endDate);
-      }
+    // The part of the range before the index starts still needs a live scan
+    if (coverage.startBlock > startBlock) {
+      return null;
+    }
 
-      // Ensure the contract is initialized
-      if (!this.contracts.has(contractId)) {
-        this.initializeContract(contractId);
+    return {
+      found: false,
+      nextBlock: Math.max(startBlock, coverage.lastBlock + 1),
+    };
+  }
+
+  /**
+   * Collect every interaction log for an address in a block range
+   * Uses the local index where it covers the range and scans the rest
+   * live in BLOCK_RANGE chunks (no sampling)
+   * @param contractId The contract identifier
+   * @param address Address identifying the user
+   * @param startBlock Starting block number
+   * @param endBlock Ending block number
+   * @returns Deduplicated logs, ordered by block and log index
+   */
+  private async collectInteractionLogs(
+    contractId: string,
+    address: string,
+    startBlock: number,
+    endBlock: number
+  ): Promise<IIndexedLog[]> {
+    const logsById = new Map<string, IIndexedLog>();
+
+    const coverage = this.indexer.getCoverage(contractId);
+    if (coverage && coverage.startBlock <= startBlock) {
+      const indexedTo = Math.min(endBlock, coverage.lastBlock);
+      for (const log of this.indexer.getInteractions(
+        contractId,
+        address,
+        startBlock,
+        indexedTo
+      )) {
+        logsById.set(`${log.transactionHash}:${log.index}`, log);
       }
+      startBlock = Math.max(startBlock, coverage.lastBlock + 1);
+    }
 
-      // First check if the address is a minter - this is independent of time range
-      const isMinter = await this.checkMinterRole(
+    for (let from = startBlock; from <= endBlock; from += BLOCK_RANGE) {
+      const to = Math.min(from + BLOCK_RANGE - 1, endBlock);
+      const logs = await this.queryInteractionLogs(
         contractId,
-        normalizedAddress
+        address,
+        from,
+        to
       );
-      if (isMinter) {
-        this.cache.set(cacheKey, true);
-        const elapsedSeconds = (performance.now() - start) / 1000;
-        logger.info(
-          `Address ${normalizedAddress} is minter on ${contractId}, time: ${elapsedSeconds.toFixed(
-            2
+
+      // A log can match several filters (e.g. a transfer to self)
+      for (const log of logs) {
+        logsById.set(`${log.transactionHash}:${log.index}`, log);
+      }
+    }
+
+    return [...logsById.values()].sort(
+      (a, b) => a.blockNumber - b.blockNumber || a.index - b.index
+    );
+  }
+
+  /**
+   * Evaluate a campaign's quantitative criteria against the decoded logs
+   * @param contractId The contract identifier
+   * @param address Address identifying the user
+   * @param criteria Campaign criteria
+   * @param startBlock Starting block number
+   * @param endBlock Ending block number
+   * @param trace Optional decision trace for explain mode
+   * @returns True if every configured threshold is met
+   */
+  private async evaluateCampaignCriteria(
+    contractId: string,
+    address: string,
+    criteria: ICampaignCriteria,
+    startBlock: number,
+    endBlock: number,
+    trace?: VerificationTrace
+  ): Promise<boolean> {
+    const logs = await this.collectInteractionLogs(
+      contractId,
+      address,
+      startBlock,
+      endBlock
+    );
+    trace?.step("collect-logs", logs.length > 0, {
+      fromBlock: startBlock,
+      toBlock: endBlock,
+      detail: `${logs.length} interaction logs`,
+    });
+
+    return this.meetsCampaignCriteria(
+      contractId,
+      address,
+      criteria,
+      logs,
+      trace
+    );
+  }
+
+  /**
+   * Check already collected interaction logs against a campaign's criteria
+   * @param contractId The contract identifier
+   * @param address Address identifying the user
+   * @param criteria Campaign criteria
+   * @param logs Interaction logs of the address in the campaign window
+   * @param trace Optional decision trace for explain mode
+   * @returns True if every configured threshold is met
+   */
+  private async meetsCampaignCriteria(
+    contractId: string,
+    address: string,
+    criteria: ICampaignCriteria,
+    logs: IIndexedLog[],
+    trace?: VerificationTrace
+  ): Promise<boolean> {
+    const contract = this.getContract(contractId);
+
+    // Decode and keep only the events counted by the campaign
+    const events = logs
+      .map((log) => ({ log, parsed: contract.interface.parseLog(log) }))
+      .filter(
+        ({ parsed }) =>
+          parsed !== null &&
+          (!criteria.events || criteria.events.includes(parsed.name))
+      );
+
+    if (criteria.minEventCount && events.length < criteria.minEventCount) {
+      logger.info(
+        `${address} has ${events.length}/${criteria.minEventCount} required events on ${contractId}`
+      );
+      trace?.step("criteria", false, {
+        detail: `${events.length}/${criteria.minEventCount} required events`,
+      });
+      return false;
+    }
+
+    if (criteria.minTotalValue) {
+      const required = ethers.parseUnits(
+        criteria.minTotalValue,
+        criteria.valueDecimals
+      );
+      const total = events.reduce(
+        (sum, { parsed }) => sum + BigInt(parsed!.args[criteria.valueArg]),
+        BigInt(0)
+      );
+
+      if (total < required) {
+        logger.info(
+          `${address} has total ${criteria.valueArg} ${ethers.formatUnits(
+            total,
+            criteria.valueDecimals
+          )}/${criteria.minTotalValue} on ${contractId}`
+        );
+        trace?.step("criteria", false, {
+          detail: `Total ${criteria.valueArg} ${ethers.formatUnits(
+            total,
+            criteria.valueDecimals
+          )}/${criteria.minTotalValue}`,
+        });
+        return false;
+      }
+    }
+
+    if (criteria.minDistinctDays) {
+      const blockNumbers = [
+        ...new Set(events.map(({ log }) => log.blockNumber)),
+      ];
+      const days = new Set<string>();
+
+      for (const blockNumber of blockNumbers) {
+        const timestamp = await this.getBlockTimestamp(contractId, blockNumber);
+        // Days are counted in UTC
+        days.add(new Date(timestamp * 1000).toISOString().slice(0, 10));
+        if (days.size >= criteria.minDistinctDays) {
+          break;
+        }
+      }
+
+      if (days.size < criteria.minDistinctDays) {
+        logger.info(
+          `${address} was active on ${days.size}/${criteria.minDistinctDays} required days on ${contractId}`
+        );
+        trace?.step("criteria", false, {
+          detail: `Active on ${days.size}/${criteria.minDistinctDays} required days`,
+        });
+        return false;
+      }
+    }
+
+    logger.info(
+      `${address} meets campaign criteria on ${contractId} with ${events.length} events`
+    );
+    trace?.step("criteria", true, {
+      detail: `${events.length} qualifying events`,
+    });
+    if (trace && events.length > 0) {
+      trace.setEvidence(events[0].log, events[0].parsed!.name);
+    }
+    return true;
+  }
+
+  /**
+   * Run a verification check under the request time limit
+   * The check is shared with concurrent requests for the same cache key and
+   * its definite result is cached whenever it completes, so a check that
+   * outlives the time limit finishes in the background
+   * @param contractId Contract identifier, for metrics
+   * @param cacheKey Cache key of the verification
+   * @param label Description for logs
+   * @param check The check; resolves null when indeterminate
+   * @param trace Optional decision trace; traced checks always run fresh
+   * @returns Definite result
+   * @throws IndeterminateResultError if the check failed or timed out
+   */
+  private async runVerification(
+    contractId: string,
+    cacheKey: string,
+    label: string,
+    check: () => Promise<boolean | null>,
+    trace?: VerificationTrace
+  ): Promise<boolean> {
+    let task = trace ? undefined : this.pendingChecks.get(cacheKey);
+
+    if (!task) {
+      const started = check()
+        .catch((error) => {
+          logger.warn(`Verification check failed for ${label}: ${error}`);
+          return null;
+        })
+        .then((result) => {
+          if (result !== null) {
+            this.cache.set(cacheKey, result);
+          }
+          if (this.pendingChecks.get(cacheKey) === started) {
+            this.pendingChecks.delete(cacheKey);
+          }
+          return result;
+        });
+      task = started;
+      if (!trace) {
+        this.pendingChecks.set(cacheKey, started);
+      }
+    } else {
+      logger.info(`Joining running verification for ${label}`);
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<"timeout">((resolve) => {
+      timer = setTimeout(() => resolve("timeout"), MAX_VERIFICATION_TIME);
+    });
+
+    const result = await Promise.race([task, timeout]);
+    clearTimeout(timer);
+
+    if (result === "timeout") {
+      verificationTimeouts.inc({ contract: contractId });
+      logger.warn(
+        `Verification timeout reached for ${label}, continuing in background`
+      );
+      trace?.step("timeout", false, {
+        detail: "Time limit reached, the check continues in the background",
+      });
+      throw new IndeterminateResultError(
+        `Verification for ${label} is still running`
+      );
+    }
+
+    if (result === null) {
+      trace?.step("indeterminate", false, {
+        detail: "RPC failures left part of the range unchecked",
+      });
+      throw new IndeterminateResultError(
+        `Verification for ${label} could not be completed`
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Check if an address has interacted with a specific contract within a time range
+   * @param address Ethereum address to check
+   * @param startDate Start date of the time range
+   * @param endDate End date of the time range
+   * @param contractId Contract identifier
+   * @param campaignId Optional campaign identifier; the range must then be a
+   *                   window of the campaign (see ConfigLoader.getCampaignWindow)
+   * @param trace Optional decision trace for explain mode; bypasses the cache
+   *              so the evidence is collected
+   * @returns True if interaction found
+   * @throws Error if contractId is not provided or not found
+   * @throws IndeterminateResultError if the check could not complete in time
+   */
+  async hasInteractedInTimeRange(
+    address: string,
+    startDate: Date,
+    endDate: Date,
+    contractId: string,
+    campaignId?: string,
+    trace?: VerificationTrace
+  ): Promise<boolean> {
+    if (!address || !startDate || !endDate || !contractId) {
+      throw new Error(
+        "Address, start date, end date, and contract ID are all required"
+      );
+    }
+
+    const start = performance.now();
+    const normalizedAddress = address.toLowerCase();
+
+    // Create a unique cache key for this address + time range + contract + campaign
+    const cacheKey = this.timeRangeCacheKey(
+      contractId,
+      campaignId,
+      normalizedAddress,
+      startDate,
+      endDate
+    );
+
+    // Finalized campaign windows are answered from their frozen results
+    const frozen = campaignId
+      ? campaignSnapshotStore.isEligible(
+          contractId,
+          campaignId,
+          startDate,
+          endDate,
+          normalizedAddress
+        )
+      : undefined;
+    if (frozen !== undefined) {
+      const { startBlock, endBlock, index } = campaignSnapshotStore.getWindow(
+        contractId,
+        campaignId as string,
+        startDate,
+        endDate
+      ) as IFrozenWindow;
+      trace?.setBlockRange(startBlock, endBlock);
+      trace?.step("finalized", frozen, {
+        fromBlock: startBlock,
+        toBlock: endBlock,
+        detail: `Final result of window ${index}`,
+      });
+      logger.info(
+        `Final result for ${normalizedAddress} on ${contractId}/${campaignId}: ${frozen}`
+      );
+      return frozen;
+    }
+
+    const cached = this.getCachedVerdict(cacheKey, trace);
+    if (cached !== undefined) {
+      logger.info(
+        `Cache hit for ${cacheKey}, time: ${performance.now() - start}ms`
+      );
+      return cached;
+    }
+
+    try {
+      // Quantitative criteria of the campaign, if any
+      let criteria: ICampaignCriteria | undefined;
+      // Only campaigns can opt into the transaction count heuristic
+      let strictness: VerificationStrictness = "strict";
+
+      // Campaign rules apply within the given campaign window
+      if (campaignId) {
+        // Get campaign configuration
+        const campaignConfig = configLoader.getCampaignConfig(
+          contractId,
+          campaignId
+        );
+
+        if (!campaignConfig) {
+          throw new Error(`Campaign not found: ${campaignId}`);
+        }
+
+        criteria = campaignConfig.criteria;
+        strictness = campaignConfig.strictness;
+      }
+
+      // Ensure the contract is initialized
+      if (!this.contracts.has(contractId)) {
+        this.initializeContract(contractId);
+      }
+
+      // First check if the address is a minter - this is independent of time range.
+      // Campaigns with quantitative criteria always require matching events.
+      const isMinter =
+        !criteria &&
+        (await this.checkMinterRole(contractId, normalizedAddress));
+      if (!criteria) {
+        trace?.step("minter", isMinter);
+      }
+      if (isMinter) {
+        this.cache.set(cacheKey, true);
+        const elapsedSeconds = (performance.now() - start) / 1000;
+        logger.info(
+          `Address ${normalizedAddress} is minter on ${contractId}, time: ${elapsedSeconds.toFixed(
+            2
           )} seconds`
         );
         return true;
       }
 
-      // Convert dates to block numbers using the fast approximation method
+      // Convert dates to exact block numbers
       logger.debug(
         `Converting dates to blocks on ${contractId}: ${startDate.toISOString()} - ${endDate.toISOString()}`
       );
-      const startBlock = await this.getApproximateBlockForDate(
+      const startBlock = await this.getBlockForDate(
         contractId,
-        startDate
+        startDate,
+        "after"
       );
-      const endBlock = await this.getApproximateBlockForDate(
+      const endBlock = await this.getBlockForDate(
         contractId,
-        endDate
+        endDate,
+        "before"
       );
 
       logger.debug(
-        `Date range ${startDate.toISOString()} to ${endDate.toISOString()} corresponds to approximately blocks ${startBlock} to ${endBlock}`
+        `Date range ${startDate.toISOString()} to ${endDate.toISOString()} corresponds to blocks ${startBlock} to ${endBlock}`
       );
+      trace?.setBlockRange(startBlock, endBlock);
+
+      // No blocks were produced inside the range
+      if (endBlock < startBlock) {
+        trace?.step("block-range", false, {
+          detail: "No blocks in time range",
+        });
+        this.cache.set(cacheKey, false);
+        logger.info(
+          `No blocks in time range for ${normalizedAddress} on ${contractId}`
+        );
+        return false;
+      }
 
-      // IMPORTANT CHANGE: Check for direct transactions first, before any other checks
-      // This is what was getting cut off by the timeout
-      try {
-        const hasDirectInteractions =
-          await this.checkDirectTransactionInteractions(
-            contractId,
-            normalizedAddress,
-            startBlock,
-            endBlock
-          );
+      // Campaigns with quantitative criteria need every matching event in the
+      // range, so they skip the early-exit checks below
+      if (criteria) {
+        // Runs in the background past the time limit; only a definite result
+        // is cached
+        const meetsCriteria = await this.runVerification(
+          contractId,
+          cacheKey,
+          `${normalizedAddress} on ${contractId}, campaign ${campaignId}`,
+          () =>
+            this.evaluateCampaignCriteria(
+              contractId,
+              normalizedAddress,
+              criteria as ICampaignCriteria,
+              startBlock,
+              endBlock,
+              trace
+            ),
+          trace
+        );
 
-        if (hasDirectInteractions) {
-          // We found direct interactions - cache and return true
-          this.cache.set(cacheKey, true);
-          const elapsedSeconds = (performance.now() - start) / 1000;
-          logger.info(
-            `Found direct interactions for ${normalizedAddress} on ${contractId}, total time: ${elapsedSeconds.toFixed(
-              2
-            )} seconds`
-          );
-          return true;
-        }
-      } catch (error) {
-        logger.warn(`Error in direct transaction check: ${error}`);
-        // Continue with other checks
+        const elapsedSeconds = (performance.now() - start) / 1000;
+        logger.info(
+          `Criteria check result for ${normalizedAddress} on ${contractId}, campaign ${campaignId}: ${meetsCriteria}, total time: ${elapsedSeconds.toFixed(
+            2
+          )} seconds`
+        );
+        return meetsCriteria;
       }
 
-      // Add a timeout for the rest of the verification process
-      // This only applies to the activity check, not the direct transaction check we already did
-      const verificationTimeoutPromise = new Promise<boolean>((resolve) => {
-        setTimeout(() => {
-          logger.warn(
-            `Overall verification timeout reached for ${address} on ${contractId}`
-          );
-          resolve(false);
-        }, MAX_VERIFICATION_TIME);
-      });
+      // Answer from the local index where it covers the range; only the
+      // unindexed tail is scanned live
+      const indexed = this.checkIndex(
+        contractId,
+        normalizedAddress,
+        startBlock,
+        endBlock,
+        trace
+      );
+      if (indexed && (indexed.found || indexed.nextBlock > endBlock)) {
+        this.cache.set(cacheKey, indexed.found);
+        const elapsedSeconds = (performance.now() - start) / 1000;
+        logger.info(
+          `Index result for ${normalizedAddress} on ${contractId} in time range: ${
+            indexed.found
+          }, total time: ${elapsedSeconds.toFixed(2)} seconds`
+        );
+        return indexed.found;
+      }
+      const scanStartBlock = indexed ? indexed.nextBlock : startBlock;
 
-      // Check if the address had activity using the fast method (with timeout)
-      const hasActivity = await Promise.race([
-        this.checkActivityFast(
-          contractId,
-          normalizedAddress,
-          startBlock,
-          endBlock
-        ),
-        verificationTimeoutPromise,
-      ]);
+      // Check if the address had activity using the fast method, starting with
+      // the direct transaction check. A check that outlives the time limit
+      // keeps running in the background and caches its result once it
+      // completes; the caller gets an indeterminate answer
+      const hasActivity = await this.runVerification(
+        contractId,
+        cacheKey,
+        `${normalizedAddress} on ${contractId} in time range`,
+        () =>
+          this.checkActivityFast(
+            contractId,
+            normalizedAddress,
+            scanStartBlock,
+            endBlock,
+            strictness,
+            trace
+          ),
+        trace
+      );
 
-      // Cache and return the result
-      this.cache.set(cacheKey, hasActivity);
       const elapsedSeconds = (performance.now() - start) / 1000;
       logger.info(
         `Activity check result for ${normalizedAddress} on ${contractId} in time range: ${hasActivity}, total time: ${elapsedSeconds.toFixed(
@@ -812,6 +1475,14 @@ export class BlockchainService {
       );
       return hasActivity;
     } catch (error) {
+      if (error instanceof IndeterminateResultError) {
+        throw error;
+      }
+      if (error instanceof RpcUnavailableError) {
+        throw new IndeterminateResultError(
+          `Verification for ${address} on ${contractId} in time range could not be completed: ${error.message}`
+        );
+      }
       const elapsedSeconds = (performance.now() - start) / 1000;
       logger.error(
         `Error checking interactions in time range on ${contractId}, time: ${elapsedSeconds.toFixed(
@@ -829,13 +1500,17 @@ export class BlockchainService {
    * @param address Ethereum address to check
    * @param contractId Contract identifier
    * @param campaignId Optional campaign identifier
+   * @param trace Optional decision trace for explain mode; bypasses the cache
+   *              so the evidence is collected
    * @returns True if interaction found
    * @throws Error if contractId is not provided or not found
+   * @throws IndeterminateResultError if the check could not complete in time
    */
   async hasInteracted(
     address: string,
     contractId: string,
-    campaignId?: string
+    campaignId?: string,
+    trace?: VerificationTrace
   ): Promise<boolean> {
     if (!address || !contractId) {
       throw new Error("Address and contract ID are required");
@@ -844,74 +1519,61 @@ export class BlockchainService {
     const start = performance.now();
     const normalizedAddress = address.toLowerCase();
 
-    this.queryCount++;
-
     // Use contract-specific cache key including campaign if provided
-    const cacheKey = `${contractId}_${
-      campaignId || "all"
-    }_${normalizedAddress}`;
+    const cacheKey = this.allTimeCacheKey(
+      contractId,
+      campaignId,
+      normalizedAddress
+    );
 
-    const cached = this.cache.get(cacheKey);
+    const cached = this.getCachedVerdict(cacheKey, trace);
     if (cached !== undefined) {
-      this.cacheHits++;
       logger.info(
         `Cache hit for ${cacheKey}, time: ${performance.now() - start}ms`
       );
-      return cached as boolean;
+      return cached;
     }
 
     try {
-      // If a campaign is specified, use the campaign date range
+      // If a campaign is specified, use its current window
       if (campaignId) {
-        // Get campaign configuration
-        const campaignConfig = configLoader.getCampaignConfig(
+        const window = configLoader.getCampaignWindow(
           contractId,
           campaignId
-        );
-
-        if (!campaignConfig) {
-          throw new Error(`Campaign not found: ${campaignId}`);
-        }
-
-        // Create date objects from campaign date strings
-        const campaignStartDate = new Date(campaignConfig.startDate);
-        const campaignEndDate = new Date(campaignConfig.endDate);
+        ) as ICampaignWindow;
 
         // Use the campaign date range for verification with the fast method
         logger.info(
-          `Using campaign date range for verification: ${campaignStartDate.toISOString()} to ${campaignEndDate.toISOString()}`
+          `Using campaign window ${
+            window.index
+          } for verification: ${window.startDate.toISOString()} to ${window.endDate.toISOString()}`
         );
         return this.hasInteractedInTimeRange(
           address,
-          campaignStartDate,
-          campaignEndDate,
-          contractId
+          window.startDate,
+          window.endDate,
+          contractId,
+          campaignId,
+          trace
         );
       }
 
-      // Add early timeout for the overall process
-      const verificationTimeoutPromise = new Promise<boolean>((resolve) => {
-        setTimeout(() => {
-          logger.warn(
-            `Overall verification timeout reached for ${address} on ${contractId}`
-          );
-          resolve(false);
-        }, MAX_VERIFICATION_TIME);
-      });
-
       // Ensure the contract is initialized
       if (!this.contracts.has(contractId)) {
         this.initializeContract(contractId);
       }
 
-      const provider = this.getProvider(contractId);
-      const currentBlock = await provider.getBlockNumber();
+      const pool = this.getProvider(contractId);
+      const currentBlock = await pool.execute("getBlockNumber", (provider) =>
+        provider.getBlockNumber()
+      );
 
       // First check if the address is a minter
       const isMinter = await this.checkMinterRole(
         contractId,
         normalizedAddress
       );
+      trace?.step("minter", isMinter);
       if (isMinter) {
         this.cache.set(cacheKey, true);
         logger.info(
@@ -922,19 +1584,48 @@ export class BlockchainService {
         return true;
       }
 
-      // Use the fast method to check for activity
-      const hasActivity = await Promise.race([
-        this.checkActivityFast(
-          contractId,
-          normalizedAddress,
-          currentBlock - 100000, // Check last 100,000 blocks
-          currentBlock
-        ),
-        verificationTimeoutPromise,
-      ]);
+      // Check last 100,000 blocks, or the whole indexed history if it goes further back
+      const coverage = this.indexer.getCoverage(contractId);
+      const startBlock = Math.min(
+        currentBlock - 100000,
+        coverage ? coverage.startBlock : Infinity
+      );
+      trace?.setBlockRange(startBlock, currentBlock);
+
+      // Answer from the local index first; only the unindexed tail is scanned live
+      const indexed = this.checkIndex(
+        contractId,
+        normalizedAddress,
+        startBlock,
+        currentBlock,
+        trace
+      );
+      if (indexed && (indexed.found || indexed.nextBlock > currentBlock)) {
+        this.cache.set(cacheKey, indexed.found);
+        logger.info(
+          `Index result for ${normalizedAddress} on ${contractId}: ${
+            indexed.found
+          }, time: ${(performance.now() - start).toFixed(2)}ms`
+        );
+        return indexed.found;
+      }
 
-      // Cache and return the result
-      this.cache.set(cacheKey, hasActivity);
+      // Use the fast method to check for activity; only a definite result is cached
+      const hasActivity = await this.runVerification(
+        contractId,
+        cacheKey,
+        `${normalizedAddress} on ${contractId}`,
+        () =>
+          this.checkActivityFast(
+            contractId,
+            normalizedAddress,
+            indexed ? indexed.nextBlock : startBlock,
+            currentBlock,
+            "strict",
+            trace
+          ),
+        trace
+      );
 
       const elapsedMs = performance.now() - start;
       logger.info(
@@ -945,6 +1636,14 @@ export class BlockchainService {
 
       return hasActivity;
     } catch (error) {
+      if (error instanceof IndeterminateResultError) {
+        throw error;
+      }
+      if (error instanceof RpcUnavailableError) {
+        throw new IndeterminateResultError(
+          `Verification for ${address} on ${contractId} could not be completed: ${error.message}`
+        );
+      }
       logger.error(`Error checking interactions on ${contractId}:`, error);
       throw new Error(
         `Failed to verify contract interactions on ${contractId}: ${error}`
@@ -953,42 +1652,961 @@ export class BlockchainService {
   }
 
   /**
-   * Check if an address has the minter role for a specific contract
-   * @param contractId The contract identifier
+   * Check if an address satisfies a composite campaign spanning several
+   * contracts
+   * The rule is evaluated left to right with short-circuiting (AND stops at
+   * the first false leaf, OR at the first true one). Each leaf is a regular
+   * time-range check, so leaf results are cached individually and shared
+   * between composite campaigns and direct verifications
    * @param address Ethereum address to check
-   * @returns True if address has minter role
-   * @throws Error if check fails
+   * @param compositeId Composite campaign identifier
+   * @param trace Optional decision trace for explain mode (records leaf results)
+   * @returns True if the rule is satisfied
+   * @throws Error if the composite campaign is not found
+   * @throws IndeterminateResultError if undecided leaves leave the rule open
    */
-  private async checkMinterRole(
-    contractId: string,
-    address: string
+  async hasInteractedComposite(
+    address: string,
+    compositeId: string,
+    trace?: VerificationTrace
   ): Promise<boolean> {
-    if (!contractId || !address) {
-      throw new Error("Contract ID and address are required");
+    const campaign = configLoader.getCompositeCampaign(compositeId);
+    if (!campaign) {
+      throw new Error(`Composite campaign not found: ${compositeId}`);
     }
 
-    try {
-      const contract = this.getContract(contractId);
-      const currentMinter = await contract.minter();
-      return currentMinter.toLowerCase() === address.toLowerCase();
-    } catch (error) {
-      logger.error(`Error checking minter role on ${contractId}:`, error);
-      return false;
-    }
-  }
+    const start = performance.now();
+    const normalizedAddress = address.toLowerCase();
+    const { startDate, endDate } = getCampaignSpan(campaign);
+
+    // Three-valued evaluation: null marks a leaf whose check could not
+    // complete, and only decides the rule when the other operands cannot
+    const evaluate = async (rule: CompositeRule): Promise<boolean | null> => {
+      if ("and" in rule) {
+        let unknown = false;
+        for (const child of rule.and) {
+          const result = await evaluate(child);
+          if (result === false) {
+            return false;
+          }
+          unknown = unknown || result === null;
+        }
+        return unknown ? null : true;
+      }
 
-  /**
-   * Clear the cache
-   */
-  public clearCache(): void {
-    try {
-      this.cache.flushAll();
+      if ("or" in rule) {
+        let unknown = false;
+        for (const child of rule.or) {
+          const result = await evaluate(child);
+          if (result === true) {
+            return true;
+          }
+          unknown = unknown || result === null;
+        }
+        return unknown ? null : false;
+      }
+
+      if ("not" in rule) {
+        const result = await evaluate(rule.not);
+        return result === null ? null : !result;
+      }
+
+      const leaf = rule.campaign
+        ? `${rule.contract}/${rule.campaign}`
+        : rule.contract;
+      try {
+        // Campaign leaves are checked within the current campaign window
+        const window = rule.campaign
+          ? (configLoader.getCampaignWindow(
+              rule.contract,
+              rule.campaign
+            ) as ICampaignWindow)
+          : { startDate, endDate };
+        const result = await this.hasInteractedInTimeRange(
+          normalizedAddress,
+          window.startDate,
+          window.endDate,
+          rule.contract,
+          rule.campaign
+        );
+        trace?.step("composite-leaf", result, { detail: leaf });
+        return result;
+      } catch (error) {
+        if (!(error instanceof IndeterminateResultError)) {
+          throw error;
+        }
+        trace?.step("composite-leaf", false, {
+          detail: `${leaf} (indeterminate)`,
+        });
+        return null;
+      }
+    };
+
+    const result = await evaluate(campaign.rule);
+
+    logger.info(
+      `Composite campaign ${compositeId} result for ${normalizedAddress}: ${result}, time: ${(
+        (performance.now() - start) /
+        1000
+      ).toFixed(2)} seconds`
+    );
+    if (result === null) {
+      throw new IndeterminateResultError(
+        `Composite campaign ${compositeId} could not be fully evaluated`
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Register a listener for interactions newly stored by the event indexer
+   * @param listener Listener to call with each indexed chunk
+   */
+  public onIndexedInteractions(listener: InteractionListener): void {
+    this.indexer.onInteractions(listener);
+  }
+
+  /**
+   * Check if an observed interaction makes an address eligible for a campaign
+   * The interaction must fall inside a campaign window; campaigns with
+   * criteria are re-evaluated within that window on every interaction. The
+   * cached verdict of the window is refreshed so verifications see the new
+   * interaction
+   * @param contractId Contract identifier
+   * @param campaignId Campaign identifier
+   * @param address Address identified by the interaction
+   * @param blockNumber Block of the interaction
+   * @returns The window the address is eligible in, or null if not eligible
+   * @throws Error if the campaign is not found or RPC calls fail
+   */
+  async qualifiesForCampaign(
+    contractId: string,
+    campaignId: string,
+    address: string,
+    blockNumber: number
+  ): Promise<ICampaignWindow | null> {
+    const campaignConfig = configLoader.getCampaignConfig(
+      contractId,
+      campaignId
+    );
+    if (!campaignConfig) {
+      throw new Error(`Campaign not found: ${campaignId}`);
+    }
+
+    const normalizedAddress = address.toLowerCase();
+    const timestamp = await this.getBlockTimestamp(contractId, blockNumber);
+    const { startDate, endDate } = getCampaignSpan(campaignConfig);
+
+    if (
+      timestamp * 1000 < startDate.getTime() ||
+      timestamp * 1000 > endDate.getTime()
+    ) {
+      return null;
+    }
+
+    const window = findCampaignWindow(
+      campaignConfig,
+      new Date(timestamp * 1000)
+    );
+
+    let eligible = true;
+    if (campaignConfig.criteria) {
+      const startBlock = await this.getBlockForDate(
+        contractId,
+        window.startDate,
+        "after"
+      );
+      eligible = await this.evaluateCampaignCriteria(
+        contractId,
+        normalizedAddress,
+        campaignConfig.criteria,
+        startBlock,
+        blockNumber
+      );
+    }
+
+    if (!eligible) {
+      return null;
+    }
+
+    this.cache.set(
+      this.timeRangeCacheKey(
+        contractId,
+        campaignId,
+        normalizedAddress,
+        window.startDate,
+        window.endDate
+      ),
+      true
+    );
+    return window;
+  }
+
+  /**
+   * Check many addresses at once against a contract, sharing the block range
+   * resolution, minter lookup and log queries between them
+   * @param addresses Ethereum addresses to check
+   * @param contractId Contract identifier
+   * @param options Campaign (current window unless `window` is set), or
+   *                explicit date range; all-time when neither is set
+   * @returns Map of lowercased address to result
+   * @throws Error if the contract, campaign or window is not found
+   * @throws IndeterminateResultError if the log scan fails
+   */
+  async hasInteractedBatch(
+    addresses: string[],
+    contractId: string,
+    options: {
+      campaignId?: string;
+      window?: number;
+      startDate?: Date;
+      endDate?: Date;
+    } = {}
+  ): Promise<Map<string, boolean>> {
+    if (!addresses || !contractId) {
+      throw new Error("Addresses and contract ID are required");
+    }
+
+    const start = performance.now();
+    const { campaignId } = options;
+    let { startDate, endDate } = options;
+    let criteria: ICampaignCriteria | undefined;
+
+    if (campaignId) {
+      const campaignConfig = configLoader.getCampaignConfig(
+        contractId,
+        campaignId
+      );
+
+      if (!campaignConfig) {
+        throw new Error(`Campaign not found: ${campaignId}`);
+      }
+
+      const window = configLoader.getCampaignWindow(
+        contractId,
+        campaignId,
+        options.window
+      );
+      if (!window) {
+        throw new Error(`Campaign window not found: ${options.window}`);
+      }
+
+      startDate = window.startDate;
+      endDate = window.endDate;
+      criteria = campaignConfig.criteria;
+    }
+
+    const timeRange = startDate && endDate ? { startDate, endDate } : null;
+    const cacheKeyFor = (address: string) =>
+      timeRange
+        ? this.timeRangeCacheKey(
+            contractId,
+            campaignId,
+            address,
+            timeRange.startDate,
+            timeRange.endDate
+          )
+        : this.allTimeCacheKey(contractId, undefined, address);
+
+    // Serve what we can from the cache
+    const results = new Map<string, boolean>();
+    const pending = new Set<string>();
+
+    for (const address of addresses.map((a) => a.toLowerCase())) {
+      if (results.has(address) || pending.has(address)) {
+        continue;
+      }
+
+      // Finalized campaign windows are answered from their frozen results
+      const frozen =
+        campaignId && timeRange
+          ? campaignSnapshotStore.isEligible(
+              contractId,
+              campaignId,
+              timeRange.startDate,
+              timeRange.endDate,
+              address
+            )
+          : undefined;
+      const cached = frozen ?? this.getCachedVerdict(cacheKeyFor(address));
+      if (cached !== undefined) {
+        results.set(address, cached);
+      } else {
+        pending.add(address);
+      }
+    }
+
+    if (pending.size === 0) {
+      return results;
+    }
+
+    try {
+      // Resolve the block range once for the whole batch
+      const pool = this.getProvider(contractId);
+      const coverage = this.indexer.getCoverage(contractId);
+      let startBlock: number;
+      let endBlock: number;
+
+      if (timeRange) {
+        startBlock = await this.getBlockForDate(
+          contractId,
+          timeRange.startDate,
+          "after"
+        );
+        endBlock = await this.getBlockForDate(
+          contractId,
+          timeRange.endDate,
+          "before"
+        );
+      } else {
+        endBlock = await pool.execute("getBlockNumber", (provider) =>
+          provider.getBlockNumber()
+        );
+        startBlock = Math.min(
+          endBlock - 100000,
+          coverage ? coverage.startBlock : Infinity
+        );
+      }
+
+      // One minter lookup for the whole batch
+      let minter: string | null = null;
+      if (!criteria) {
+        minter = await this.getMinterOrNull(contractId);
+      }
+
+      // Interaction logs per address: indexed part from SQLite, the rest
+      // from one shared scan of the range
+      const logsByAddress = new Map<string, IIndexedLog[]>();
+      let scanFrom = startBlock;
+
+      if (coverage && coverage.startBlock <= startBlock) {
+        const indexedTo = Math.min(endBlock, coverage.lastBlock);
+        for (const address of pending) {
+          logsByAddress.set(
+            address,
+            this.indexer.getInteractions(
+              contractId,
+              address,
+              startBlock,
+              indexedTo
+            )
+          );
+        }
+        scanFrom = Math.max(startBlock, coverage.lastBlock + 1);
+      }
+
+      if (scanFrom <= endBlock) {
+        // A partial scan cannot tell missing addresses apart from ineligible ones
+        let scanned: Map<string, IIndexedLog[]>;
+        try {
+          scanned = await this.scanInteractionsByAddress(
+            contractId,
+            scanFrom,
+            endBlock,
+            pending
+          );
+        } catch (error) {
+          logger.warn(`Batch scan failed on ${contractId}: ${error}`);
+          throw new IndeterminateResultError(
+            `Batch verification on ${contractId} could not be completed`
+          );
+        }
+        for (const [address, logs] of scanned) {
+          logsByAddress.set(address, [
+            ...(logsByAddress.get(address) || []),
+            ...logs,
+          ]);
+        }
+      }
+
+      for (const address of pending) {
+        const logs = logsByAddress.get(address) || [];
+        let result: boolean;
+
+        if (endBlock < startBlock) {
+          result = false;
+        } else if (criteria) {
+          result = await this.meetsCampaignCriteria(
+            contractId,
+            address,
+            criteria,
+            logs
+          );
+        } else {
+          result = address === minter || logs.length > 0;
+        }
+
+        this.cache.set(cacheKeyFor(address), result);
+        results.set(address, result);
+      }
+
+      const elapsedSeconds = (performance.now() - start) / 1000;
+      logger.info(
+        `Batch verification on ${contractId}, campaign: ${
+          campaignId || "none"
+        }: ${
+          pending.size
+        } addresses checked in blocks ${startBlock}-${endBlock}, ${
+          results.size - pending.size
+        } cached, time: ${elapsedSeconds.toFixed(2)} seconds`
+      );
+
+      return results;
+    } catch (error) {
+      if (error instanceof IndeterminateResultError) {
+        throw error;
+      }
+      if (error instanceof RpcUnavailableError) {
+        throw new IndeterminateResultError(
+          `Batch verification on ${contractId} could not be completed: ${error.message}`
+        );
+      }
+      logger.error(`Error in batch verification on ${contractId}:`, error);
+      throw new Error(
+        `Failed to verify batch of contract interactions on ${contractId}: ${error}`
+      );
+    }
+  }
+
+  /**
+   * Collect every address that satisfies a campaign's interaction rule
+   * (any interaction event, or the campaign criteria when configured)
+   * in a campaign window
+   * @param contractId Contract identifier
+   * @param campaignId Campaign identifier
+   * @param windowIndex Campaign window; the current window when omitted
+   * @param rescan Scan the chain even if the window was finalized
+   * @returns Eligible addresses ordered by first interaction
+   * @throws Error if the contract, campaign or window is not found, or the
+   *         scan fails
+   */
+  async getCampaignEligibility(
+    contractId: string,
+    campaignId: string,
+    windowIndex?: number,
+    rescan = false
+  ): Promise<ICampaignEligibility> {
+    if (!contractId || !campaignId) {
+      throw new Error("Contract ID and campaign ID are required");
+    }
+
+    const campaignConfig = configLoader.getCampaignConfig(
+      contractId,
+      campaignId
+    );
+    if (!campaignConfig) {
+      throw new Error(`Campaign not found: ${campaignId}`);
+    }
+
+    const window = configLoader.getCampaignWindow(
+      contractId,
+      campaignId,
+      windowIndex
+    );
+    if (!window) {
+      throw new Error(`Campaign window not found: ${windowIndex}`);
+    }
+
+    const frozen = rescan
+      ? null
+      : campaignSnapshotStore.getWindow(
+          contractId,
+          campaignId,
+          window.startDate,
+          window.endDate
+        );
+    if (frozen) {
+      return {
+        contractId,
+        campaignId,
+        window: window.index,
+        startBlock: frozen.startBlock,
+        endBlock: frozen.endBlock,
+        addresses: frozen.addresses,
+      };
+    }
+
+    const start = performance.now();
+    const startBlock = await this.getBlockForDate(
+      contractId,
+      window.startDate,
+      "after"
+    );
+    const endBlock = await this.getBlockForDate(
+      contractId,
+      window.endDate,
+      "before"
+    );
+
+    const eligibility: ICampaignEligibility = {
+      contractId,
+      campaignId,
+      window: window.index,
+      startBlock,
+      endBlock,
+      addresses: [],
+    };
+
+    if (endBlock < startBlock) {
+      return eligibility;
+    }
+
+    // Indexed part from SQLite, the rest from a live scan of the window
+    const logsByAddress = new Map<string, IIndexedLog[]>();
+    let scanFrom = startBlock;
+
+    const coverage = this.indexer.getCoverage(contractId);
+    if (coverage && coverage.startBlock <= startBlock) {
+      const indexed = this.indexer.getInteractionsInRange(
+        contractId,
+        startBlock,
+        Math.min(endBlock, coverage.lastBlock)
+      );
+      for (const { address, ...log } of indexed) {
+        if (!logsByAddress.has(address)) {
+          logsByAddress.set(address, []);
+        }
+        logsByAddress.get(address)!.push(log);
+      }
+      scanFrom = Math.max(startBlock, coverage.lastBlock + 1);
+    }
+
+    if (scanFrom <= endBlock) {
+      const scanned = await this.scanInteractionsByAddress(
+        contractId,
+        scanFrom,
+        endBlock
+      );
+      for (const [address, logs] of scanned) {
+        logsByAddress.set(address, [
+          ...(logsByAddress.get(address) || []),
+          ...logs,
+        ]);
+      }
+    }
+
+    const criteria = campaignConfig.criteria;
+    for (const [address, logs] of logsByAddress) {
+      if (logs.length === 0) {
+        continue;
+      }
+      if (
+        criteria &&
+        !(await this.meetsCampaignCriteria(contractId, address, criteria, logs))
+      ) {
+        continue;
+      }
+
+      eligibility.addresses.push({
+        address,
+        firstBlock: logs[0].blockNumber,
+        firstTxHash: logs[0].transactionHash,
+        firstLogIndex: logs[0].index,
+        eventCount: logs.length,
+      });
+    }
+
+    eligibility.addresses.sort(
+      (a, b) => a.firstBlock - b.firstBlock || a.firstLogIndex - b.firstLogIndex
+    );
+
+    logger.info(
+      `Collected ${
+        eligibility.addresses.length
+      } eligible addresses for ${contractId}/${campaignId} in blocks ${startBlock}-${endBlock}, time: ${(
+        (performance.now() - start) /
+        1000
+      ).toFixed(2)} seconds`
+    );
+    return eligibility;
+  }
+
+  /**
+   * Get the lifecycle status of a campaign
+   * An ended campaign is finalized once every window is frozen with its
+   * configured dates
+   * @param contractId Contract identifier
+   * @param campaignId Campaign identifier
+   * @returns Campaign status
+   * @throws Error if the campaign is not found
+   */
+  public getCampaignStatus(
+    contractId: string,
+    campaignId: string
+  ): CampaignStatus {
+    const campaignConfig = configLoader.getCampaignConfig(
+      contractId,
+      campaignId
+    );
+    if (!campaignConfig) {
+      throw new Error(`Campaign not found: ${campaignId}`);
+    }
+
+    const status = getScheduleStatus(campaignConfig);
+    if (status !== "ended") {
+      return status;
+    }
+
+    const windows = countCampaignWindows(campaignConfig);
+    for (let index = 0; index < windows; index++) {
+      const window = getCampaignWindow(
+        campaignConfig,
+        index
+      ) as ICampaignWindow;
+      if (
+        !campaignSnapshotStore.getWindow(
+          contractId,
+          campaignId,
+          window.startDate,
+          window.endDate
+        )
+      ) {
+        return "ended";
+      }
+    }
+    return "finalized";
+  }
+
+  /**
+   * Freeze the final results of an ended campaign
+   * Every window is scanned again and its eligible set stored; verifications
+   * of the campaign are then answered from the snapshot instead of the chain
+   * @param contractId Contract identifier
+   * @param campaignId Campaign identifier
+   * @returns The stored snapshot
+   * @throws Error if the campaign is not found or has not ended, or a scan
+   *         fails
+   */
+  async finalizeCampaign(
+    contractId: string,
+    campaignId: string
+  ): Promise<ICampaignSnapshot> {
+    const campaignConfig = configLoader.getCampaignConfig(
+      contractId,
+      campaignId
+    );
+    if (!campaignConfig) {
+      throw new Error(`Campaign not found: ${campaignId}`);
+    }
+    if (getScheduleStatus(campaignConfig) !== "ended") {
+      throw new Error(`Campaign ${campaignId} has not ended yet`);
+    }
+
+    const start = performance.now();
+    const windows: IFrozenWindow[] = [];
+    const count = countCampaignWindows(campaignConfig);
+    for (let index = 0; index < count; index++) {
+      const window = getCampaignWindow(
+        campaignConfig,
+        index
+      ) as ICampaignWindow;
+      const eligibility = await this.getCampaignEligibility(
+        contractId,
+        campaignId,
+        index,
+        true
+      );
+      windows.push({
+        index,
+        startDate: window.startDate.toISOString(),
+        endDate: window.endDate.toISOString(),
+        startBlock: eligibility.startBlock,
+        endBlock: eligibility.endBlock,
+        addresses: eligibility.addresses,
+      });
+    }
+
+    const snapshot: ICampaignSnapshot = {
+      contractId,
+      campaignId,
+      finalizedAt: new Date().toISOString(),
+      windows,
+    };
+    campaignSnapshotStore.save(snapshot);
+
+    // Live verdicts of the campaign are superseded by the snapshot
+    this.invalidateCache(this.verdictCachePrefix(contractId, campaignId));
+
+    logger.info(
+      `Finalized ${contractId}/${campaignId}: ${count} windows, time: ${(
+        (performance.now() - start) /
+        1000
+      ).toFixed(2)} seconds`
+    );
+    return snapshot;
+  }
+
+  /**
+   * Record a matching log as evidence on a decision trace
+   * @param trace Decision trace, if explain mode is on
+   * @param contractId The contract identifier (used to decode the event)
+   * @param log Matching log
+   */
+  private recordEvidence(
+    trace: VerificationTrace | undefined,
+    contractId: string,
+    log: IIndexedLog | undefined
+  ): void {
+    if (!trace || !log) {
+      return;
+    }
+
+    let event: string | null = null;
+    try {
+      event =
+        this.getContract(contractId).interface.parseLog(log)?.name || null;
+    } catch {
+      // Keep the raw log reference when the event cannot be decoded
+    }
+    trace.setEvidence(log, event);
+  }
+
+  /**
+   * Get a block timestamp, cached
+   * @param contractId The contract identifier (selects the chain)
+   * @param blockNumber Block number
+   * @returns Block timestamp in seconds
+   * @throws Error if the block cannot be fetched
+   */
+  private async getBlockTimestamp(
+    contractId: string,
+    blockNumber: number
+  ): Promise<number> {
+    const { chainId } = configLoader.getContractConfig(contractId);
+    const cacheKey = `block_${chainId}_${blockNumber}`;
+
+    const cached = this.cache.get<number>(cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const pool = this.getProvider(contractId);
+    const block = await pool.execute("getBlock", (provider) =>
+      provider.getBlock(blockNumber)
+    );
+    if (!block) {
+      throw new Error(`Block ${blockNumber} not found for ${contractId}`);
+    }
+
+    this.cache.set(cacheKey, block.timestamp);
+    return block.timestamp;
+  }
+
+  /**
+   * Scan all interaction events of a contract in a block range and group
+   * them by the user addresses they identify
+   * @param contractId The contract identifier
+   * @param startBlock Starting block number
+   * @param endBlock Ending block number
+   * @param addresses Only keep these (lowercased) addresses; all when omitted
+   * @returns Map of lowercased address to its deduplicated, ordered logs
+   * @throws Error if a log query keeps failing
+   */
+  private async scanInteractionsByAddress(
+    contractId: string,
+    startBlock: number,
+    endBlock: number,
+    addresses?: Set<string>
+  ): Promise<Map<string, IIndexedLog[]>> {
+    const contract = this.getContract(contractId);
+    const { interactionEvents } = configLoader.getContractConfig(contractId);
+
+    const userArgsByTopic = new Map<string, string[]>();
+    for (const { event, userArgs } of interactionEvents) {
+      userArgsByTopic.set(
+        contract.interface.getEvent(event)!.topicHash,
+        userArgs
+      );
+    }
+
+    const logsByAddress = new Map<string, Map<string, IIndexedLog>>();
+
+    for (let from = startBlock; from <= endBlock; from += BLOCK_RANGE) {
+      const to = Math.min(from + BLOCK_RANGE - 1, endBlock);
+      const logs = await this.queryWithRetry(contractId, from, to, [
+        [...userArgsByTopic.keys()],
+      ]);
+
+      for (const log of logs) {
+        const parsed = contract.interface.parseLog(log);
+        const userArgs = userArgsByTopic.get(log.topics[0]);
+        if (!parsed || !userArgs) {
+          continue;
+        }
+
+        for (const arg of userArgs) {
+          const address = String(parsed.args[arg]).toLowerCase();
+          if (addresses && !addresses.has(address)) {
+            continue;
+          }
+
+          if (!logsByAddress.has(address)) {
+            logsByAddress.set(address, new Map());
+          }
+          logsByAddress
+            .get(address)!
+            .set(`${log.transactionHash}:${log.index}`, log);
+        }
+      }
+    }
+
+    const result = new Map<string, IIndexedLog[]>();
+    for (const [address, logs] of logsByAddress) {
+      result.set(
+        address,
+        [...logs.values()].sort(
+          (a, b) => a.blockNumber - b.blockNumber || a.index - b.index
+        )
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Look up a cached verdict, counting cache hits and misses
+   * @param cacheKey Verification cache key
+   * @param trace Decision trace; traced verifications bypass the cache so
+   *              the evidence is collected
+   * @returns Cached verdict, or undefined
+   */
+  private getCachedVerdict(
+    cacheKey: string,
+    trace?: VerificationTrace
+  ): boolean | undefined {
+    if (trace) {
+      return undefined;
+    }
+
+    const cached = this.cache.get<boolean>(cacheKey);
+    cacheLookups.inc({ result: cached === undefined ? "miss" : "hit" });
+    return cached;
+  }
+
+  /**
+   * Cache key for a time-range (or campaign) verification
+   */
+  private timeRangeCacheKey(
+    contractId: string,
+    campaignId: string | undefined,
+    address: string,
+    startDate: Date,
+    endDate: Date
+  ): string {
+    return [
+      contractId,
+      campaignId || "custom",
+      address,
+      startDate.getTime(),
+      endDate.getTime(),
+    ].join(CACHE_KEY_SEPARATOR);
+  }
+
+  /**
+   * Cache key for an all-time verification
+   */
+  private allTimeCacheKey(
+    contractId: string,
+    campaignId: string | undefined,
+    address: string
+  ): string {
+    return [contractId, campaignId || "all", address].join(CACHE_KEY_SEPARATOR);
+  }
+
+  /**
+   * Prefix of the cached verdicts of a contract, or of one of its campaigns
+   * IDs never contain the separator, so `aero` does not match `aero_v2`
+   */
+  private verdictCachePrefix(contractId: string, campaignId?: string): string {
+    const parts = campaignId ? [contractId, campaignId, ""] : [contractId, ""];
+    return parts.join(CACHE_KEY_SEPARATOR);
+  }
+
+  /**
+   * Check if an address has the minter role for a specific contract
+   * @param contractId The contract identifier
+   * @param address Ethereum address to check
+   * @returns True if address has minter role
+   * @throws IndeterminateResultError if no RPC endpoint answered
+   */
+  private async checkMinterRole(
+    contractId: string,
+    address: string
+  ): Promise<boolean> {
+    if (!contractId || !address) {
+      throw new Error("Contract ID and address are required");
+    }
+
+    const currentMinter = await this.getMinterOrNull(contractId);
+    return currentMinter === address.toLowerCase();
+  }
+
+  /**
+   * Get the current minter of a contract, treating a rejected minter() call
+   * as no minter
+   * @param contractId The contract identifier
+   * @returns Lowercased minter address, or null
+   * @throws IndeterminateResultError if no RPC endpoint answered, so an
+   *         outage is never reported as "not a minter"
+   */
+  private async getMinterOrNull(contractId: string): Promise<string | null> {
+    try {
+      return await this.getMinter(contractId);
+    } catch (error) {
+      if (error instanceof RpcUnavailableError) {
+        throw new IndeterminateResultError(
+          `Minter role on ${contractId} could not be checked: ${error.message}`
+        );
+      }
+      logger.error(`Error checking minter role on ${contractId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the current minter of a contract
+   * @param contractId The contract identifier
+   * @returns Lowercased minter address, or null if the ABI has no minter()
+   * @throws Error if the call fails
+   */
+  private async getMinter(contractId: string): Promise<string | null> {
+    const contract = this.getContract(contractId);
+
+    // Only contracts whose ABI exposes minter() have a minter role
+    if (!contract.interface.getFunction("minter")) {
+      return null;
+    }
+
+    const pool = this.getProvider(contractId);
+    const currentMinter = await pool.execute("minter", (provider) =>
+      (contract.connect(provider) as ethers.Contract).minter()
+    );
+    return String(currentMinter).toLowerCase();
+  }
+
+  /**
+   * Clear the cache
+   */
+  public clearCache(): void {
+    try {
+      this.cache.flushAll();
       logger.info("Cache cleared successfully");
     } catch (error) {
       logger.error("Error clearing cache:", error);
     }
   }
 
+  /**
+   * Probe every RPC endpoint (primary and fallbacks) of a contract
+   * @param contractId Contract identifier
+   * @returns Chain ID and head block reported by each endpoint
+   * @throws Error if the contract is not configured
+   */
+  public async probeRpcEndpoints(
+    contractId: string
+  ): Promise<IRpcEndpointProbe[]> {
+    return this.getProvider(contractId).probe();
+  }
+
   /**
    * Get a list of all available contracts
    * @returns Array of contract IDs
@@ -1031,3 +2649,8 @@ export class BlockchainService {
     return campaign;
   }
 }
+
+// Create and export a shared instance so all controllers use the same
+// providers, cache and index
+const blockchainService = new BlockchainService();
+export default blockchainService;
@@ -0,0 +1,147 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { CampaignSnapshotStore, ICampaignSnapshot } from "./campaign-snapshots";
+
+const ALICE = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const BOB = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+
+const WEEK_1 = {
+  startDate: new Date("2025-01-01T00:00:00.000Z"),
+  endDate: new Date("2025-01-07T23:59:59.999Z"),
+};
+const WEEK_2 = {
+  startDate: new Date("2025-01-08T00:00:00.000Z"),
+  endDate: new Date("2025-01-14T23:59:59.999Z"),
+};
+
+/**
+ * Snapshot of a two-week campaign: Alice qualified in week 1, Bob in week 2
+ */
+function snapshot(): ICampaignSnapshot {
+  const entry = (address: string, firstBlock: number) => ({
+    address,
+    firstBlock,
+    firstTxHash: `0x${"1".repeat(64)}`,
+    firstLogIndex: 0,
+    eventCount: 1,
+  });
+
+  return {
+    contractId: "staking",
+    campaignId: "launch",
+    finalizedAt: "2025-01-15T00:00:00.000Z",
+    windows: [
+      {
+        index: 0,
+        startDate: WEEK_1.startDate.toISOString(),
+        endDate: WEEK_1.endDate.toISOString(),
+        startBlock: 100,
+        endBlock: 199,
+        addresses: [entry(ALICE, 120)],
+      },
+      {
+        index: 1,
+        startDate: WEEK_2.startDate.toISOString(),
+        endDate: WEEK_2.endDate.toISOString(),
+        startBlock: 200,
+        endBlock: 299,
+        addresses: [entry(BOB, 250)],
+      },
+    ],
+  };
+}
+
+describe("CampaignSnapshotStore", () => {
+  let dataDir: string;
+  let store: CampaignSnapshotStore;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "snapshots-"));
+    store = new CampaignSnapshotStore(dataDir);
+  });
+
+  it("has no snapshot for campaigns that were not finalized", () => {
+    expect(store.get("staking", "launch")).toBeNull();
+    expect(
+      store.isEligible(
+        "staking",
+        "launch",
+        WEEK_1.startDate,
+        WEEK_1.endDate,
+        ALICE
+      )
+    ).toBeUndefined();
+  });
+
+  it("answers frozen verdicts per window", () => {
+    store.save(snapshot());
+    const eligible = (window: typeof WEEK_1, address: string) =>
+      store.isEligible(
+        "staking",
+        "launch",
+        window.startDate,
+        window.endDate,
+        address
+      );
+
+    expect(eligible(WEEK_1, ALICE)).toBe(true);
+    expect(eligible(WEEK_1, BOB)).toBe(false);
+    expect(eligible(WEEK_2, BOB.toUpperCase().replace("0X", "0x"))).toBe(true);
+    expect(
+      store.getWindow("staking", "launch", WEEK_2.startDate, WEEK_2.endDate)
+    ).toMatchObject({ index: 1, startBlock: 200, endBlock: 299 });
+  });
+
+  it("only uses windows whose dates match exactly", () => {
+    store.save(snapshot());
+
+    expect(
+      store.getWindow(
+        "staking",
+        "launch",
+        WEEK_1.startDate,
+        new Date("2025-01-08T23:59:59.999Z")
+      )
+    ).toBeNull();
+    expect(
+      store.isEligible(
+        "staking",
+        "launch",
+        WEEK_1.startDate,
+        new Date("2025-01-08T23:59:59.999Z"),
+        ALICE
+      )
+    ).toBeUndefined();
+  });
+
+  it("persists snapshots for other instances", () => {
+    store.save(snapshot());
+
+    const reloaded = new CampaignSnapshotStore(dataDir);
+
+    expect(reloaded.get("staking", "launch")).toEqual(snapshot());
+    expect(
+      fs.existsSync(path.join(dataDir, "finalized", "staking", "launch.json"))
+    ).toBe(true);
+  });
+
+  it("removes snapshots", () => {
+    store.save(snapshot());
+
+    expect(store.remove("staking", "launch")).toBe(true);
+    expect(store.get("staking", "launch")).toBeNull();
+    expect(
+      new CampaignSnapshotStore(dataDir).get("staking", "launch")
+    ).toBeNull();
+    expect(store.remove("staking", "launch")).toBe(false);
+  });
+
+  it("ignores unreadable snapshot files", () => {
+    const filePath = path.join(dataDir, "finalized", "staking", "launch.json");
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, "{");
+
+    expect(store.get("staking", "launch")).toBeNull();
+  });
+});
@@ -0,0 +1,212 @@
+import fs from "fs";
+import path from "path";
+import configLoader from "../config/config-loader";
+import logger from "../utils/logger";
+import { IEligibleAddress } from "./blockchain";
+
+/**
+ * Frozen eligible set of one campaign window
+ */
+export interface IFrozenWindow {
+  index: number;
+  startDate: string;
+  endDate: string;
+  startBlock: number;
+  endBlock: number;
+  addresses: IEligibleAddress[];
+}
+
+/**
+ * Final results of an ended campaign, one entry per window
+ */
+export interface ICampaignSnapshot {
+  contractId: string;
+  campaignId: string;
+  finalizedAt: string;
+  windows: IFrozenWindow[];
+}
+
+/**
+ * Stores the final results of ended campaigns
+ * Once a campaign is finalized its verdicts are answered from the snapshot
+ * instead of the live chain. A window is only used while its dates match the
+ * configuration, so changing the campaign dates unfreezes it. Snapshots are
+ * persisted to DATA_DIR/finalized/<contractId>/<campaignId>.json
+ */
+export class CampaignSnapshotStore {
+  private baseDir: string;
+  // Loaded snapshots with an address lookup per window, keyed by
+  // `${contractId}/${campaignId}`; null marks a campaign without snapshot
+  private snapshots: Map<
+    string,
+    {
+      snapshot: ICampaignSnapshot;
+      windows: Map<string, { window: IFrozenWindow; eligible: Set<string> }>;
+    } | null
+  > = new Map();
+
+  /**
+   * @param dataDir Directory where snapshot files are stored
+   */
+  constructor(dataDir: string) {
+    this.baseDir = path.resolve(dataDir, "finalized");
+  }
+
+  /**
+   * Store the snapshot of a campaign, replacing any previous one
+   * @param snapshot Final results of the campaign
+   */
+  public save(snapshot: ICampaignSnapshot): void {
+    const filePath = this.filePath(snapshot.contractId, snapshot.campaignId);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    // Write atomically (temp file + rename)
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(snapshot, null, 2));
+    fs.renameSync(tmpPath, filePath);
+
+    this.remember(snapshot.contractId, snapshot.campaignId, snapshot);
+  }
+
+  /**
+   * Get the snapshot of a campaign
+   * @param contractId Contract identifier
+   * @param campaignId Campaign identifier
+   * @returns Snapshot, or null if the campaign was not finalized
+   */
+  public get(contractId: string, campaignId: string): ICampaignSnapshot | null {
+    const entry = this.load(contractId, campaignId);
+    return entry ? entry.snapshot : null;
+  }
+
+  /**
+   * Delete the snapshot of a campaign, so it is verified live again
+   * @param contractId Contract identifier
+   * @param campaignId Campaign identifier
+   * @returns True if a snapshot was deleted
+   */
+  public remove(contractId: string, campaignId: string): boolean {
+    const filePath = this.filePath(contractId, campaignId);
+    const existed = fs.existsSync(filePath);
+    if (existed) {
+      fs.unlinkSync(filePath);
+      logger.info(`Removed final results of ${contractId}/${campaignId}`);
+    }
+
+    this.snapshots.set(`${contractId}/${campaignId}`, null);
+    return existed;
+  }
+
+  /**
+   * Get the frozen window covering exactly a date range
+   * @param contractId Contract identifier
+   * @param campaignId Campaign identifier
+   * @param startDate Start of the campaign window
+   * @param endDate End of the campaign window
+   * @returns Frozen window, or null if the range is not frozen
+   */
+  public getWindow(
+    contractId: string,
+    campaignId: string,
+    startDate: Date,
+    endDate: Date
+  ): IFrozenWindow | null {
+    const entry = this.load(contractId, campaignId);
+    const frozen = entry?.windows.get(
+      this.windowKey(startDate.getTime(), endDate.getTime())
+    );
+    return frozen ? frozen.window : null;
+  }
+
+  /**
+   * Get the frozen verdict of an address
+   * @param contractId Contract identifier
+   * @param campaignId Campaign identifier
+   * @param startDate Start of the campaign window
+   * @param endDate End of the campaign window
+   * @param address Address to look up
+   * @returns Frozen verdict, or undefined if the range is not frozen
+   */
+  public isEligible(
+    contractId: string,
+    campaignId: string,
+    startDate: Date,
+    endDate: Date,
+    address: string
+  ): boolean | undefined {
+    const entry = this.load(contractId, campaignId);
+    const frozen = entry?.windows.get(
+      this.windowKey(startDate.getTime(), endDate.getTime())
+    );
+    return frozen ? frozen.eligible.has(address.toLowerCase()) : undefined;
+  }
+
+  private filePath(contractId: string, campaignId: string): string {
+    return path.join(this.baseDir, contractId, `${campaignId}.json`);
+  }
+
+  private windowKey(startTime: number, endTime: number): string {
+    return `${startTime}-${endTime}`;
+  }
+
+  /**
+   * Load a snapshot from memory or disk
+   */
+  private load(contractId: string, campaignId: string) {
+    const key = `${contractId}/${campaignId}`;
+    if (this.snapshots.has(key)) {
+      return this.snapshots.get(key) || null;
+    }
+
+    const filePath = this.filePath(contractId, campaignId);
+    if (!fs.existsSync(filePath)) {
+      this.snapshots.set(key, null);
+      return null;
+    }
+
+    try {
+      const snapshot: ICampaignSnapshot = JSON.parse(
+        fs.readFileSync(filePath, "utf8")
+      );
+      return this.remember(contractId, campaignId, snapshot);
+    } catch (error) {
+      logger.error(`Failed to load campaign snapshot ${filePath}: ${error}`);
+      return null;
+    }
+  }
+
+  private remember(
+    contractId: string,
+    campaignId: string,
+    snapshot: ICampaignSnapshot
+  ) {
+    const windows = new Map<
+      string,
+      { window: IFrozenWindow; eligible: Set<string> }
+    >();
+    for (const window of snapshot.windows) {
+      windows.set(
+        this.windowKey(
+          new Date(window.startDate).getTime(),
+          new Date(window.endDate).getTime()
+        ),
+        {
+          window,
+          eligible: new Set(
+            window.addresses.map((entry) => entry.address.toLowerCase())
+          ),
+        }
+      );
+    }
+
+    const entry = { snapshot, windows };
+    this.snapshots.set(`${contractId}/${campaignId}`, entry);
+    return entry;
+  }
+}
+
+// Create and export a singleton instance
+const campaignSnapshotStore = new CampaignSnapshotStore(
+  configLoader.getEnvConfig().dataDir
+);
+export default campaignSnapshotStore;
@@ -0,0 +1,150 @@
+import configLoader from "../config/config-loader";
+import { BlockchainService } from "./blockchain";
+import { HealthService } from "./health";
+import { IRpcEndpointProbe } from "./rpc-pool";
+
+const MAX_HEAD_LAG = 60;
+
+/**
+ * Probe result of a healthy Base endpoint
+ * @param overrides Fields to change
+ */
+function probe(overrides: Partial<IRpcEndpointProbe> = {}): IRpcEndpointProbe {
+  return {
+    label: "primary:rpc.invalid",
+    primary: true,
+    reachable: true,
+    chainId: 8453,
+    blockNumber: 1000,
+    blockTimestamp: Math.floor(Date.now() / 1000) - 5,
+    latencyMs: 12,
+    error: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Health service over a blockchain service whose endpoints answer `probes`
+ * @param probes Probe results per contract, or an error to throw
+ */
+function createService(
+  probes: (contractId: string) => IRpcEndpointProbe[] | Error
+) {
+  const probeRpcEndpoints = jest.fn(async (contractId: string) => {
+    const result = probes(contractId);
+    if (result instanceof Error) {
+      throw result;
+    }
+    return result;
+  });
+  const service = new HealthService(
+    { probeRpcEndpoints } as unknown as BlockchainService,
+    MAX_HEAD_LAG
+  );
+  return { service, probeRpcEndpoints };
+}
+
+describe("HealthService", () => {
+  const contracts = configLoader.getAvailableContracts();
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it("is ready when every contract has a usable endpoint", async () => {
+    const { service } = createService(() => [probe()]);
+
+    const report = await service.getReadiness();
+
+    expect(report.ready).toBe(true);
+    expect(report.config).toEqual({
+      loaded: true,
+      contracts: contracts.length,
+    });
+    for (const contractId of contracts) {
+      expect(report.contracts[contractId]).toMatchObject({
+        chainId: 8453,
+        ready: true,
+        error: null,
+      });
+      expect(report.contracts[contractId].endpoints[0]).toMatchObject({
+        chainIdMatches: true,
+        ready: true,
+      });
+    }
+  });
+
+  it("is ready while one endpoint of a contract is still usable", async () => {
+    const { service } = createService(() => [
+      probe({ reachable: false, blockTimestamp: null, error: "down" }),
+      probe({ label: "fallback1:rpc.invalid", primary: false }),
+    ]);
+
+    const report = await service.getReadiness();
+
+    expect(report.ready).toBe(true);
+    expect(
+      report.contracts[contracts[0]].endpoints.map((e) => e.ready)
+    ).toEqual([false, true]);
+  });
+
+  it.each([
+    ["unreachable", { reachable: false, blockTimestamp: null }],
+    ["on another chain", { chainId: 1 }],
+    [
+      "behind the head",
+      { blockTimestamp: Math.floor(Date.now() / 1000) - MAX_HEAD_LAG - 30 },
+    ],
+  ])("is not ready when the only endpoint is %s", async (_, overrides) => {
+    const { service } = createService((contractId) =>
+      contractId === contracts[0] ? [probe(overrides)] : [probe()]
+    );
+
+    const report = await service.getReadiness();
+
+    expect(report.ready).toBe(false);
+    expect(report.contracts[contracts[0]].ready).toBe(false);
+    expect(report.contracts[contracts[1]].ready).toBe(true);
+  });
+
+  it("reports the error of a contract whose probe fails", async () => {
+    const { service } = createService((contractId) =>
+      contractId === contracts[0] ? new Error("no provider") : [probe()]
+    );
+
+    const report = await service.getReadiness();
+
+    expect(report.ready).toBe(false);
+    expect(report.contracts[contracts[0]]).toEqual({
+      chainId: 8453,
+      ready: false,
+      endpoints: [],
+      error: "no provider",
+    });
+  });
+
+  it("is not ready without configured contracts", async () => {
+    jest.spyOn(configLoader, "getAvailableContracts").mockReturnValue([]);
+    const { service } = createService(() => [probe()]);
+
+    const report = await service.getReadiness();
+
+    expect(report.ready).toBe(false);
+    expect(report.config).toEqual({ loaded: false, contracts: 0 });
+  });
+
+  it("reuses a recent report instead of probing again", async () => {
+    jest.useFakeTimers({ now: Date.now() });
+    try {
+      const { service, probeRpcEndpoints } = createService(() => [probe()]);
+
+      await service.getReadiness();
+      await service.getReadiness();
+      expect(probeRpcEndpoints).toHaveBeenCalledTimes(contracts.length);
+
+      jest.advanceTimersByTime(5000);
+      await service.getReadiness();
+      expect(probeRpcEndpoints).toHaveBeenCalledTimes(contracts.length * 2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
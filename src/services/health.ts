@@ -0,0 +1,148 @@
+import configLoader from "../config/config-loader";
+import logger from "../utils/logger";
+import blockchainService, { BlockchainService } from "./blockchain";
+import { IRpcEndpointProbe } from "./rpc-pool";
+
+// Readiness constants
+const READY_CACHE_TTL = 5000; // Reuse a readiness report for 5 seconds
+
+/**
+ * Readiness of one RPC endpoint of a contract
+ * - chainIdMatches: the endpoint serves the chain configured for the contract
+ * - headLagSeconds: age of the head block reported by the endpoint
+ */
+export interface IEndpointReadiness extends IRpcEndpointProbe {
+  chainIdMatches: boolean;
+  headLagSeconds: number | null;
+  ready: boolean;
+}
+
+/**
+ * Readiness of a contract: ready when at least one endpoint is ready
+ */
+export interface IContractReadiness {
+  chainId: number | null;
+  ready: boolean;
+  endpoints: IEndpointReadiness[];
+  error: string | null;
+}
+
+/**
+ * Readiness report returned by GET /ready
+ */
+export interface IReadinessReport {
+  ready: boolean;
+  checkedAt: string;
+  config: { loaded: boolean; contracts: number };
+  contracts: Record<string, IContractReadiness>;
+}
+
+/**
+ * Service checking whether the API can serve verifications: the configuration
+ * is loaded and every configured contract has a responsive RPC endpoint on the
+ * right chain with a recent head block
+ */
+export class HealthService {
+  private lastReport: { at: number; report: Promise<IReadinessReport> } | null =
+    null;
+
+  /**
+   * @param blockchainService Service owning the RPC pools
+   * @param maxHeadLag Maximum age of the head block in seconds
+   */
+  constructor(
+    private readonly blockchainService: BlockchainService,
+    private readonly maxHeadLag: number
+  ) {}
+
+  /**
+   * Check readiness, reusing a recent report so frequent probes from the
+   * orchestrator do not multiply RPC calls
+   * @returns Readiness report with per-contract and per-endpoint detail
+   */
+  public getReadiness(): Promise<IReadinessReport> {
+    if (this.lastReport && Date.now() - this.lastReport.at < READY_CACHE_TTL) {
+      return this.lastReport.report;
+    }
+
+    const report = this.checkReadiness();
+    this.lastReport = { at: Date.now(), report };
+    return report;
+  }
+
+  private async checkReadiness(): Promise<IReadinessReport> {
+    const contractIds = configLoader.getAvailableContracts();
+    const contracts: Record<string, IContractReadiness> = {};
+
+    await Promise.all(
+      contractIds.map(async (contractId) => {
+        contracts[contractId] = await this.checkContract(contractId);
+      })
+    );
+
+    const loaded = contractIds.length > 0;
+    const ready = loaded && contractIds.every((id) => contracts[id].ready);
+
+    if (!loaded) {
+      logger.warn("Service not ready: no contracts configured");
+    } else if (!ready) {
+      const failing = contractIds.filter((id) => !contracts[id].ready);
+      logger.warn(
+        `Service not ready, failing contracts: ${failing.join(", ")}`
+      );
+    }
+
+    return {
+      ready,
+      checkedAt: new Date().toISOString(),
+      config: { loaded, contracts: contractIds.length },
+      contracts,
+    };
+  }
+
+  /**
+   * Probe the endpoints of a contract and compare them with its configuration
+   */
+  private async checkContract(contractId: string): Promise<IContractReadiness> {
+    let chainId: number | null = null;
+
+    try {
+      chainId = configLoader.getContractConfig(contractId).chainId;
+      const probes = await this.blockchainService.probeRpcEndpoints(contractId);
+      const now = Math.floor(Date.now() / 1000);
+
+      const endpoints = probes.map((probe) => {
+        const chainIdMatches = probe.chainId === chainId;
+        const headLagSeconds =
+          probe.blockTimestamp === null
+            ? null
+            : Math.max(0, now - probe.blockTimestamp);
+
+        return {
+          ...probe,
+          chainIdMatches,
+          headLagSeconds,
+          ready:
+            probe.reachable &&
+            chainIdMatches &&
+            headLagSeconds !== null &&
+            headLagSeconds <= this.maxHeadLag,
+        };
+      });
+
+      return {
+        chainId,
+        ready: endpoints.some((e) => e.ready),
+        endpoints,
+        error: null,
+      };
+    } catch (error: any) {
+      return { chainId, ready: false, endpoints: [], error: error.message };
+    }
+  }
+}
+
+// Create and export a singleton instance
+const { readyMaxHeadLag } = configLoader.getEnvConfig();
+const healthService = new HealthService(blockchainService, readyMaxHeadLag);
+export default healthService;
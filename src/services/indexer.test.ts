@@ -0,0 +1,211 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import Database from "better-sqlite3";
+import { ethers } from "ethers";
+import configLoader, { DEFAULT_ABI, IContract } from "../config/config-loader";
+import { EventIndexer, IObservedInteraction } from "./indexer";
+import { RpcProviderPool } from "./rpc-pool";
+
+const CONTRACT_ID = "doge_base_aerodome";
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+const START_BLOCK = 1000;
+const HEAD = 5000;
+
+const erc20 = new ethers.Interface(DEFAULT_ABI);
+
+/**
+ * Build a Transfer log as returned by getLogs
+ */
+function transferLog(from: string, to: string, blockNumber: number) {
+  const { topics, data } = erc20.encodeEventLog("Transfer", [from, to, 1]);
+  return {
+    blockNumber,
+    index: 0,
+    transactionHash: ethers.id(`${from}:${to}:${blockNumber}`),
+    topics,
+    data,
+  };
+}
+
+const chainLogs = [
+  transferLog(ALICE, BOB, 1500),
+  transferLog(BOB, BOB, 3200),
+  // Within INDEXER_CONFIRMATIONS of the head
+  transferLog(ALICE, BOB, HEAD - 1),
+];
+
+function fakePool() {
+  const getLogs = jest.fn(
+    async (filter: { fromBlock: number; toBlock: number }) =>
+      chainLogs.filter(
+        (log) =>
+          log.blockNumber >= filter.fromBlock &&
+          log.blockNumber <= filter.toBlock
+      )
+  );
+  const provider = { getBlockNumber: async () => HEAD, getLogs };
+  const pool = {
+    execute: (_operation: string, fn: (provider: any) => Promise<unknown>) =>
+      fn(provider),
+  } as unknown as RpcProviderPool;
+  return { pool, getLogs };
+}
+
+describe("EventIndexer", () => {
+  const getContractConfig = configLoader.getContractConfig.bind(configLoader);
+  let dataDir: string;
+  let indexer: EventIndexer;
+  let startBlock: number;
+  let chainId: number;
+
+  // Private members exercised by the tests
+  const indexContract = (): Promise<boolean> =>
+    (indexer as any).indexContract(CONTRACT_ID);
+
+  beforeEach(() => {
+    startBlock = START_BLOCK;
+    chainId = 8453;
+
+    // One configuration object per setting, like a loaded configuration
+    const configs = new Map<string, IContract>();
+    jest
+      .spyOn(configLoader, "getContractConfig")
+      .mockImplementation((contractId) => {
+        const key = `${contractId}:${startBlock}:${chainId}`;
+        if (!configs.has(key)) {
+          configs.set(key, {
+            ...getContractConfig(contractId),
+            chainId,
+            indexer: { enabled: contractId === CONTRACT_ID, startBlock },
+          });
+        }
+        return configs.get(key)!;
+      });
+
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "indexer-"));
+    const { pool } = fakePool();
+    indexer = new EventIndexer(dataDir, () => pool);
+    (indexer as any).running = true;
+  });
+
+  afterEach(() => {
+    indexer.stop();
+    jest.restoreAllMocks();
+  });
+
+  it("indexes confirmed blocks from the start block", async () => {
+    await expect(indexContract()).resolves.toBe(true);
+
+    expect(indexer.getIndexedContracts()).toEqual([CONTRACT_ID]);
+    expect(indexer.getCoverage(CONTRACT_ID)).toEqual({
+      startBlock: START_BLOCK,
+      lastBlock: HEAD - 5,
+    });
+    expect(
+      indexer
+        .getInteractions(CONTRACT_ID, ALICE, 0, HEAD)
+        .map((log) => log.blockNumber)
+    ).toEqual([1500]);
+    expect(
+      indexer
+        .getInteractions(CONTRACT_ID, BOB, 0, HEAD)
+        .map((log) => log.blockNumber)
+    ).toEqual([1500, 3200]);
+    expect(indexer.hasInteraction(CONTRACT_ID, ALICE, 1501, HEAD)).toBe(false);
+  });
+
+  it("notifies listeners once per address of each new log", async () => {
+    const observed: IObservedInteraction[] = [];
+    indexer.onInteractions((_contractId, interactions) =>
+      observed.push(...interactions)
+    );
+
+    await indexContract();
+    await indexContract();
+
+    expect(observed.map((i) => [i.address, i.blockNumber])).toEqual([
+      [ALICE, 1500],
+      [BOB, 1500],
+      [BOB, 3200],
+    ]);
+  });
+
+  it("re-indexes when the start block changes", async () => {
+    await indexContract();
+    startBlock = 2000;
+
+    expect(indexer.getCoverage(CONTRACT_ID)).toBeNull();
+    await indexContract();
+
+    expect(indexer.getCoverage(CONTRACT_ID)).toEqual({
+      startBlock: 2000,
+      lastBlock: HEAD - 5,
+    });
+    expect(indexer.hasInteraction(CONTRACT_ID, ALICE, 0, HEAD)).toBe(false);
+  });
+
+  it("re-indexes when the chain changes", async () => {
+    await indexContract();
+    chainId = 84532;
+
+    expect(indexer.getCoverage(CONTRACT_ID)).toBeNull();
+    await indexContract();
+
+    expect(indexer.getCoverage(CONTRACT_ID)).toEqual({
+      startBlock: START_BLOCK,
+      lastBlock: HEAD - 5,
+    });
+  });
+
+  it("re-indexes cursors stored before chain IDs were tracked", async () => {
+    await indexContract();
+    indexer.stop();
+
+    // Rewrite the cursor as stored without a chain ID column
+    const db = new Database(path.join(dataDir, "indexer.sqlite"));
+    db.exec(`
+      CREATE TABLE old_cursors (
+        contract_id TEXT PRIMARY KEY,
+        contract_address TEXT NOT NULL,
+        events_hash TEXT NOT NULL,
+        start_block INTEGER NOT NULL,
+        last_block INTEGER NOT NULL,
+        updated_at INTEGER
+      );
+      INSERT INTO old_cursors
+        SELECT contract_id, contract_address, events_hash, start_block,
+               last_block, updated_at
+        FROM cursors;
+      DROP TABLE cursors;
+      ALTER TABLE old_cursors RENAME TO cursors;
+    `);
+    db.close();
+
+    const { pool } = fakePool();
+    indexer = new EventIndexer(dataDir, () => pool);
+    (indexer as any).running = true;
+
+    expect(indexer.getCoverage(CONTRACT_ID)).toBeNull();
+    await indexContract();
+    expect(indexer.getCoverage(CONTRACT_ID)).toEqual({
+      startBlock: START_BLOCK,
+      lastBlock: HEAD - 5,
+    });
+  });
+
+  it("hashes the interaction events once per configuration", async () => {
+    await indexContract();
+    const getEvent = jest.spyOn(ethers.Interface.prototype, "getEvent");
+
+    indexer.getCoverage(CONTRACT_ID);
+    indexer.getCoverage(CONTRACT_ID);
+    expect(getEvent).not.toHaveBeenCalled();
+
+    startBlock = 2000;
+    indexer.getCoverage(CONTRACT_ID);
+    indexer.getCoverage(CONTRACT_ID);
+    expect(getEvent).toHaveBeenCalledTimes(1);
+  });
+});
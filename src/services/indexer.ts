@@ -0,0 +1,566 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import { ethers } from "ethers";
+import configLoader, { IContract } from "../config/config-loader";
+import logger from "../utils/logger";
+import { RpcProviderPool } from "./rpc-pool";
+
+// Indexer constants
+const INDEXER_BLOCK_RANGE = 2000; // Blocks per getLogs call
+const INDEXER_CONFIRMATIONS = 5; // Stay this many blocks behind head to avoid reorgs
+const INDEXER_POLL_INTERVAL = 15000; // Poll for new blocks every 15 seconds
+const INDEXER_MAX_CHUNKS_PER_TICK = 25; // Yield after this many chunks per contract
+
+/**
+ * An indexed interaction log
+ * Structurally compatible with ethers.Log for decoding with Interface.parseLog
+ */
+export interface IIndexedLog {
+  blockNumber: number;
+  index: number;
+  transactionHash: string;
+  topics: ReadonlyArray<string>;
+  data: string;
+}
+
+/**
+ * Range of blocks fully indexed for a contract
+ */
+export interface IIndexCoverage {
+  startBlock: number;
+  lastBlock: number;
+}
+
+/**
+ * Status of the indexer for a single contract
+ */
+export interface IIndexerContractStatus extends IIndexCoverage {
+  contractId: string;
+  interactions: number;
+  updatedAt: string | null;
+}
+
+/**
+ * An interaction stored for the first time by the indexer
+ */
+export interface IObservedInteraction {
+  address: string;
+  event: string;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+}
+
+/**
+ * Listener notified with the interactions of each newly indexed chunk
+ */
+export type InteractionListener = (
+  contractId: string,
+  interactions: IObservedInteraction[]
+) => void;
+
+interface CursorRow {
+  contract_id: string;
+  chain_id: number | null;
+  contract_address: string;
+  events_hash: string;
+  start_block: number;
+  last_block: number;
+  updated_at: number | null;
+}
+
+interface InteractionRow {
+  block_number: number;
+  log_index: number;
+  tx_hash: string;
+  topics: string;
+  data: string;
+}
+
+/**
+ * Background indexer for configured contracts
+ * Follows each contract with an `indexer` section from its start block and
+ * stores decoded interaction events in an embedded SQLite database, one row
+ * per (log, user address), with a cursor per contract
+ */
+export class EventIndexer {
+  private db: Database.Database;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private ticking = false;
+  private listeners: InteractionListener[] = [];
+  private eventsHashes: WeakMap<IContract, string> = new WeakMap();
+
+  /**
+   * @param dataDir Directory holding the SQLite database
+   * @param getPool Returns the RPC provider pool for a contract
+   */
+  constructor(
+    dataDir: string,
+    private readonly getPool: (contractId: string) => RpcProviderPool
+  ) {
+    const dbPath = path.resolve(dataDir, "indexer.sqlite");
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+    this.db = new Database(dbPath);
+    this.db.pragma("journal_mode = WAL");
+    this.migrate();
+
+    logger.info(`Opened indexer database at ${dbPath}`);
+  }
+
+  /**
+   * Create tables and indexes if they do not exist
+   */
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS cursors (
+        contract_id TEXT PRIMARY KEY,
+        chain_id INTEGER,
+        contract_address TEXT NOT NULL,
+        events_hash TEXT NOT NULL,
+        start_block INTEGER NOT NULL,
+        last_block INTEGER NOT NULL,
+        updated_at INTEGER
+      );
+
+      CREATE TABLE IF NOT EXISTS interactions (
+        contract_id TEXT NOT NULL,
+        address TEXT NOT NULL,
+        event TEXT NOT NULL,
+        block_number INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        tx_hash TEXT NOT NULL,
+        topics TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (contract_id, tx_hash, log_index, address)
+      );
+
+      CREATE INDEX IF NOT EXISTS interactions_by_address
+        ON interactions (contract_id, address, block_number);
+    `);
+
+    // Databases from before chain IDs were tracked get the column; their
+    // cursors have no chain ID and are reset on the next tick
+    const columns = this.db.pragma("table_info(cursors)") as {
+      name: string;
+    }[];
+    if (!columns.some((column) => column.name === "chain_id")) {
+      this.db.exec("ALTER TABLE cursors ADD COLUMN chain_id INTEGER");
+    }
+  }
+
+  /**
+   * Start following all indexed contracts
+   */
+  public start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    logger.info(
+      `Event indexer started for: ${
+        this.getIndexedContracts().join(", ") || "no contracts"
+      }`
+    );
+    this.scheduleTick(0);
+  }
+
+  /**
+   * Stop following contracts and close the database
+   */
+  public stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.db.close();
+  }
+
+  /**
+   * Register a listener for newly indexed interactions
+   * Listeners are called after each chunk is committed, during backfill too
+   * @param listener Listener to call
+   */
+  public onInteractions(listener: InteractionListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Get the IDs of contracts configured for indexing
+   */
+  public getIndexedContracts(): string[] {
+    return configLoader
+      .getAvailableContracts()
+      .filter((id) => configLoader.getContractConfig(id).indexer?.enabled);
+  }
+
+  /**
+   * Get the range of blocks fully indexed for a contract
+   * @param contractId Contract identifier
+   * @returns Coverage or null if the contract is not indexed (yet)
+   */
+  public getCoverage(contractId: string): IIndexCoverage | null {
+    if (!this.getIndexedContracts().includes(contractId)) {
+      return null;
+    }
+
+    // A cursor for an outdated configuration does not count until it is reset
+    const cursor = this.getCursor(contractId);
+    if (
+      !cursor ||
+      !this.isCursorCurrent(contractId, cursor) ||
+      cursor.last_block < cursor.start_block
+    ) {
+      return null;
+    }
+
+    return { startBlock: cursor.start_block, lastBlock: cursor.last_block };
+  }
+
+  /**
+   * Check if the index has any interaction for an address in a block range
+   * @param contractId Contract identifier
+   * @param address User address
+   * @param fromBlock Starting block number
+   * @param toBlock Ending block number
+   * @returns True if an interaction is indexed
+   */
+  public hasInteraction(
+    contractId: string,
+    address: string,
+    fromBlock: number,
+    toBlock: number
+  ): boolean {
+    const row = this.db
+      .prepare(
+        `SELECT 1 FROM interactions
+         WHERE contract_id = ? AND address = ? AND block_number BETWEEN ? AND ?
+         LIMIT 1`
+      )
+      .get(contractId, address.toLowerCase(), fromBlock, toBlock);
+    return row !== undefined;
+  }
+
+  /**
+   * Get indexed interaction logs for an address in a block range
+   * @param contractId Contract identifier
+   * @param address User address
+   * @param fromBlock Starting block number
+   * @param toBlock Ending block number
+   * @returns Logs ordered by block and log index
+   */
+  public getInteractions(
+    contractId: string,
+    address: string,
+    fromBlock: number,
+    toBlock: number
+  ): IIndexedLog[] {
+    const rows = this.db
+      .prepare(
+        `SELECT block_number, log_index, tx_hash, topics, data FROM interactions
+         WHERE contract_id = ? AND address = ? AND block_number BETWEEN ? AND ?
+         ORDER BY block_number, log_index`
+      )
+      .all(
+        contractId,
+        address.toLowerCase(),
+        fromBlock,
+        toBlock
+      ) as InteractionRow[];
+
+    return rows.map((row) => ({
+      blockNumber: row.block_number,
+      index: row.log_index,
+      transactionHash: row.tx_hash,
+      topics: JSON.parse(row.topics),
+      data: row.data,
+    }));
+  }
+
+  /**
+   * Get all indexed interaction logs of a contract in a block range
+   * @param contractId Contract identifier
+   * @param fromBlock Starting block number
+   * @param toBlock Ending block number
+   * @returns Logs with the user address they belong to, ordered by block and log index
+   */
+  public getInteractionsInRange(
+    contractId: string,
+    fromBlock: number,
+    toBlock: number
+  ): Array<IIndexedLog & { address: string }> {
+    const rows = this.db
+      .prepare(
+        `SELECT address, block_number, log_index, tx_hash, topics, data FROM interactions
+         WHERE contract_id = ? AND block_number BETWEEN ? AND ?
+         ORDER BY block_number, log_index`
+      )
+      .all(contractId, fromBlock, toBlock) as Array<
+      InteractionRow & { address: string }
+    >;
+
+    return rows.map((row) => ({
+      address: row.address,
+      blockNumber: row.block_number,
+      index: row.log_index,
+      transactionHash: row.tx_hash,
+      topics: JSON.parse(row.topics),
+      data: row.data,
+    }));
+  }
+
+  /**
+   * Get indexer status for every indexed contract
+   */
+  public getStatus(): IIndexerContractStatus[] {
+    return this.getIndexedContracts().map((contractId) => {
+      const cursor = this.getCursor(contractId);
+      const { count } = this.db
+        .prepare(
+          "SELECT COUNT(*) AS count FROM interactions WHERE contract_id = ?"
+        )
+        .get(contractId) as { count: number };
+
+      return {
+        contractId,
+        startBlock: cursor ? cursor.start_block : -1,
+        lastBlock: cursor ? cursor.last_block : -1,
+        interactions: count,
+        updatedAt:
+          cursor && cursor.updated_at
+            ? new Date(cursor.updated_at).toISOString()
+            : null,
+      };
+    });
+  }
+
+  private scheduleTick(delay: number): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.timer = setTimeout(() => this.tick(), delay);
+    this.timer.unref();
+  }
+
+  /**
+   * Index the next chunks of every contract, then schedule the next tick
+   */
+  private async tick(): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+
+    this.ticking = true;
+    let caughtUp = true;
+
+    try {
+      for (const contractId of this.getIndexedContracts()) {
+        try {
+          const done = await this.indexContract(contractId);
+          caughtUp = caughtUp && done;
+        } catch (error) {
+          logger.warn(`Indexer error for ${contractId}: ${error}`);
+        }
+      }
+    } finally {
+      this.ticking = false;
+      // Keep going right away while any contract is still backfilling
+      this.scheduleTick(caughtUp ? INDEXER_POLL_INTERVAL : 0);
+    }
+  }
+
+  /**
+   * Index up to INDEXER_MAX_CHUNKS_PER_TICK chunks for a contract
+   * @returns True if the contract is caught up with the confirmed head
+   */
+  private async indexContract(contractId: string): Promise<boolean> {
+    if (!this.running) {
+      return true;
+    }
+
+    const contractConfig = configLoader.getContractConfig(contractId);
+    const cursor = this.ensureCursor(contractId);
+    const pool = this.getPool(contractId);
+    const iface = new ethers.Interface(contractConfig.abi);
+
+    // Map event topic hashes to the user arguments that identify addresses
+    const userArgsByTopic = new Map<string, string[]>();
+    for (const { event, userArgs } of contractConfig.interactionEvents) {
+      userArgsByTopic.set(iface.getEvent(event)!.topicHash, userArgs);
+    }
+
+    const head = await pool.execute("getBlockNumber", (provider) =>
+      provider.getBlockNumber()
+    );
+    const target = head - INDEXER_CONFIRMATIONS;
+
+    const insert = this.db.prepare(
+      `INSERT OR IGNORE INTO interactions
+       (contract_id, address, event, block_number, log_index, tx_hash, topics, data)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    const advance = this.db.prepare(
+      "UPDATE cursors SET last_block = ?, updated_at = ? WHERE contract_id = ?"
+    );
+
+    let lastBlock = cursor.last_block;
+    for (let chunk = 0; chunk < INDEXER_MAX_CHUNKS_PER_TICK; chunk++) {
+      if (!this.running || lastBlock >= target) {
+        break;
+      }
+
+      const fromBlock = lastBlock + 1;
+      const toBlock = Math.min(fromBlock + INDEXER_BLOCK_RANGE - 1, target);
+
+      const logs = await pool.execute(
+        `indexer getLogs ${fromBlock}-${toBlock}`,
+        (provider) =>
+          provider.getLogs({
+            address: contractConfig.address,
+            fromBlock,
+            toBlock,
+            topics: [[...userArgsByTopic.keys()]],
+          })
+      );
+
+      // Store the chunk and move the cursor in one transaction
+      const observed: IObservedInteraction[] = [];
+      this.db.transaction(() => {
+        for (const log of logs) {
+          const parsed = iface.parseLog(log);
+          const userArgs = userArgsByTopic.get(log.topics[0]);
+          if (!parsed || !userArgs) {
+            continue;
+          }
+
+          for (const arg of userArgs) {
+            const address = String(parsed.args[arg]).toLowerCase();
+            const result = insert.run(
+              contractId,
+              address,
+              parsed.name,
+              log.blockNumber,
+              log.index,
+              log.transactionHash,
+              JSON.stringify(log.topics),
+              log.data
+            );
+            if (result.changes > 0) {
+              observed.push({
+                address,
+                event: parsed.name,
+                blockNumber: log.blockNumber,
+                logIndex: log.index,
+                transactionHash: log.transactionHash,
+              });
+            }
+          }
+        }
+        advance.run(toBlock, Date.now(), contractId);
+      })();
+
+      lastBlock = toBlock;
+      logger.debug(
+        `Indexed ${contractId} blocks ${fromBlock}-${toBlock}: ${observed.length} interactions`
+      );
+
+      if (observed.length > 0) {
+        for (const listener of this.listeners) {
+          try {
+            listener(contractId, observed);
+          } catch (error) {
+            logger.warn(
+              `Interaction listener failed for ${contractId}: ${error}`
+            );
+          }
+        }
+      }
+    }
+
+    return lastBlock >= target;
+  }
+
+  private getCursor(contractId: string): CursorRow | undefined {
+    return this.db
+      .prepare("SELECT * FROM cursors WHERE contract_id = ?")
+      .get(contractId) as CursorRow | undefined;
+  }
+
+  /**
+   * Get the cursor for a contract, (re)creating it when the chain, contract
+   * address, interaction events or start block changed in the configuration
+   */
+  private ensureCursor(contractId: string): CursorRow {
+    const contractConfig = configLoader.getContractConfig(contractId);
+    const address = contractConfig.address.toLowerCase();
+    const startBlock = contractConfig.indexer!.startBlock;
+    const cursor = this.getCursor(contractId);
+
+    if (cursor && this.isCursorCurrent(contractId, cursor)) {
+      return cursor;
+    }
+
+    if (cursor) {
+      logger.info(
+        `Indexer configuration changed for ${contractId}, re-indexing from block ${startBlock}`
+      );
+    }
+
+    this.db.transaction(() => {
+      this.db
+        .prepare("DELETE FROM interactions WHERE contract_id = ?")
+        .run(contractId);
+      this.db
+        .prepare(
+          `INSERT OR REPLACE INTO cursors
+           (contract_id, chain_id, contract_address, events_hash, start_block, last_block, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, NULL)`
+        )
+        .run(
+          contractId,
+          contractConfig.chainId,
+          address,
+          this.eventsHash(contractConfig),
+          startBlock,
+          startBlock - 1
+        );
+    })();
+
+    return this.getCursor(contractId)!;
+  }
+
+  /**
+   * Check if a cursor matches the current configuration of its contract
+   */
+  private isCursorCurrent(contractId: string, cursor: CursorRow): boolean {
+    const contractConfig = configLoader.getContractConfig(contractId);
+    return (
+      cursor.chain_id === contractConfig.chainId &&
+      cursor.contract_address === contractConfig.address.toLowerCase() &&
+      cursor.events_hash === this.eventsHash(contractConfig) &&
+      cursor.start_block === contractConfig.indexer!.startBlock
+    );
+  }
+
+  /**
+   * Fingerprint of the interaction event definitions of a contract
+   * (topic hashes and user arguments), computed once per configuration
+   */
+  private eventsHash(contractConfig: IContract): string {
+    let hash = this.eventsHashes.get(contractConfig);
+    if (hash === undefined) {
+      const iface = new ethers.Interface(contractConfig.abi);
+      const definitions = contractConfig.interactionEvents.map(
+        ({ event, userArgs }) => [iface.getEvent(event)!.topicHash, userArgs]
+      );
+      hash = ethers.id(JSON.stringify(definitions));
+      this.eventsHashes.set(contractConfig, hash);
+    }
+    return hash;
+  }
+}
@@ -0,0 +1,165 @@
+import dns from "dns";
+import partnerRegistry, { IPartner } from "../config/partner-loader";
+import { signBody } from "../utils/signature";
+import { BlockchainService, IndeterminateResultError } from "./blockchain";
+import { IJobView, JobQueue } from "./job-queue";
+
+const CONTRACT_ID = "doge_base_aerodome";
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+const CALLBACK_SECRET = "callback-secret";
+
+const galxe: IPartner = {
+  id: "galxe",
+  name: "Galxe",
+  apiKey: "galxe-key",
+  corsOrigins: [],
+  webhooks: [],
+  callbacks: { origins: ["https://quests.example"], secret: CALLBACK_SECRET },
+  quotas: {},
+};
+
+describe("JobQueue", () => {
+  let hasInteracted: jest.Mock;
+  let queue: JobQueue;
+  let fetchMock: jest.SpyInstance;
+
+  /**
+   * Wait until a job is finished
+   */
+  async function finished(id: string, partnerId?: string): Promise<IJobView> {
+    for (;;) {
+      const job = queue.getJob(id, partnerId)!;
+      if (job.status === "completed" || job.status === "failed") {
+        // Let the callback be sent
+        await new Promise((resolve) => setImmediate(resolve));
+        return job;
+      }
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  }
+
+  beforeEach(() => {
+    hasInteracted = jest.fn(async (address: string) => address === ALICE);
+    queue = new JobQueue(
+      { hasInteracted } as unknown as BlockchainService,
+      1,
+      3600
+    );
+
+    fetchMock = jest
+      .spyOn(global, "fetch")
+      .mockResolvedValue(new Response(null, { status: 204 }));
+    jest.spyOn(partnerRegistry, "getPartner").mockReturnValue(galxe);
+    jest
+      .spyOn(dns.promises, "lookup")
+      .mockResolvedValue([{ address: "93.184.215.14", family: 4 }] as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("verifies every address of a job", async () => {
+    const { id, status } = queue.enqueue({
+      addresses: [ALICE, BOB],
+      contract: CONTRACT_ID,
+    });
+    expect(status).toBe("running");
+
+    const job = await finished(id);
+    expect(job).toMatchObject({
+      status: "completed",
+      progress: { total: 2, done: 2 },
+      results: [
+        { address: ALICE, result: 1 },
+        { address: BOB, result: 0 },
+      ],
+    });
+  });
+
+  it("retries indeterminate results instead of reporting them as not eligible", async () => {
+    hasInteracted
+      .mockRejectedValueOnce(new IndeterminateResultError("Still running", 0))
+      .mockResolvedValueOnce(true);
+
+    const { id } = queue.enqueue({ addresses: [BOB], contract: CONTRACT_ID });
+
+    expect((await finished(id)).results).toEqual([{ address: BOB, result: 1 }]);
+    expect(hasInteracted).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports addresses that stay undecided with a null result", async () => {
+    hasInteracted.mockRejectedValue(
+      new IndeterminateResultError("RPC down", 0)
+    );
+
+    const { id } = queue.enqueue({ addresses: [BOB], contract: CONTRACT_ID });
+
+    expect((await finished(id)).results).toEqual([
+      { address: BOB, result: null, error: "RPC down" },
+    ]);
+    expect(hasInteracted).toHaveBeenCalledTimes(6);
+  });
+
+  it("only shows jobs to the partner that created them", async () => {
+    const { id } = queue.enqueue({
+      addresses: [ALICE],
+      contract: CONTRACT_ID,
+      partnerId: "galxe",
+    });
+    await finished(id, "galxe");
+
+    expect(queue.getJob(id)).toBeNull();
+    expect(queue.getJob(id, "zealy")).toBeNull();
+  });
+
+  it("posts the signed result to the callback URL", async () => {
+    const { id } = queue.enqueue({
+      addresses: [ALICE],
+      contract: CONTRACT_ID,
+      partnerId: "galxe",
+      callbackUrl: "https://quests.example/jobs",
+    });
+    const job = await finished(id, "galxe");
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    const timestamp = Number(init.headers["X-Webhook-Timestamp"]);
+    expect(url).toBe("https://quests.example/jobs");
+    expect(init.redirect).toBe("error");
+    expect(JSON.parse(init.body)).toEqual(job);
+    expect(init.headers["X-Webhook-Id"]).toBe(id);
+    expect(init.headers["X-Webhook-Signature"]).toBe(
+      signBody(CALLBACK_SECRET, timestamp, init.body)
+    );
+  });
+
+  it("does not call back origins the partner no longer allows", async () => {
+    const { id } = queue.enqueue({
+      addresses: [ALICE],
+      contract: CONTRACT_ID,
+      partnerId: "galxe",
+      callbackUrl: "https://attacker.example/jobs",
+    });
+    await finished(id, "galxe");
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("does not call back hosts resolving to private addresses", async () => {
+    jest
+      .spyOn(dns.promises, "lookup")
+      .mockResolvedValue([{ address: "10.0.0.8", family: 4 }] as any);
+
+    const { id } = queue.enqueue({
+      addresses: [ALICE],
+      contract: CONTRACT_ID,
+      partnerId: "galxe",
+      callbackUrl: "https://quests.example/jobs",
+    });
+    await finished(id, "galxe");
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
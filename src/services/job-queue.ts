@@ -0,0 +1,369 @@
+import crypto from "crypto";
+import configLoader from "../config/config-loader";
+import partnerRegistry from "../config/partner-loader";
+import logger from "../utils/logger";
+import { assertPublicUrl } from "../utils/network";
+import { signBody } from "../utils/signature";
+import blockchainService, {
+  BlockchainService,
+  IndeterminateResultError,
+} from "./blockchain";
+
+// Job queue constants
+const MAX_QUEUED_JOBS = 1000; // Reject new jobs beyond this backlog
+const MAX_ATTEMPTS = 6; // Attempts per address while its result is indeterminate
+const CLEANUP_INTERVAL = 60000; // Drop expired jobs every minute
+const CALLBACK_TIMEOUT = 10000; // Callback requests time out after 10 seconds
+
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+/**
+ * What a job verifies: an explicit date range, a campaign window, a composite
+ * campaign (no contract) or all-time activity when neither is set
+ */
+export interface IJobRequest {
+  addresses: string[];
+  contract?: string;
+  campaign?: string;
+  window?: number;
+  startDate?: Date;
+  endDate?: Date;
+  callbackUrl?: string;
+  partnerId?: string;
+}
+
+/**
+ * Result of one address; `result` is null when it could not be decided
+ */
+export interface IJobResult {
+  address: string;
+  result: 0 | 1 | null;
+  error?: string;
+}
+
+/**
+ * Public view of a job, returned when polling and sent to the callback URL
+ */
+export interface IJobView {
+  id: string;
+  status: JobStatus;
+  contract: string | null;
+  campaign: string | null;
+  window: number | null;
+  progress: { total: number; done: number };
+  results: IJobResult[];
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+interface Job {
+  id: string;
+  status: JobStatus;
+  request: IJobRequest;
+  results: IJobResult[];
+  error: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+}
+
+/**
+ * In-memory queue of verification jobs
+ * Jobs are processed by a bounded number of workers, one address at a time,
+ * so long campaign windows are verified outside of the HTTP request. Finished
+ * jobs are kept for JOB_TTL seconds; jobs do not survive a restart
+ */
+export class JobQueue {
+  private jobs: Map<string, Job> = new Map();
+  private queue: string[] = [];
+  private running = 0;
+  private cleanupTimer: NodeJS.Timeout;
+
+  /**
+   * @param blockchainService Service used to verify addresses
+   * @param concurrency Maximum number of jobs processed at once
+   * @param ttl Seconds finished jobs are kept for polling
+   */
+  constructor(
+    private readonly blockchainService: BlockchainService,
+    private readonly concurrency: number,
+    private readonly ttl: number
+  ) {
+    this.cleanupTimer = setInterval(() => this.cleanup(), CLEANUP_INTERVAL);
+    this.cleanupTimer.unref();
+  }
+
+  /**
+   * Add a job to the queue
+   * @param request Addresses and verification target
+   * @returns The queued job
+   * @throws Error if the queue is full
+   */
+  public enqueue(request: IJobRequest): IJobView {
+    if (this.isFull()) {
+      throw new Error("Job queue is full");
+    }
+
+    const job: Job = {
+      id: crypto.randomUUID(),
+      status: "queued",
+      request,
+      results: [],
+      error: null,
+      createdAt: new Date(),
+      startedAt: null,
+      finishedAt: null,
+    };
+
+    this.jobs.set(job.id, job);
+    this.queue.push(job.id);
+    logger.info(
+      `Queued job ${job.id}: ${request.addresses.length} addresses on ${
+        request.contract || "-"
+      }, campaign: ${request.campaign || "none"}`
+    );
+
+    this.drain();
+    return this.toView(job);
+  }
+
+  /**
+   * Check if the queue accepts no more jobs
+   */
+  public isFull(): boolean {
+    return this.queue.length >= MAX_QUEUED_JOBS;
+  }
+
+  /**
+   * Get a job
+   * @param id Job identifier
+   * @param partnerId Partner polling the job; jobs of other partners are hidden
+   * @returns Job or null if unknown or expired
+   */
+  public getJob(id: string, partnerId?: string): IJobView | null {
+    const job = this.jobs.get(id);
+    if (!job || job.request.partnerId !== partnerId) {
+      return null;
+    }
+    return this.toView(job);
+  }
+
+  /**
+   * Queue statistics
+   */
+  public getStats(): { queued: number; running: number; total: number } {
+    return {
+      queued: this.queue.length,
+      running: this.running,
+      total: this.jobs.size,
+    };
+  }
+
+  /**
+   * Start queued jobs while workers are available
+   */
+  private drain(): void {
+    while (this.running < this.concurrency && this.queue.length > 0) {
+      const job = this.jobs.get(this.queue.shift() as string);
+      if (!job) {
+        continue;
+      }
+
+      this.running++;
+      this.process(job).finally(() => {
+        this.running--;
+        this.drain();
+      });
+    }
+  }
+
+  /**
+   * Verify every address of a job, then notify its callback URL
+   */
+  private async process(job: Job): Promise<void> {
+    job.status = "running";
+    job.startedAt = new Date();
+
+    try {
+      for (const address of job.request.addresses) {
+        job.results.push(await this.verifyAddress(job.request, address));
+      }
+      job.status = "completed";
+    } catch (error: any) {
+      logger.error(`Job ${job.id} failed:`, error);
+      job.status = "failed";
+      job.error = error.message;
+    }
+
+    job.finishedAt = new Date();
+    logger.info(
+      `Job ${job.id} ${job.status}: ${job.results.length}/${
+        job.request.addresses.length
+      } addresses in ${(
+        (job.finishedAt.getTime() - job.startedAt.getTime()) /
+        1000
+      ).toFixed(2)} seconds`
+    );
+
+    if (job.request.callbackUrl) {
+      await this.notify(job);
+    }
+  }
+
+  /**
+   * Verify one address, waiting for checks that are still running in the
+   * background instead of reporting them as not eligible
+   */
+  private async verifyAddress(
+    request: IJobRequest,
+    address: string
+  ): Promise<IJobResult> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const eligible = await this.check(request, address.toLowerCase());
+        return { address, result: eligible ? 1 : 0 };
+      } catch (error: any) {
+        if (
+          !(error instanceof IndeterminateResultError) ||
+          attempt >= MAX_ATTEMPTS
+        ) {
+          return { address, result: null, error: error.message };
+        }
+
+        logger.debug(
+          `Result for ${address} is indeterminate, retrying in ${error.retryAfter} seconds`
+        );
+        await new Promise((resolve) =>
+          setTimeout(resolve, error.retryAfter * 1000)
+        );
+      }
+    }
+  }
+
+  /**
+   * Run the verification matching the job target
+   */
+  private check(request: IJobRequest, address: string): Promise<boolean> {
+    const { contract, campaign, window, startDate, endDate } = request;
+
+    if (!contract) {
+      return this.blockchainService.hasInteractedComposite(
+        address,
+        campaign as string
+      );
+    }
+
+    if (campaign) {
+      const campaignWindow = configLoader.getCampaignWindow(
+        contract,
+        campaign,
+        window
+      );
+      if (!campaignWindow) {
+        throw new Error(`Campaign window not found: ${window}`);
+      }
+      return this.blockchainService.hasInteractedInTimeRange(
+        address,
+        campaignWindow.startDate,
+        campaignWindow.endDate,
+        contract,
+        campaign
+      );
+    }
+
+    if (startDate && endDate) {
+      return this.blockchainService.hasInteractedInTimeRange(
+        address,
+        startDate,
+        endDate,
+        contract
+      );
+    }
+
+    return this.blockchainService.hasInteracted(address, contract);
+  }
+
+  /**
+   * POST the finished job to its callback URL, signed like webhooks
+   * The partner's callback settings are checked again at send time, and
+   * redirects are not followed, so a callback never reaches a private address.
+   * Failures are logged; the job can still be polled
+   */
+  private async notify(job: Job): Promise<void> {
+    const url = job.request.callbackUrl as string;
+
+    try {
+      const partner = job.request.partnerId
+        ? partnerRegistry.getPartner(job.request.partnerId)
+        : null;
+      const callbacks = partner?.callbacks;
+      if (!callbacks || !callbacks.origins.includes(new URL(url).origin)) {
+        throw new Error("Callbacks are no longer allowed for this partner");
+      }
+
+      // Checked again in case the host now resolves elsewhere
+      await assertPublicUrl(url);
+
+      const body = JSON.stringify(this.toView(job));
+      const timestamp = Math.floor(Date.now() / 1000);
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Webhook-Id": job.id,
+          "X-Webhook-Timestamp": String(timestamp),
+          "X-Webhook-Signature": signBody(callbacks.secret, timestamp, body),
+        },
+        body,
+        redirect: "error",
+        signal: AbortSignal.timeout(CALLBACK_TIMEOUT),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      logger.info(`Notified callback of job ${job.id}`);
+    } catch (error) {
+      logger.warn(`Callback for job ${job.id} to ${url} failed: ${error}`);
+    }
+  }
+
+  /**
+   * Remove finished jobs older than the TTL
+   */
+  private cleanup(): void {
+    const expiry = Date.now() - this.ttl * 1000;
+
+    for (const [id, job] of this.jobs) {
+      if (job.finishedAt && job.finishedAt.getTime() < expiry) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+
+  private toView(job: Job): IJobView {
+    return {
+      id: job.id,
+      status: job.status,
+      contract: job.request.contract || null,
+      campaign: job.request.campaign || null,
+      window: job.request.window ?? null,
+      progress: {
+        total: job.request.addresses.length,
+        done: job.results.length,
+      },
+      results: [...job.results],
+      error: job.error,
+      createdAt: job.createdAt.toISOString(),
+      startedAt: job.startedAt ? job.startedAt.toISOString() : null,
+      finishedAt: job.finishedAt ? job.finishedAt.toISOString() : null,
+    };
+  }
+}
+
+// Create and export a singleton instance
+const { jobConcurrency, jobTtl } = configLoader.getEnvConfig();
+const jobQueue = new JobQueue(blockchainService, jobConcurrency, jobTtl);
+export default jobQueue;
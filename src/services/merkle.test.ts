@@ -0,0 +1,134 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers } from "ethers";
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+import { MerkleTreeStore } from "./merkle";
+
+const CONTRACT_ID = "doge_base_aerodome";
+const CAMPAIGN_ID = "doge_december_2024";
+const RANGE = { startBlock: 100, endBlock: 200 };
+const ADDRESSES = [1, 2, 3, 4, 5].map(
+  (n) => `0x${n.toString(16).padStart(40, "a")}`
+);
+
+/**
+ * Check a proof the way MerkleProof.verify does on-chain: double-hashed
+ * ABI-encoded leaf, sorted pair hashing
+ */
+function verifyOnChain(
+  root: string,
+  leafEncoding: string[],
+  value: string[],
+  proof: string[]
+): boolean {
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  let hash = ethers.keccak256(
+    ethers.keccak256(coder.encode(leafEncoding, value))
+  );
+  for (const sibling of proof) {
+    const [a, b] = [hash, sibling].sort();
+    hash = ethers.keccak256(ethers.concat([a, b]));
+  }
+  return hash === root;
+}
+
+describe("MerkleTreeStore", () => {
+  let dataDir: string;
+  let store: MerkleTreeStore;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "merkle-"));
+    store = new MerkleTreeStore(dataDir);
+  });
+
+  it("gives proofs that verify on-chain for every address", () => {
+    const { root, count } = store.build(
+      CONTRACT_ID,
+      CAMPAIGN_ID,
+      ADDRESSES,
+      RANGE
+    );
+    expect(count).toBe(ADDRESSES.length);
+
+    for (const address of ADDRESSES) {
+      const proof = store.getProof(CONTRACT_ID, CAMPAIGN_ID, address)!;
+
+      expect(proof.root).toBe(root);
+      expect(proof.amount).toBeNull();
+      expect(verifyOnChain(root, ["address"], [address], proof.proof)).toBe(
+        true
+      );
+      expect(
+        verifyOnChain(root, ["address"], [ADDRESSES[0]], proof.proof)
+      ).toBe(address === ADDRESSES[0]);
+    }
+  });
+
+  it("includes amounts in the leaves when given", () => {
+    const amounts = new Map(
+      ADDRESSES.map((address, i) => [address, String((i + 1) * 1000)])
+    );
+    const { root, leafEncoding } = store.build(
+      CONTRACT_ID,
+      CAMPAIGN_ID,
+      ADDRESSES,
+      RANGE,
+      amounts
+    );
+    const proof = store.getProof(CONTRACT_ID, CAMPAIGN_ID, ADDRESSES[2])!;
+
+    expect(leafEncoding).toEqual(["address", "uint256"]);
+    expect(proof.amount).toBe("3000");
+    expect(
+      verifyOnChain(root, leafEncoding, [ADDRESSES[2], "3000"], proof.proof)
+    ).toBe(true);
+    expect(
+      verifyOnChain(root, leafEncoding, [ADDRESSES[2], "3001"], proof.proof)
+    ).toBe(false);
+  });
+
+  it("stores trees loadable by the OpenZeppelin library", () => {
+    const { root } = store.build(CONTRACT_ID, CAMPAIGN_ID, ADDRESSES, RANGE);
+
+    const reloaded = new MerkleTreeStore(dataDir);
+    const distribution = reloaded.getDistribution(CONTRACT_ID, CAMPAIGN_ID)!;
+    expect(StandardMerkleTree.load(distribution.tree).root).toBe(root);
+
+    // Lookups are case-insensitive
+    const proof = reloaded.getProof(
+      CONTRACT_ID,
+      CAMPAIGN_ID,
+      ADDRESSES[4].toUpperCase().replace("0X", "0x")
+    )!;
+    expect(
+      StandardMerkleTree.verify(root, ["address"], [ADDRESSES[4]], proof.proof)
+    ).toBe(true);
+  });
+
+  it("has no proof for addresses outside the tree or campaigns without one", () => {
+    store.build(CONTRACT_ID, CAMPAIGN_ID, ADDRESSES.slice(0, 2), RANGE);
+
+    expect(store.getProof(CONTRACT_ID, CAMPAIGN_ID, ADDRESSES[3])).toBeNull();
+    expect(store.getProof(CONTRACT_ID, "other", ADDRESSES[0])).toBeNull();
+    expect(() => store.build(CONTRACT_ID, CAMPAIGN_ID, [], RANGE)).toThrow(
+      "Cannot build a Merkle tree without addresses"
+    );
+  });
+
+  it("never reads files outside the tree directory", () => {
+    const outside = path.join(dataDir, "secrets.json");
+    fs.writeFileSync(outside, "{}");
+    const read = jest.spyOn(fs, "readFileSync");
+
+    expect(store.getDistribution("..", "secrets")).toBeNull();
+    expect(
+      store.getProof(CONTRACT_ID, "../../secrets", ADDRESSES[0])
+    ).toBeNull();
+    expect(read).not.toHaveBeenCalled();
+    expect(() =>
+      store.build("../escape", CAMPAIGN_ID, ADDRESSES, RANGE)
+    ).toThrow("Invalid Merkle tree ID: ../escape/doge_december_2024");
+    read.mockRestore();
+  });
+});
@@ -0,0 +1,232 @@
+import fs from "fs";
+import path from "path";
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+import configLoader from "../config/config-loader";
+import logger from "../utils/logger";
+
+// Contract and campaign IDs, as in contracts.json; never a path
+const ID_PATTERN = /^[a-z0-9_]+$/;
+
+/**
+ * A stored distribution tree with its metadata
+ * `tree` is the OpenZeppelin StandardMerkleTree dump, so the file can be
+ * loaded as-is by @openzeppelin/merkle-tree tooling
+ */
+export interface IMerkleDistribution {
+  contractId: string;
+  campaignId: string;
+  root: string;
+  leafEncoding: string[];
+  count: number;
+  startBlock: number;
+  endBlock: number;
+  generatedAt: string;
+  tree: ReturnType<StandardMerkleTree<string[]>["dump"]>;
+}
+
+/**
+ * Proof of inclusion of an address in a distribution tree
+ */
+export interface IMerkleProof {
+  root: string;
+  address: string;
+  amount: string | null;
+  leafEncoding: string[];
+  proof: string[];
+}
+
+/**
+ * Builds and stores OpenZeppelin-compatible Merkle distribution trees
+ * Leaves are `[address]`, or `[address, uint256 amount]` when amounts are
+ * given. Trees are persisted to DATA_DIR/merkle/<contractId>/<campaignId>.json
+ */
+export class MerkleTreeStore {
+  private baseDir: string;
+  // Loaded trees with an address → leaf index lookup, keyed by `${contractId}/${campaignId}`
+  private trees: Map<
+    string,
+    {
+      distribution: IMerkleDistribution;
+      tree: StandardMerkleTree<string[]>;
+      indexByAddress: Map<string, number>;
+    }
+  > = new Map();
+
+  /**
+   * @param dataDir Directory where tree files are stored
+   */
+  constructor(dataDir: string) {
+    this.baseDir = path.resolve(dataDir, "merkle");
+  }
+
+  /**
+   * Build and store the tree for a campaign
+   * @param contractId Contract identifier
+   * @param campaignId Campaign identifier
+   * @param addresses Final eligible addresses
+   * @param range Block range the eligible set was computed on
+   * @param amounts Optional amount (base units) per lowercased address
+   * @returns Stored distribution
+   * @throws Error if the address list is empty
+   */
+  public build(
+    contractId: string,
+    campaignId: string,
+    addresses: string[],
+    range: { startBlock: number; endBlock: number },
+    amounts?: Map<string, string>
+  ): IMerkleDistribution {
+    if (addresses.length === 0) {
+      throw new Error("Cannot build a Merkle tree without addresses");
+    }
+
+    const leafEncoding = amounts ? ["address", "uint256"] : ["address"];
+    const values = addresses.map((address) =>
+      amounts ? [address, amounts.get(address)!] : [address]
+    );
+    const tree = StandardMerkleTree.of(values, leafEncoding);
+
+    const distribution: IMerkleDistribution = {
+      contractId,
+      campaignId,
+      root: tree.root,
+      leafEncoding,
+      count: values.length,
+      startBlock: range.startBlock,
+      endBlock: range.endBlock,
+      generatedAt: new Date().toISOString(),
+      tree: tree.dump(),
+    };
+
+    this.persist(distribution);
+    this.remember(distribution, tree);
+
+    logger.info(
+      `Built Merkle tree for ${contractId}/${campaignId}: ${values.length} leaves, root ${tree.root}`
+    );
+    return distribution;
+  }
+
+  /**
+   * Get the stored distribution of a campaign
+   * @param contractId Contract identifier
+   * @param campaignId Campaign identifier
+   * @returns Distribution, or null if no tree was built
+   */
+  public getDistribution(
+    contractId: string,
+    campaignId: string
+  ): IMerkleDistribution | null {
+    const entry = this.load(contractId, campaignId);
+    return entry ? entry.distribution : null;
+  }
+
+  /**
+   * Get the proof for an address
+   * @param contractId Contract identifier
+   * @param campaignId Campaign identifier
+   * @param address Address to prove
+   * @returns Proof, or null if there is no tree or the address is not in it
+   */
+  public getProof(
+    contractId: string,
+    campaignId: string,
+    address: string
+  ): IMerkleProof | null {
+    const entry = this.load(contractId, campaignId);
+    if (!entry) {
+      return null;
+    }
+
+    const index = entry.indexByAddress.get(address.toLowerCase());
+    if (index === undefined) {
+      return null;
+    }
+
+    const value = entry.tree.at(index)!;
+    return {
+      root: entry.tree.root,
+      address: value[0],
+      amount: value.length > 1 ? value[1] : null,
+      leafEncoding: entry.distribution.leafEncoding,
+      proof: entry.tree.getProof(index),
+    };
+  }
+
+  private filePath(contractId: string, campaignId: string): string {
+    if (!ID_PATTERN.test(contractId) || !ID_PATTERN.test(campaignId)) {
+      throw new Error(`Invalid Merkle tree ID: ${contractId}/${campaignId}`);
+    }
+    return path.join(this.baseDir, contractId, `${campaignId}.json`);
+  }
+
+  /**
+   * Load a tree from memory or disk
+   * IDs that are not configuration IDs have no tree
+   */
+  private load(contractId: string, campaignId: string) {
+    if (!ID_PATTERN.test(contractId) || !ID_PATTERN.test(campaignId)) {
+      return null;
+    }
+
+    const key = `${contractId}/${campaignId}`;
+    const cached = this.trees.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const filePath = this.filePath(contractId, campaignId);
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    try {
+      const distribution: IMerkleDistribution = JSON.parse(
+        fs.readFileSync(filePath, "utf8")
+      );
+      const tree = StandardMerkleTree.load(distribution.tree);
+      return this.remember(distribution, tree);
+    } catch (error) {
+      logger.error(`Failed to load Merkle tree ${filePath}: ${error}`);
+      return null;
+    }
+  }
+
+  private remember(
+    distribution: IMerkleDistribution,
+    tree: StandardMerkleTree<string[]>
+  ) {
+    const indexByAddress = new Map<string, number>();
+    for (const [index, value] of tree.entries()) {
+      indexByAddress.set(value[0].toLowerCase(), index);
+    }
+
+    const entry = { distribution, tree, indexByAddress };
+    this.trees.set(
+      `${distribution.contractId}/${distribution.campaignId}`,
+      entry
+    );
+    return entry;
+  }
+
+  /**
+   * Write a distribution to disk atomically (temp file + rename)
+   */
+  private persist(distribution: IMerkleDistribution): void {
+    const filePath = this.filePath(
+      distribution.contractId,
+      distribution.campaignId
+    );
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(distribution, null, 2));
+    fs.renameSync(tmpPath, filePath);
+  }
+}
+
+// Create and export a singleton instance
+const merkleTreeStore = new MerkleTreeStore(
+  configLoader.getEnvConfig().dataDir
+);
+export default merkleTreeStore;
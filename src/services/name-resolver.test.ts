@@ -0,0 +1,141 @@
+import { IndeterminateResultError } from "./blockchain";
+import {
+  INameService,
+  NameResolutionError,
+  NameResolver,
+} from "./name-resolver";
+
+const ALICE = "0xAbCdEf0000000000000000000000000000000001";
+
+const SERVICES: INameService[] = [
+  {
+    id: "ens",
+    suffix: ".eth",
+    chainId: 1,
+    rpcUrl: "http://ens.invalid",
+    registry: "0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e",
+  },
+  {
+    id: "basenames",
+    suffix: ".base.eth",
+    chainId: 8453,
+    rpcUrl: "http://basenames.invalid",
+    registry: "0xB94704422c2a1E396835A571837Aa5AE53285a95",
+  },
+];
+
+/**
+ * Name resolver whose name services answer from a table of names
+ * @param names Address of each name, per service ID; a missing service fails
+ */
+function createResolver(names: Record<string, Record<string, string | null>>) {
+  const resolver = new NameResolver(SERVICES, 60);
+  const lookups: string[] = [];
+
+  for (const service of (resolver as any).services) {
+    jest
+      .spyOn(service.pool, "execute")
+      .mockImplementation(async (_operation, fn: any) =>
+        fn({
+          resolveName: async (name: string) => {
+            lookups.push(`${service.id}:${name}`);
+            if (!names[service.id]) {
+              throw new Error("RPC unavailable");
+            }
+            return names[service.id][name] ?? null;
+          },
+        })
+      );
+  }
+
+  return { resolver, lookups };
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("NameResolver", () => {
+  it("tells names apart from addresses", () => {
+    const { resolver } = createResolver({});
+
+    expect(resolver.isName("vitalik.eth")).toBe(true);
+    expect(resolver.isName("alice.base.eth")).toBe(true);
+    expect(resolver.isName(ALICE)).toBe(false);
+    expect(resolver.isName("not-an-address")).toBe(false);
+  });
+
+  it("resolves names on the service with the most specific suffix", async () => {
+    const { resolver, lookups } = createResolver({
+      ens: { "alice.eth": ALICE },
+      basenames: { "alice.base.eth": ALICE },
+    });
+
+    await expect(resolver.resolve("Alice.eth")).resolves.toEqual({
+      name: "alice.eth",
+      address: ALICE.toLowerCase(),
+      service: "ens",
+      chainId: 1,
+    });
+    await expect(resolver.resolve("alice.base.eth")).resolves.toMatchObject({
+      service: "basenames",
+      chainId: 8453,
+    });
+    expect(lookups).toEqual(["ens:alice.eth", "basenames:alice.base.eth"]);
+  });
+
+  it("caches resolutions, including names without an address", async () => {
+    const { resolver, lookups } = createResolver({
+      ens: { "alice.eth": ALICE },
+    });
+
+    await resolver.resolve("alice.eth");
+    await resolver.resolve("ALICE.eth");
+    const unset = await resolver.resolve("nobody.eth");
+    await resolver.resolve("nobody.eth");
+
+    expect(unset.address).toBeNull();
+    expect(lookups).toEqual(["ens:alice.eth", "ens:nobody.eth"]);
+  });
+
+  it("rejects invalid names and names without a name service", async () => {
+    const { resolver, lookups } = createResolver({});
+
+    await expect(resolver.resolve("alice..eth")).rejects.toThrow(
+      NameResolutionError
+    );
+    await expect(resolver.resolve("alice.sol")).rejects.toThrow(
+      "Name resolution is not configured for alice.sol"
+    );
+    expect(lookups).toEqual([]);
+  });
+
+  it("reports failed lookups as indeterminate without caching them", async () => {
+    const { resolver, lookups } = createResolver({});
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      await expect(resolver.resolve("alice.eth")).rejects.toThrow(
+        IndeterminateResultError
+      );
+    }
+    expect(lookups).toEqual(["ens:alice.eth", "ens:alice.eth"]);
+  });
+
+  it("resolves batches with a result or error per name", async () => {
+    const { resolver, lookups } = createResolver({
+      ens: { "alice.eth": ALICE },
+    });
+
+    const results = await resolver.resolveMany([
+      "alice.eth",
+      "alice.sol",
+      "alice.eth",
+    ]);
+
+    expect(results.get("alice.eth")).toMatchObject({
+      address: ALICE.toLowerCase(),
+    });
+    expect(results.get("alice.sol")).toBeInstanceOf(NameResolutionError);
+    expect(lookups).toEqual(["ens:alice.eth"]);
+  });
+});
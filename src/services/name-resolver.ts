@@ -0,0 +1,196 @@
+import { ethers } from "ethers";
+import NodeCache from "node-cache";
+import configLoader from "../config/config-loader";
+import logger from "../utils/logger";
+import { IndeterminateResultError } from "./blockchain";
+import { RpcProviderPool } from "./rpc-pool";
+
+// Name resolution constants
+const RESOLVE_TIMEOUT = 10000; // Registry, resolver and CCIP lookups of one name
+const RESOLVE_CONCURRENCY = 10; // Names of a batch resolved at once
+
+/**
+ * A name service: names ending in `suffix` are resolved through the
+ * ENS-compatible `registry` on `chainId`
+ */
+export interface INameService {
+  id: string;
+  suffix: string;
+  chainId: number;
+  rpcUrl: string;
+  registry: string;
+}
+
+/**
+ * Outcome of a name lookup; address is null when the name has no address
+ */
+export interface INameResolution {
+  name: string;
+  address: string | null;
+  service: string;
+  chainId: number;
+}
+
+/**
+ * Thrown for names that are invalid or have no configured name service
+ */
+export class NameResolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NameResolutionError";
+  }
+}
+
+/**
+ * Resolves ENS names and Basenames to addresses
+ * Each name service has its own RPC pool bound to its registry; results,
+ * including names without an address, are cached for NAME_CACHE_TTL seconds
+ */
+export class NameResolver {
+  private services: Array<INameService & { pool: RpcProviderPool }>;
+  private cache: NodeCache;
+
+  /**
+   * @param services Configured name services
+   * @param ttl Seconds resolutions are cached
+   */
+  constructor(services: INameService[], ttl: number) {
+    // Most specific suffix first, so name.base.eth is not looked up on ENS
+    this.services = [...services]
+      .sort((a, b) => b.suffix.length - a.suffix.length)
+      .map((service) => ({
+        ...service,
+        pool: new RpcProviderPool(
+          service.id,
+          service.rpcUrl,
+          [],
+          service.chainId,
+          service.registry
+        ),
+      }));
+    this.cache = new NodeCache({ stdTTL: ttl, checkperiod: 120 });
+  }
+
+  /**
+   * Check if a value is a name (e.g. vitalik.eth) rather than an address
+   * @param value Address parameter of a request
+   */
+  public isName(value: string): boolean {
+    return !/^0x[a-fA-F0-9]{40}$/.test(value) && value.includes(".");
+  }
+
+  /**
+   * Resolve a name to an address
+   * @param name ENS name or Basename
+   * @returns Resolution, with a null address if the name has none
+   * @throws NameResolutionError if the name is invalid or unsupported
+   * @throws IndeterminateResultError if the lookup fails
+   */
+  public async resolve(name: string): Promise<INameResolution> {
+    let normalized: string;
+    try {
+      normalized = ethers.ensNormalize(name);
+    } catch (error) {
+      throw new NameResolutionError(`Invalid name: ${name}`);
+    }
+
+    const service = this.services.find((s) => normalized.endsWith(s.suffix));
+    if (!service) {
+      throw new NameResolutionError(
+        `Name resolution is not configured for ${name}`
+      );
+    }
+
+    const cached = this.cache.get<INameResolution>(normalized);
+    if (cached) {
+      logger.debug(`Cache hit for name ${normalized}: ${cached.address}`);
+      return cached;
+    }
+
+    let address: string | null;
+    try {
+      address = await service.pool.execute(
+        "resolveName",
+        (provider) => provider.resolveName(normalized),
+        RESOLVE_TIMEOUT
+      );
+    } catch (error) {
+      logger.warn(`Failed to resolve ${normalized} on ${service.id}: ${error}`);
+      throw new IndeterminateResultError(`Could not resolve ${name}`);
+    }
+
+    const resolution: INameResolution = {
+      name: normalized,
+      address: address ? address.toLowerCase() : null,
+      service: service.id,
+      chainId: service.chainId,
+    };
+    this.cache.set(normalized, resolution);
+
+    logger.info(
+      `Resolved ${normalized} to ${resolution.address || "no address"} via ${
+        service.id
+      }`
+    );
+    return resolution;
+  }
+
+  /**
+   * Resolve the names of a batch, a few at a time
+   * @param names Names to resolve
+   * @returns Resolution or error per name
+   */
+  public async resolveMany(
+    names: string[]
+  ): Promise<Map<string, INameResolution | Error>> {
+    const results = new Map<string, INameResolution | Error>();
+    const unique = [...new Set(names)];
+
+    for (let i = 0; i < unique.length; i += RESOLVE_CONCURRENCY) {
+      await Promise.all(
+        unique.slice(i, i + RESOLVE_CONCURRENCY).map(async (name) => {
+          try {
+            results.set(name, await this.resolve(name));
+          } catch (error: any) {
+            results.set(name, error);
+          }
+        })
+      );
+    }
+
+    return results;
+  }
+}
+
+// Create and export a singleton instance with the name services that have
+// an RPC URL
+const {
+  ensRpcUrl,
+  ensRegistryAddress,
+  basenameRpcUrl,
+  basenameRegistryAddress,
+  nameCacheTtl,
+} = configLoader.getEnvConfig();
+
+const nameServices: INameService[] = [];
+if (ensRpcUrl) {
+  nameServices.push({
+    id: "ens",
+    suffix: ".eth",
+    chainId: 1,
+    rpcUrl: ensRpcUrl,
+    registry: ensRegistryAddress,
+  });
+}
+if (basenameRpcUrl) {
+  nameServices.push({
+    id: "basenames",
+    suffix: ".base.eth",
+    chainId: 8453,
+    rpcUrl: basenameRpcUrl,
+    registry: basenameRegistryAddress,
+  });
+}
+
+const nameResolver = new NameResolver(nameServices, nameCacheTtl);
+export default nameResolver;
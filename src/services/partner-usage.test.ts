@@ -0,0 +1,88 @@
+import { IPartner } from "../config/partner-loader";
+import { PartnerUsageTracker } from "./partner-usage";
+
+/**
+ * Build a partner with quotas
+ */
+function partner(quotas: IPartner["quotas"]): IPartner {
+  return {
+    id: "galxe",
+    name: "Galxe",
+    apiKey: "key",
+    corsOrigins: [],
+    webhooks: [],
+    quotas,
+  };
+}
+
+describe("PartnerUsageTracker", () => {
+  let tracker: PartnerUsageTracker;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date("2025-03-10T12:00:15Z") });
+    tracker = new PartnerUsageTracker();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("counts quota units per address and requests once", () => {
+    const galxe = partner({ perMinute: 100 });
+
+    expect(tracker.consume(galxe, 40)).toEqual({ allowed: true });
+    expect(tracker.consume(galxe)).toEqual({ allowed: true });
+
+    expect(tracker.getUsage().galxe).toMatchObject({
+      minuteCount: 41,
+      dayCount: 41,
+      totalRequests: 2,
+      rejectedRequests: 0,
+    });
+  });
+
+  it("rejects a batch exceeding the remaining quota without consuming it", () => {
+    const galxe = partner({ perMinute: 100 });
+    tracker.consume(galxe, 90);
+
+    expect(tracker.consume(galxe, 11)).toEqual({
+      allowed: false,
+      limit: "perMinute",
+      retryAfter: 45,
+    });
+    // The remaining units are still available
+    expect(tracker.consume(galxe, 10)).toEqual({ allowed: true });
+    expect(tracker.getUsage().galxe).toMatchObject({
+      minuteCount: 100,
+      totalRequests: 2,
+      rejectedRequests: 1,
+    });
+  });
+
+  it("resets the minute window", () => {
+    const galxe = partner({ perMinute: 10 });
+    tracker.consume(galxe, 10);
+    expect(tracker.consume(galxe).allowed).toBe(false);
+
+    jest.setSystemTime(new Date("2025-03-10T12:01:00Z"));
+
+    expect(tracker.consume(galxe).allowed).toBe(true);
+    expect(tracker.getUsage().galxe.dayCount).toBe(11);
+  });
+
+  it("enforces the daily quota until midnight UTC", () => {
+    const galxe = partner({ perMinute: 100, perDay: 150 });
+    tracker.consume(galxe, 100);
+    jest.setSystemTime(new Date("2025-03-10T23:59:00Z"));
+    tracker.consume(galxe, 50);
+
+    expect(tracker.consume(galxe)).toEqual({
+      allowed: false,
+      limit: "perDay",
+      retryAfter: 60,
+    });
+
+    jest.setSystemTime(new Date("2025-03-11T00:00:00Z"));
+    expect(tracker.consume(galxe, 100)).toEqual({ allowed: true });
+  });
+});
@@ -0,0 +1,139 @@
+import { IPartner } from "../config/partner-loader";
+
+/**
+ * Usage counters of a single partner
+ * Minute and day counts are quota units (one per verified address), totals
+ * count requests
+ */
+export interface IPartnerUsage {
+  minuteCount: number;
+  dayCount: number;
+  totalRequests: number;
+  rejectedRequests: number;
+  lastRequestAt: string | null;
+}
+
+/**
+ * Outcome of consuming a request from a partner's quota
+ */
+export interface IQuotaResult {
+  allowed: boolean;
+  limit?: "perMinute" | "perDay";
+  retryAfter?: number;
+}
+
+interface UsageState extends IPartnerUsage {
+  minuteWindow: number;
+  dayWindow: string;
+}
+
+/**
+ * Tracks per-partner usage in fixed per-minute and per-day (UTC) windows and
+ * enforces the partner quotas
+ */
+export class PartnerUsageTracker {
+  private usage: Map<string, UsageState> = new Map();
+
+  /**
+   * Count a request against a partner's quotas
+   * A request is rejected, without consuming anything, when its units would
+   * exceed the remaining quota
+   * @param partner Partner configuration
+   * @param units Quota units of the request (addresses of a batch or job)
+   * @returns Whether the request is allowed, and when to retry if not
+   */
+  public consume(partner: IPartner, units = 1): IQuotaResult {
+    const now = new Date();
+    const state = this.getState(partner.id, now);
+    state.lastRequestAt = now.toISOString();
+
+    const { perMinute, perDay } = partner.quotas;
+
+    if (perDay && state.dayCount + units > perDay) {
+      state.rejectedRequests++;
+      const nextDay = Date.UTC(
+        now.getUTCFullYear(),
+        now.getUTCMonth(),
+        now.getUTCDate() + 1
+      );
+      return {
+        allowed: false,
+        limit: "perDay",
+        retryAfter: Math.ceil((nextDay - now.getTime()) / 1000),
+      };
+    }
+
+    if (perMinute && state.minuteCount + units > perMinute) {
+      state.rejectedRequests++;
+      return {
+        allowed: false,
+        limit: "perMinute",
+        retryAfter: 60 - now.getUTCSeconds(),
+      };
+    }
+
+    state.minuteCount += units;
+    state.dayCount += units;
+    state.totalRequests++;
+    return { allowed: true };
+  }
+
+  /**
+   * Get usage counters of every partner that made requests
+   * @returns Record of partner ID to usage
+   */
+  public getUsage(): Record<string, IPartnerUsage> {
+    const now = new Date();
+    const result: Record<string, IPartnerUsage> = {};
+
+    for (const partnerId of this.usage.keys()) {
+      const state = this.getState(partnerId, now);
+      result[partnerId] = {
+        minuteCount: state.minuteCount,
+        dayCount: state.dayCount,
+        totalRequests: state.totalRequests,
+        rejectedRequests: state.rejectedRequests,
+        lastRequestAt: state.lastRequestAt,
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the usage state of a partner, rolling its windows forward if needed
+   */
+  private getState(partnerId: string, now: Date): UsageState {
+    const minuteWindow = Math.floor(now.getTime() / 60000);
+    const dayWindow = now.toISOString().slice(0, 10);
+
+    let state = this.usage.get(partnerId);
+    if (!state) {
+      state = {
+        minuteWindow,
+        dayWindow,
+        minuteCount: 0,
+        dayCount: 0,
+        totalRequests: 0,
+        rejectedRequests: 0,
+        lastRequestAt: null,
+      };
+      this.usage.set(partnerId, state);
+    }
+
+    if (state.minuteWindow !== minuteWindow) {
+      state.minuteWindow = minuteWindow;
+      state.minuteCount = 0;
+    }
+    if (state.dayWindow !== dayWindow) {
+      state.dayWindow = dayWindow;
+      state.dayCount = 0;
+    }
+
+    return state;
+  }
+}
+
+// Create and export a singleton instance
+const partnerUsage = new PartnerUsageTracker();
+export default partnerUsage;
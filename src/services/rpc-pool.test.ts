@@ -0,0 +1,128 @@
+import { ethers } from "ethers";
+import { registry } from "../utils/metrics";
+import { RpcProviderPool, RpcUnavailableError } from "./rpc-pool";
+
+describe("RpcProviderPool", () => {
+  let pool: RpcProviderPool;
+
+  beforeEach(() => {
+    pool = new RpcProviderPool(
+      "test",
+      "http://primary.invalid",
+      ["http://fallback.invalid"],
+      8453
+    );
+  });
+
+  afterEach(() => {
+    pool.destroy();
+  });
+
+  // Fails on the primary endpoint and answers on the fallback
+  const primaryDown = (provider: ethers.JsonRpcProvider) =>
+    provider === pool.getPrimaryProvider()
+      ? Promise.reject(new Error("connection refused"))
+      : Promise.resolve("fallback");
+
+  it("serves requests from the primary endpoint while it is healthy", async () => {
+    const served: ethers.JsonRpcProvider[] = [];
+
+    const result = await pool.execute("getBlockNumber", async (provider) => {
+      served.push(provider);
+      return 42;
+    });
+
+    expect(result).toBe(42);
+    expect(served).toEqual([pool.getPrimaryProvider()]);
+  });
+
+  it("fails over to the fallback when the primary fails", async () => {
+    await expect(pool.execute("getBlockNumber", primaryDown)).resolves.toBe(
+      "fallback"
+    );
+
+    const [primary, fallback] = pool.getHealth();
+    expect(primary.totalErrors).toBe(1);
+    expect(primary.lastError).toContain("connection refused");
+    expect(fallback.totalRequests).toBe(1);
+    expect(fallback.totalErrors).toBe(0);
+  });
+
+  it("fails over when an endpoint times out", async () => {
+    const result = await pool.execute(
+      "getBlockNumber",
+      (provider) =>
+        provider === pool.getPrimaryProvider()
+          ? new Promise<string>(() => undefined)
+          : Promise.resolve("fallback"),
+      20
+    );
+
+    expect(result).toBe("fallback");
+    expect(pool.getHealth()[0].lastError).toContain("timeout after 20ms");
+  });
+
+  it("takes an endpoint out of rotation after consecutive failures", async () => {
+    for (let i = 0; i < 3; i++) {
+      await pool.execute("getBlockNumber", primaryDown);
+    }
+    expect(pool.getHealth()[0].healthy).toBe(false);
+
+    // The fallback is now tried first
+    const served: ethers.JsonRpcProvider[] = [];
+    await pool.execute("getBlockNumber", async (provider) => {
+      served.push(provider);
+      return 1;
+    });
+    expect(served).toHaveLength(1);
+    expect(served[0]).not.toBe(pool.getPrimaryProvider());
+  });
+
+  it("does not fail over when the call itself is rejected", async () => {
+    const revert = ethers.makeError("execution reverted", "CALL_EXCEPTION", {
+      action: "call",
+      data: null,
+      reason: null,
+      transaction: { to: null, data: "0x" },
+      invocation: null,
+      revert: null,
+    });
+    const fn = jest.fn().mockRejectedValue(revert);
+
+    await expect(pool.execute("call", fn)).rejects.toBe(revert);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(pool.getHealth()[0].totalErrors).toBe(0);
+  });
+
+  it("throws when every endpoint fails", async () => {
+    const failing = pool.execute("getBlockNumber", () =>
+      Promise.reject(new Error("down"))
+    );
+
+    await expect(failing).rejects.toBeInstanceOf(RpcUnavailableError);
+    await expect(failing).rejects.toThrow(
+      "All RPC endpoints failed for getBlockNumber on test"
+    );
+  });
+
+  it("records requests and errors per endpoint, without block ranges", async () => {
+    registry.resetMetrics();
+
+    await pool.execute("getLogs 100-200", primaryDown);
+
+    const requests = await registry.getSingleMetricAsString(
+      "rpc_requests_total"
+    );
+    expect(requests).toContain(
+      'rpc_requests_total{pool="test",endpoint="primary:primary.invalid",method="getLogs",status="error"} 1'
+    );
+    expect(requests).toContain(
+      'rpc_requests_total{pool="test",endpoint="fallback1:fallback.invalid",method="getLogs",status="ok"} 1'
+    );
+    expect(
+      await registry.getSingleMetricAsString("rpc_errors_total")
+    ).toContain(
+      'rpc_errors_total{pool="test",endpoint="primary:primary.invalid",method="getLogs",type="UNKNOWN_ERROR"} 1'
+    );
+  });
+});
@@ -0,0 +1,441 @@
+import { ethers } from "ethers";
+import { performance } from "perf_hooks";
+import logger from "../utils/logger";
+import { rpcDuration, rpcErrors, rpcRequests } from "../utils/metrics";
+
+// Health tracking constants
+const HEALTH_WINDOW = 20; // Number of recent outcomes used to compute the error rate
+const LATENCY_EMA_ALPHA = 0.3; // Weight of the newest sample in the latency moving average
+const UNHEALTHY_ERROR_RATE = 0.5; // Error rate at which an endpoint is taken out of rotation
+const UNHEALTHY_CONSECUTIVE_FAILURES = 3; // Consecutive failures before an endpoint is marked unhealthy
+const DEFAULT_REQUEST_TIMEOUT = 5000; // 5 seconds per RPC request
+const PROBE_INTERVAL = 30000; // Re-probe unhealthy endpoints every 30 seconds
+const PROBE_TIMEOUT = 3000; // 3 second timeout for health probes
+
+/**
+ * Thrown when every endpoint of a pool failed an operation, so callers can
+ * tell an RPC outage apart from an invalid request
+ */
+export class RpcUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RpcUnavailableError";
+  }
+}
+
+/**
+ * Public health snapshot of a single RPC endpoint
+ */
+export interface IRpcEndpointHealth {
+  label: string;
+  primary: boolean;
+  healthy: boolean;
+  latencyMs: number | null;
+  errorRate: number;
+  totalRequests: number;
+  totalErrors: number;
+  consecutiveFailures: number;
+  lastError: string | null;
+}
+
+/**
+ * Result of an on-demand probe of a single RPC endpoint
+ * chainId and head block are null when the endpoint did not answer
+ */
+export interface IRpcEndpointProbe {
+  label: string;
+  primary: boolean;
+  reachable: boolean;
+  chainId: number | null;
+  blockNumber: number | null;
+  blockTimestamp: number | null;
+  latencyMs: number | null;
+  error: string | null;
+}
+
+/**
+ * Internal state tracked for each endpoint in the pool
+ */
+interface RpcEndpoint {
+  url: string;
+  label: string;
+  primary: boolean;
+  provider: ethers.JsonRpcProvider;
+  healthy: boolean;
+  latencyMs: number | null;
+  outcomes: boolean[];
+  consecutiveFailures: number;
+  totalRequests: number;
+  totalErrors: number;
+  lastError: string | null;
+}
+
+/**
+ * Pool of JSON-RPC providers for a single chain
+ * Orders endpoints by health score, fails over on errors or timeouts
+ * and periodically re-probes endpoints that were taken out of rotation
+ */
+export class RpcProviderPool {
+  private endpoints: RpcEndpoint[];
+  private probeTimer: NodeJS.Timeout;
+
+  /**
+   * @param name Name used in log messages (usually the contract ID)
+   * @param primaryUrl Primary RPC URL
+   * @param fallbackUrls Fallback RPC URLs, in order of preference
+   * @param chainId Chain ID of the network served by the endpoints
+   * @param ensRegistry ENS-compatible registry on this chain used to resolve
+   *                    names (e.g. Basenames on Base); defaults to ethers'
+   */
+  constructor(
+    private readonly name: string,
+    primaryUrl: string,
+    fallbackUrls: string[],
+    chainId: number,
+    ensRegistry?: string
+  ) {
+    const urls = [primaryUrl, ...fallbackUrls.filter((u) => u !== primaryUrl)];
+    const network = ensRegistry
+      ? new ethers.Network(
+          ethers.Network.from(chainId).name,
+          chainId
+        ).attachPlugin(new ethers.EnsPlugin(ensRegistry, chainId))
+      : ethers.Network.from(chainId);
+
+    this.endpoints = urls.map((url, index) => ({
+      url,
+      label: RpcProviderPool.labelFor(url, index),
+      primary: index === 0,
+      // A static network avoids endless network detection retries on dead endpoints
+      provider: new ethers.JsonRpcProvider(url, network, {
+        staticNetwork: network,
+      }),
+      healthy: true,
+      latencyMs: null,
+      outcomes: [],
+      consecutiveFailures: 0,
+      totalRequests: 0,
+      totalErrors: 0,
+      lastError: null,
+    }));
+
+    this.probeTimer = setInterval(
+      () => this.probeUnhealthyEndpoints(),
+      PROBE_INTERVAL
+    );
+    this.probeTimer.unref();
+
+    logger.info(
+      `Initialized RPC pool for ${name} with ${this.endpoints.length} endpoint(s)`
+    );
+  }
+
+  /**
+   * Build a log-safe label for an endpoint (host only, no API keys in paths)
+   */
+  private static labelFor(url: string, index: number): string {
+    const role = index === 0 ? "primary" : `fallback${index}`;
+    try {
+      return `${role}:${new URL(url).host}`;
+    } catch (e) {
+      return role;
+    }
+  }
+
+  /**
+   * Metric label for an operation: its name without the block range
+   */
+  private static methodFor(operation: string): string {
+    return operation.replace(/\s+\d+-\d+$/, "");
+  }
+
+  /**
+   * Metric label for a failed request: the ethers error code, or "timeout"
+   */
+  private static errorTypeFor(error: unknown): string {
+    if (error instanceof Error && error.message.includes("timeout after")) {
+      return "timeout";
+    }
+    const code = (error as { code?: unknown })?.code;
+    return typeof code === "string" ? code : "UNKNOWN_ERROR";
+  }
+
+  /**
+   * Check if an error comes from the call itself rather than the endpoint
+   */
+  private static isCallError(error: unknown): boolean {
+    return (
+      ethers.isError(error, "CALL_EXCEPTION") ||
+      ethers.isError(error, "BAD_DATA") ||
+      ethers.isError(error, "INVALID_ARGUMENT")
+    );
+  }
+
+  /**
+   * Get the primary provider, used for things that do not need failover
+   * such as constructing contract instances
+   */
+  public getPrimaryProvider(): ethers.JsonRpcProvider {
+    return this.endpoints[0].provider;
+  }
+
+  /**
+   * Execute an RPC operation with failover across the pool
+   * @param operation Operation name used in logs
+   * @param fn Function performing the call against a given provider
+   * @param timeoutMs Timeout for each attempt
+   * @returns Result of the first endpoint that succeeds
+   * @throws RpcUnavailableError if every endpoint fails
+   */
+  public async execute<T>(
+    operation: string,
+    fn: (provider: ethers.JsonRpcProvider) => Promise<T>,
+    timeoutMs = DEFAULT_REQUEST_TIMEOUT
+  ): Promise<T> {
+    const candidates = this.getOrderedEndpoints();
+    const method = RpcProviderPool.methodFor(operation);
+    let lastError: unknown = null;
+
+    for (let i = 0; i < candidates.length; i++) {
+      const endpoint = candidates[i];
+      const labels = { pool: this.name, endpoint: endpoint.label, method };
+      const started = performance.now();
+
+      try {
+        const result = await this.withTimeout(
+          fn(endpoint.provider),
+          timeoutMs,
+          `${operation} timeout after ${timeoutMs}ms`
+        );
+        const elapsed = performance.now() - started;
+        this.recordSuccess(endpoint, elapsed);
+        rpcRequests.inc({ ...labels, status: "ok" });
+        rpcDuration.observe(labels, elapsed / 1000);
+
+        if (i > 0) {
+          logger.info(
+            `RPC ${operation} for ${this.name} served by ${
+              endpoint.label
+            } after failover (${elapsed.toFixed(0)}ms)`
+          );
+        } else {
+          logger.debug(
+            `RPC ${operation} for ${this.name} served by ${
+              endpoint.label
+            } (${elapsed.toFixed(0)}ms)`
+          );
+        }
+        return result;
+      } catch (error) {
+        // The endpoint answered, the call itself was rejected (e.g. a revert):
+        // failing over would not change the outcome
+        if (RpcProviderPool.isCallError(error)) {
+          const elapsed = performance.now() - started;
+          this.recordSuccess(endpoint, elapsed);
+          rpcRequests.inc({ ...labels, status: "call_error" });
+          rpcDuration.observe(labels, elapsed / 1000);
+          throw error;
+        }
+
+        lastError = error;
+        this.recordFailure(endpoint, error);
+        rpcRequests.inc({ ...labels, status: "error" });
+        rpcErrors.inc({ ...labels, type: RpcProviderPool.errorTypeFor(error) });
+        logger.warn(
+          `RPC ${operation} for ${this.name} failed on ${endpoint.label}: ${error}`
+        );
+      }
+    }
+
+    throw new RpcUnavailableError(
+      `All RPC endpoints failed for ${operation} on ${this.name}: ${lastError}`
+    );
+  }
+
+  /**
+   * Get a health snapshot of every endpoint in the pool
+   */
+  public getHealth(): IRpcEndpointHealth[] {
+    return this.endpoints.map((endpoint) => ({
+      label: endpoint.label,
+      primary: endpoint.primary,
+      healthy: endpoint.healthy,
+      latencyMs:
+        endpoint.latencyMs === null ? null : Math.round(endpoint.latencyMs),
+      errorRate: this.errorRate(endpoint),
+      totalRequests: endpoint.totalRequests,
+      totalErrors: endpoint.totalErrors,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      lastError: endpoint.lastError,
+    }));
+  }
+
+  /**
+   * Query the chain ID and head block of every endpoint, bypassing failover
+   * Used for readiness checks; does not change the rotation of the pool
+   */
+  public async probe(): Promise<IRpcEndpointProbe[]> {
+    return Promise.all(
+      this.endpoints.map(async (endpoint) => {
+        const started = performance.now();
+        try {
+          const [chainId, block] = await this.withTimeout(
+            Promise.all([
+              endpoint.provider.send("eth_chainId", []),
+              endpoint.provider.send("eth_getBlockByNumber", ["latest", false]),
+            ]),
+            PROBE_TIMEOUT,
+            "Probe timeout"
+          );
+          return {
+            label: endpoint.label,
+            primary: endpoint.primary,
+            reachable: true,
+            chainId: Number(chainId),
+            blockNumber: block ? Number(block.number) : null,
+            blockTimestamp: block ? Number(block.timestamp) : null,
+            latencyMs: Math.round(performance.now() - started),
+            error: null,
+          };
+        } catch (error) {
+          return {
+            label: endpoint.label,
+            primary: endpoint.primary,
+            reachable: false,
+            chainId: null,
+            blockNumber: null,
+            blockTimestamp: null,
+            latencyMs: null,
+            error: String(error),
+          };
+        }
+      })
+    );
+  }
+
+  /**
+   * Stop probing and release all providers
+   */
+  public destroy(): void {
+    clearInterval(this.probeTimer);
+    for (const endpoint of this.endpoints) {
+      endpoint.provider.destroy();
+    }
+  }
+
+  /**
+   * Order endpoints for the next request: healthy endpoints by score first,
+   * unhealthy ones last so they are still tried as a last resort
+   */
+  private getOrderedEndpoints(): RpcEndpoint[] {
+    const healthy = this.endpoints
+      .filter((e) => e.healthy)
+      .sort((a, b) => this.score(a) - this.score(b));
+    const unhealthy = this.endpoints.filter((e) => !e.healthy);
+    return [...healthy, ...unhealthy];
+  }
+
+  /**
+   * Lower is better. Latency weighted by error rate, with a small bias
+   * towards the configured order so the primary wins ties
+   */
+  private score(endpoint: RpcEndpoint): number {
+    const latency = endpoint.latencyMs ?? 0;
+    const orderBias = this.endpoints.indexOf(endpoint) * 50;
+    return latency * (1 + this.errorRate(endpoint) * 4) + orderBias;
+  }
+
+  private errorRate(endpoint: RpcEndpoint): number {
+    if (endpoint.outcomes.length === 0) {
+      return 0;
+    }
+    const failures = endpoint.outcomes.filter((ok) => !ok).length;
+    return failures / endpoint.outcomes.length;
+  }
+
+  private recordOutcome(endpoint: RpcEndpoint, ok: boolean): void {
+    endpoint.outcomes.push(ok);
+    if (endpoint.outcomes.length > HEALTH_WINDOW) {
+      endpoint.outcomes.shift();
+    }
+    endpoint.totalRequests++;
+  }
+
+  private recordSuccess(endpoint: RpcEndpoint, elapsedMs: number): void {
+    this.recordOutcome(endpoint, true);
+    endpoint.consecutiveFailures = 0;
+    endpoint.latencyMs =
+      endpoint.latencyMs === null
+        ? elapsedMs
+        : LATENCY_EMA_ALPHA * elapsedMs +
+          (1 - LATENCY_EMA_ALPHA) * endpoint.latencyMs;
+  }
+
+  private recordFailure(endpoint: RpcEndpoint, error: unknown): void {
+    this.recordOutcome(endpoint, false);
+    endpoint.totalErrors++;
+    endpoint.consecutiveFailures++;
+    endpoint.lastError = String(error);
+
+    const tooManyErrors =
+      endpoint.outcomes.length >= 5 &&
+      this.errorRate(endpoint) >= UNHEALTHY_ERROR_RATE;
+
+    if (
+      endpoint.healthy &&
+      (endpoint.consecutiveFailures >= UNHEALTHY_CONSECUTIVE_FAILURES ||
+        tooManyErrors)
+    ) {
+      endpoint.healthy = false;
+      logger.warn(
+        `RPC endpoint ${endpoint.label} for ${this.name} marked unhealthy (${endpoint.consecutiveFailures} consecutive failures)`
+      );
+    }
+  }
+
+  /**
+   * Re-probe unhealthy endpoints and put them back in rotation when they respond
+   */
+  private async probeUnhealthyEndpoints(): Promise<void> {
+    const unhealthy = this.endpoints.filter((e) => !e.healthy);
+
+    await Promise.all(
+      unhealthy.map(async (endpoint) => {
+        const started = performance.now();
+        try {
+          await this.withTimeout(
+            endpoint.provider.getBlockNumber(),
+            PROBE_TIMEOUT,
+            "Probe timeout"
+          );
+          endpoint.healthy = true;
+          endpoint.outcomes = [];
+          endpoint.consecutiveFailures = 0;
+          endpoint.latencyMs = performance.now() - started;
+          logger.info(
+            `RPC endpoint ${endpoint.label} for ${this.name} recovered`
+          );
+        } catch (error) {
+          endpoint.lastError = String(error);
+          logger.debug(
+            `RPC endpoint ${endpoint.label} for ${this.name} still unhealthy: ${error}`
+          );
+        }
+      })
+    );
+  }
+
+  private withTimeout<T>(
+    promise: Promise<T>,
+    timeoutMs: number,
+    message: string
+  ): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const timeoutPromise = new Promise<T>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(message)), timeoutMs);
+    });
+    return Promise.race([promise, timeoutPromise]).finally(() =>
+      clearTimeout(timer)
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { VerificationTrace } from "./verification-trace";
+
+const log = (blockNumber: number, index: number) => ({
+  blockNumber,
+  index,
+  transactionHash: `0x${blockNumber.toString(16)}`,
+  topics: [],
+  data: "0x",
+});
+
+describe("VerificationTrace", () => {
+  it("records checks in order with their block ranges", () => {
+    const trace = new VerificationTrace();
+
+    trace.step("cache", false);
+    trace.step("index", true, { fromBlock: 10, toBlock: 20, detail: "1 log" });
+
+    expect(trace.steps).toEqual([
+      { check: "cache", result: false },
+      {
+        check: "index",
+        result: true,
+        fromBlock: 10,
+        toBlock: 20,
+        detail: "1 log",
+      },
+    ]);
+  });
+
+  it("keeps the first evidence", () => {
+    const trace = new VerificationTrace();
+
+    trace.setEvidence(log(15, 2), "Transfer");
+    trace.setEvidence(log(12, 0), "Approval");
+
+    expect(trace.evidence).toEqual({
+      transactionHash: "0xf",
+      blockNumber: 15,
+      logIndex: 2,
+      event: "Transfer",
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { IIndexedLog } from "./indexer";
+import { INameResolution } from "./name-resolver";
+
+/**
+ * A single check performed while verifying an address
+ * - check: what was checked (cache, minter, index, direct-transactions, ...)
+ * - result: whether the check found an interaction
+ * - fromBlock/toBlock: block range covered by the check, when relevant
+ * - detail: human readable context (counts, reasons, errors)
+ */
+export interface IDecisionStep {
+  check: string;
+  result: boolean;
+  fromBlock?: number;
+  toBlock?: number;
+  detail?: string;
+}
+
+/**
+ * On-chain evidence that made an address eligible
+ */
+export interface IInteractionEvidence {
+  transactionHash: string;
+  blockNumber: number;
+  logIndex: number;
+  event: string | null;
+}
+
+/**
+ * Records the decision path of a verification for explain mode
+ * Passed down through the verification checks, each of which appends the
+ * steps it performed and, when it finds one, the matching log
+ */
+export class VerificationTrace {
+  public steps: IDecisionStep[] = [];
+  public blockRange: { fromBlock: number; toBlock: number } | null = null;
+  public evidence: IInteractionEvidence | null = null;
+  // Set when the verdict relies on the transaction count heuristic
+  public heuristic = false;
+  // Set when the address parameter was a name resolved to an address
+  public resolution: INameResolution | null = null;
+
+  /**
+   * Record a performed check
+   * @param check Name of the check
+   * @param result Whether it found an interaction
+   * @param details Optional block range and detail message
+   */
+  public step(
+    check: string,
+    result: boolean,
+    details: Omit<IDecisionStep, "check" | "result"> = {}
+  ): void {
+    this.steps.push({ check, result, ...details });
+  }
+
+  /**
+   * Record the overall block range considered for the verification
+   */
+  public setBlockRange(fromBlock: number, toBlock: number): void {
+    this.blockRange = { fromBlock, toBlock };
+  }
+
+  /**
+   * Record the log that made the address eligible (first one wins)
+   * @param log Matching log
+   * @param event Decoded event name, if known
+   */
+  public setEvidence(log: IIndexedLog, event: string | null): void {
+    if (this.evidence) {
+      return;
+    }
+
+    this.evidence = {
+      transactionHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      logIndex: log.index,
+      event,
+    };
+  }
+}
@@ -0,0 +1,238 @@
+import dns from "dns";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import partnerRegistry, {
+  IWebhookSubscription,
+} from "../config/partner-loader";
+import { signBody } from "../utils/signature";
+import { BlockchainService } from "./blockchain";
+import { IObservedInteraction, InteractionListener } from "./indexer";
+import { WebhookDispatcher } from "./webhooks";
+
+const CONTRACT_ID = "doge_base_aerodome";
+const CAMPAIGN_ID = "doge_december_2024";
+const ALICE = "0x1111111111111111111111111111111111111111";
+const RETRY_DELAY = 30000;
+
+const subscription: IWebhookSubscription = {
+  id: "galxe-doge",
+  partnerId: "galxe",
+  contract: CONTRACT_ID,
+  campaign: CAMPAIGN_ID,
+  url: "https://hooks.example/doge",
+  secret: "webhook-secret",
+};
+
+const interaction = (address = ALICE): IObservedInteraction => ({
+  address,
+  event: "Transfer",
+  blockNumber: 123,
+  logIndex: 0,
+  transactionHash: "0xabc",
+});
+
+describe("WebhookDispatcher", () => {
+  let dispatcher: WebhookDispatcher;
+  let notifyIndexed: InteractionListener;
+  let qualifiesForCampaign: jest.Mock;
+  let fetchMock: jest.SpyInstance;
+  let lookup: jest.SpyInstance;
+
+  // Private members exercised by the tests
+  const internals = () => dispatcher as any;
+
+  /**
+   * Pass interactions from the indexer and wait until they are processed
+   */
+  async function observe(...interactions: IObservedInteraction[]) {
+    notifyIndexed(CONTRACT_ID, interactions);
+    await internals().processing;
+  }
+
+  const deliverDue = (): Promise<void> => internals().deliverDue();
+  const retryDueChecks = (): Promise<void> => internals().retryDueChecks();
+  const advance = (ms: number) => jest.setSystemTime(Date.now() + ms);
+
+  beforeEach(() => {
+    // While the campaign runs; only Date is faked so SQLite and promises run
+    jest.useFakeTimers({
+      now: new Date("2024-12-20T12:00:00Z"),
+      doNotFake: ["nextTick", "setImmediate", "queueMicrotask"],
+    });
+
+    qualifiesForCampaign = jest.fn(async () => ({
+      index: 0,
+      startDate: new Date("2024-12-12T00:00:00Z"),
+      endDate: new Date("2024-12-27T23:59:59Z"),
+    }));
+    const blockchainService = {
+      onIndexedInteractions: (listener: InteractionListener) => {
+        notifyIndexed = listener;
+      },
+      qualifiesForCampaign,
+    } as unknown as BlockchainService;
+
+    jest
+      .spyOn(partnerRegistry, "getWebhookSubscriptions")
+      .mockReturnValue([subscription]);
+    jest
+      .spyOn(partnerRegistry, "getWebhookSubscription")
+      .mockReturnValue(subscription);
+    lookup = jest
+      .spyOn(dns.promises, "lookup")
+      .mockResolvedValue([{ address: "93.184.215.14", family: 4 }] as any);
+    fetchMock = jest
+      .spyOn(global, "fetch")
+      .mockImplementation(async () => new Response(null, { status: 200 }));
+
+    dispatcher = new WebhookDispatcher(
+      blockchainService,
+      fs.mkdtempSync(path.join(os.tmpdir(), "webhooks-"))
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("delivers a signed notification once per newly eligible address", async () => {
+    await observe(interaction());
+    await observe(interaction());
+    await deliverDue();
+
+    expect(qualifiesForCampaign).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const timestamp = Number(init.headers["X-Webhook-Timestamp"]);
+    expect(url).toBe(subscription.url);
+    expect(init.redirect).toBe("error");
+    expect(init.headers["X-Webhook-Signature"]).toBe(
+      signBody(subscription.secret, timestamp, init.body)
+    );
+    expect(JSON.parse(init.body)).toMatchObject({
+      event: "address.eligible",
+      contract: CONTRACT_ID,
+      campaign: CAMPAIGN_ID,
+      window: { index: 0 },
+      address: ALICE,
+      transactionHash: "0xabc",
+    });
+    expect(dispatcher.getStats()).toEqual({
+      pending: 0,
+      delivered: 1,
+      dead: 0,
+    });
+  });
+
+  it("ignores addresses that do not qualify and the zero address", async () => {
+    qualifiesForCampaign.mockResolvedValueOnce(null);
+
+    await observe(
+      interaction(),
+      interaction("0x0000000000000000000000000000000000000000")
+    );
+
+    expect(qualifiesForCampaign).toHaveBeenCalledTimes(1);
+    expect(dispatcher.getStats().pending).toBe(0);
+  });
+
+  it("ignores interactions after the campaign", async () => {
+    jest.setSystemTime(new Date("2024-12-29T00:00:00Z"));
+
+    await observe(interaction());
+
+    expect(qualifiesForCampaign).not.toHaveBeenCalled();
+  });
+
+  it("retries failed deliveries with backoff, then moves them to the dead-letter list", async () => {
+    fetchMock.mockImplementation(
+      async () => new Response(null, { status: 500 })
+    );
+    await observe(interaction());
+
+    await deliverDue();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // Not due yet
+    await deliverDue();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    for (let attempt = 1; attempt < 8; attempt++) {
+      advance(Math.min(RETRY_DELAY * 2 ** (attempt - 1), 3600000));
+      await deliverDue();
+    }
+    expect(fetchMock).toHaveBeenCalledTimes(8);
+
+    const [dead] = dispatcher.getDeadLetters();
+    expect(dead).toMatchObject({
+      status: "dead",
+      attempts: 8,
+      lastError: "HTTP 500",
+      payload: { address: ALICE },
+    });
+
+    fetchMock.mockImplementation(
+      async () => new Response(null, { status: 200 })
+    );
+    expect(dispatcher.retryDeadLetter(dead.id)).toBe(true);
+    await deliverDue();
+    expect(dispatcher.getStats()).toEqual({
+      pending: 0,
+      delivered: 1,
+      dead: 0,
+    });
+  });
+
+  it("never posts to a host that resolves to a private address", async () => {
+    lookup.mockResolvedValue([{ address: "169.254.169.254", family: 4 }]);
+    await observe(interaction());
+
+    await deliverDue();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(
+      internals().db.prepare("SELECT * FROM deliveries").get()
+    ).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      last_error: expect.stringContaining(
+        "hooks.example resolves to a non-public address (169.254.169.254)"
+      ),
+    });
+  });
+
+  it("checks interactions again when their eligibility check failed", async () => {
+    qualifiesForCampaign.mockRejectedValueOnce(new Error("RPC unavailable"));
+    await observe(interaction());
+
+    expect(dispatcher.getPendingCheckCount()).toBe(1);
+    expect(dispatcher.getStats().pending).toBe(0);
+
+    // Not due yet
+    await retryDueChecks();
+    expect(qualifiesForCampaign).toHaveBeenCalledTimes(1);
+
+    advance(RETRY_DELAY);
+    await retryDueChecks();
+
+    expect(qualifiesForCampaign).toHaveBeenCalledTimes(2);
+    expect(dispatcher.getPendingCheckCount()).toBe(0);
+    expect(dispatcher.getStats().pending).toBe(1);
+  });
+
+  it("gives up checking an interaction after repeated failures", async () => {
+    qualifiesForCampaign.mockRejectedValue(new Error("RPC unavailable"));
+    await observe(interaction());
+
+    for (let attempt = 1; attempt < 8; attempt++) {
+      advance(Math.min(RETRY_DELAY * 2 ** (attempt - 1), 3600000));
+      await retryDueChecks();
+    }
+
+    expect(qualifiesForCampaign).toHaveBeenCalledTimes(8);
+    expect(dispatcher.getPendingCheckCount()).toBe(0);
+  });
+});
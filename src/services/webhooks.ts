@@ -0,0 +1,642 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import { ethers } from "ethers";
+import configLoader, { ICampaign } from "../config/config-loader";
+import partnerRegistry, {
+  IWebhookSubscription,
+} from "../config/partner-loader";
+import logger from "../utils/logger";
+import { assertPublicUrl } from "../utils/network";
+import { getCampaignSpan } from "../utils/schedule";
+import { signBody } from "../utils/signature";
+import blockchainService, { BlockchainService } from "./blockchain";
+import { IObservedInteraction } from "./indexer";
+
+// Webhook delivery constants
+const DELIVERY_INTERVAL = 5000; // Look for due deliveries every 5 seconds
+const DELIVERY_BATCH = 20; // Deliveries sent per round
+const DELIVERY_TIMEOUT = 10000; // Webhook requests time out after 10 seconds
+const MAX_ATTEMPTS = 8; // Deliveries move to the dead-letter list after 8 failures
+const BASE_RETRY_DELAY = 30000; // First retry after 30 seconds, doubling each time
+const MAX_RETRY_DELAY = 3600000; // Never wait more than 1 hour between attempts
+const CAMPAIGN_GRACE_PERIOD = 3600000; // Keep notifying 1 hour past the campaign end (indexer lag)
+const MAX_CHECK_ATTEMPTS = 8; // Interactions whose eligibility check keeps failing are dropped after 8 attempts
+
+export type DeliveryStatus = "pending" | "delivered" | "dead";
+
+/**
+ * Body sent to a webhook when an address becomes eligible
+ */
+export interface IWebhookPayload {
+  event: "address.eligible";
+  contract: string;
+  campaign: string;
+  window: { index: number; startDate: string; endDate: string };
+  address: string;
+  transactionHash: string;
+  blockNumber: number;
+  observedAt: string;
+}
+
+/**
+ * A webhook delivery as shown to admins
+ */
+export interface IWebhookDelivery {
+  id: number;
+  subscriptionId: string;
+  url: string;
+  status: DeliveryStatus;
+  attempts: number;
+  lastError: string | null;
+  payload: IWebhookPayload;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// An observed interaction, as far as eligibility checks need it
+type InteractionRef = Pick<
+  IObservedInteraction,
+  "address" | "transactionHash" | "blockNumber"
+>;
+
+interface PendingCheckRow {
+  subscription_id: string;
+  address: string;
+  transaction_hash: string;
+  block_number: number;
+  attempts: number;
+  next_attempt_at: number;
+  last_error: string | null;
+  created_at: number;
+}
+
+interface DeliveryRow {
+  id: number;
+  subscription_id: string;
+  url: string;
+  payload: string;
+  status: DeliveryStatus;
+  attempts: number;
+  next_attempt_at: number;
+  last_error: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * Pushes newly eligible addresses to partner webhooks
+ * Listens to interactions stored by the event indexer and, for every partner
+ * subscription to an active campaign of that contract, notifies each address
+ * once when it becomes eligible. Deliveries are persisted in SQLite, signed
+ * with the subscription secret and retried with exponential backoff; after
+ * MAX_ATTEMPTS failures they are kept in a dead-letter list for admins.
+ * Interactions whose eligibility could not be checked (RPC errors) are kept
+ * in SQLite too and checked again with the same backoff
+ */
+export class WebhookDispatcher {
+  private db: Database.Database;
+  private timer: NodeJS.Timeout;
+  private delivering = false;
+  private retryingChecks = false;
+  // Serializes interaction processing so notifications are not duplicated
+  private processing: Promise<void> = Promise.resolve();
+
+  /**
+   * @param blockchainService Service evaluating campaign eligibility
+   * @param dataDir Directory holding the SQLite database
+   */
+  constructor(
+    private readonly blockchainService: BlockchainService,
+    dataDir: string
+  ) {
+    const dbPath = path.resolve(dataDir, "webhooks.sqlite");
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+    this.db = new Database(dbPath);
+    this.db.pragma("journal_mode = WAL");
+    this.migrate();
+
+    this.blockchainService.onIndexedInteractions((contractId, interactions) => {
+      this.processing = this.processing
+        .then(() => this.handleInteractions(contractId, interactions))
+        .catch((error) => {
+          logger.error(`Error queuing webhooks for ${contractId}:`, error);
+        });
+    });
+
+    this.timer = setInterval(() => {
+      this.deliverDue();
+      this.retryChecks();
+    }, DELIVERY_INTERVAL);
+    this.timer.unref();
+  }
+
+  /**
+   * Create tables and indexes if they do not exist
+   */
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS notified (
+        subscription_id TEXT NOT NULL,
+        address TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (subscription_id, address)
+      );
+
+      CREATE TABLE IF NOT EXISTS deliveries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        subscription_id TEXT NOT NULL,
+        url TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at INTEGER NOT NULL,
+        last_error TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS deliveries_by_status
+        ON deliveries (status, next_attempt_at);
+
+      CREATE TABLE IF NOT EXISTS pending_checks (
+        subscription_id TEXT NOT NULL,
+        address TEXT NOT NULL,
+        transaction_hash TEXT NOT NULL,
+        block_number INTEGER NOT NULL,
+        attempts INTEGER NOT NULL,
+        next_attempt_at INTEGER NOT NULL,
+        last_error TEXT,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (subscription_id, address, transaction_hash)
+      );
+    `);
+  }
+
+  /**
+   * Get deliveries that exhausted their retries
+   * @returns Dead-letter deliveries, most recent first
+   */
+  public getDeadLetters(): IWebhookDelivery[] {
+    const rows = this.db
+      .prepare(
+        "SELECT * FROM deliveries WHERE status = 'dead' ORDER BY updated_at DESC"
+      )
+      .all() as DeliveryRow[];
+    return rows.map((row) => this.toDelivery(row));
+  }
+
+  /**
+   * Queue a dead-letter delivery again, with a fresh retry budget
+   * @param id Delivery identifier
+   * @returns True if the delivery was in the dead-letter list
+   */
+  public retryDeadLetter(id: number): boolean {
+    const now = Date.now();
+    const result = this.db
+      .prepare(
+        `UPDATE deliveries
+         SET status = 'pending', attempts = 0, next_attempt_at = ?, updated_at = ?
+         WHERE id = ? AND status = 'dead'`
+      )
+      .run(now, now, id);
+    return result.changes > 0;
+  }
+
+  /**
+   * Number of interactions waiting for their eligibility to be checked again
+   */
+  public getPendingCheckCount(): number {
+    const row = this.db
+      .prepare("SELECT COUNT(*) AS count FROM pending_checks")
+      .get() as { count: number };
+    return row.count;
+  }
+
+  /**
+   * Delivery counters by status
+   */
+  public getStats(): Record<DeliveryStatus, number> {
+    const stats: Record<DeliveryStatus, number> = {
+      pending: 0,
+      delivered: 0,
+      dead: 0,
+    };
+    const rows = this.db
+      .prepare(
+        "SELECT status, COUNT(*) AS count FROM deliveries GROUP BY status"
+      )
+      .all() as Array<{ status: DeliveryStatus; count: number }>;
+
+    for (const row of rows) {
+      stats[row.status] = row.count;
+    }
+    return stats;
+  }
+
+  /**
+   * Queue deliveries for addresses that became eligible through newly
+   * indexed interactions
+   */
+  private async handleInteractions(
+    contractId: string,
+    interactions: IObservedInteraction[]
+  ): Promise<void> {
+    const subscriptions = partnerRegistry.getWebhookSubscriptions(contractId);
+    const now = Date.now();
+
+    for (const subscription of subscriptions) {
+      const campaign = configLoader.getCampaignConfig(
+        contractId,
+        subscription.campaign
+      );
+      const span = campaign ? getCampaignSpan(campaign) : null;
+      if (
+        !campaign ||
+        !span ||
+        now < span.startDate.getTime() ||
+        now > span.endDate.getTime() + CAMPAIGN_GRACE_PERIOD
+      ) {
+        continue;
+      }
+
+      for (const interaction of interactions) {
+        try {
+          await this.checkInteraction(subscription, campaign, interaction);
+        } catch (error) {
+          logger.warn(
+            `Failed to check ${interaction.address} for webhook ${subscription.id}: ${error}, retrying later`
+          );
+          this.queueCheck(subscription.id, interaction, 1, String(error));
+        }
+      }
+    }
+  }
+
+  /**
+   * Queue the delivery of an interaction if it makes its address eligible
+   * for the subscribed campaign
+   * @throws Error if eligibility could not be checked (RPC errors)
+   */
+  private async checkInteraction(
+    subscription: IWebhookSubscription,
+    campaign: ICampaign,
+    interaction: InteractionRef
+  ): Promise<void> {
+    // Mints and burns identify the zero address, which is not a user.
+    // Recurring campaigns notify once per window, so their addresses are
+    // only skipped once the window of the interaction is known
+    if (
+      interaction.address === ethers.ZeroAddress ||
+      (!campaign.recurrence &&
+        this.isNotified(subscription.id, interaction.address))
+    ) {
+      return;
+    }
+
+    const window = await this.blockchainService.qualifiesForCampaign(
+      subscription.contract,
+      subscription.campaign,
+      interaction.address,
+      interaction.blockNumber
+    );
+    if (!window) {
+      return;
+    }
+
+    const payload: IWebhookPayload = {
+      event: "address.eligible",
+      contract: subscription.contract,
+      campaign: subscription.campaign,
+      window: {
+        index: window.index,
+        startDate: window.startDate.toISOString(),
+        endDate: window.endDate.toISOString(),
+      },
+      address: interaction.address,
+      transactionHash: interaction.transactionHash,
+      blockNumber: interaction.blockNumber,
+      observedAt: new Date().toISOString(),
+    };
+
+    const notifiedKey = campaign.recurrence
+      ? `${subscription.id}#${window.index}`
+      : subscription.id;
+
+    // Remember the address and queue its delivery atomically
+    let queued = false;
+    this.db.transaction(() => {
+      const insert = this.db
+        .prepare(
+          "INSERT OR IGNORE INTO notified (subscription_id, address, created_at) VALUES (?, ?, ?)"
+        )
+        .run(notifiedKey, interaction.address, Date.now());
+      if (insert.changes === 0) {
+        return;
+      }
+      queued = true;
+
+      this.db
+        .prepare(
+          `INSERT INTO deliveries
+           (subscription_id, url, payload, status, attempts, next_attempt_at, created_at, updated_at)
+           VALUES (?, ?, ?, 'pending', 0, ?, ?, ?)`
+        )
+        .run(
+          subscription.id,
+          subscription.url,
+          JSON.stringify(payload),
+          Date.now(),
+          Date.now(),
+          Date.now()
+        );
+    })();
+
+    if (queued) {
+      logger.info(
+        `Queued webhook ${subscription.id} for newly eligible ${interaction.address}`
+      );
+    }
+  }
+
+  /**
+   * Remember an interaction whose eligibility check failed, to check it
+   * again after a backoff delay
+   * @param subscriptionId Subscription the check was made for
+   * @param interaction Interaction to check again
+   * @param attempts Failed attempts so far
+   * @param error Last error
+   */
+  private queueCheck(
+    subscriptionId: string,
+    interaction: InteractionRef,
+    attempts: number,
+    error: string
+  ): void {
+    const now = Date.now();
+    const delay = Math.min(
+      BASE_RETRY_DELAY * 2 ** (attempts - 1),
+      MAX_RETRY_DELAY
+    );
+    this.db
+      .prepare(
+        `INSERT INTO pending_checks
+         (subscription_id, address, transaction_hash, block_number, attempts, next_attempt_at, last_error, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (subscription_id, address, transaction_hash) DO UPDATE
+         SET attempts = excluded.attempts, next_attempt_at = excluded.next_attempt_at, last_error = excluded.last_error`
+      )
+      .run(
+        subscriptionId,
+        interaction.address,
+        interaction.transactionHash,
+        interaction.blockNumber,
+        attempts,
+        now + delay,
+        error,
+        now
+      );
+  }
+
+  /**
+   * Check again the interactions whose eligibility check failed and is due
+   * for a retry; runs after the interactions being processed
+   */
+  private retryChecks(): void {
+    if (this.retryingChecks) {
+      return;
+    }
+
+    this.retryingChecks = true;
+    this.processing = this.processing
+      .then(() => this.retryDueChecks())
+      .catch((error) => {
+        logger.error("Error retrying webhook eligibility checks:", error);
+      })
+      .finally(() => {
+        this.retryingChecks = false;
+      });
+  }
+
+  private async retryDueChecks(): Promise<void> {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM pending_checks
+         WHERE next_attempt_at <= ?
+         ORDER BY next_attempt_at LIMIT ?`
+      )
+      .all(Date.now(), DELIVERY_BATCH) as PendingCheckRow[];
+
+    for (const row of rows) {
+      const interaction: InteractionRef = {
+        address: row.address,
+        transactionHash: row.transaction_hash,
+        blockNumber: row.block_number,
+      };
+      const remove = () =>
+        this.db
+          .prepare(
+            "DELETE FROM pending_checks WHERE subscription_id = ? AND address = ? AND transaction_hash = ?"
+          )
+          .run(row.subscription_id, row.address, row.transaction_hash);
+
+      // The interaction happened while the campaign was running, so only a
+      // removed subscription or campaign ends its retries
+      const subscription = partnerRegistry.getWebhookSubscription(
+        row.subscription_id
+      );
+      const campaign =
+        subscription &&
+        configLoader.getAvailableContracts().includes(subscription.contract)
+          ? configLoader.getCampaignConfig(
+              subscription.contract,
+              subscription.campaign
+            )
+          : null;
+      if (!subscription || !campaign) {
+        remove();
+        logger.info(
+          `Dropped eligibility check of ${row.address} for removed webhook ${row.subscription_id}`
+        );
+        continue;
+      }
+
+      try {
+        await this.checkInteraction(subscription, campaign, interaction);
+        remove();
+      } catch (error) {
+        const attempts = row.attempts + 1;
+        if (attempts >= MAX_CHECK_ATTEMPTS) {
+          remove();
+          logger.error(
+            `Gave up checking ${row.address} for webhook ${row.subscription_id} after ${attempts} attempts: ${error}`
+          );
+        } else {
+          logger.warn(
+            `Failed to check ${row.address} for webhook ${row.subscription_id} (attempt ${attempts}): ${error}`
+          );
+          this.queueCheck(
+            row.subscription_id,
+            interaction,
+            attempts,
+            String(error)
+          );
+        }
+      }
+    }
+  }
+
+  private isNotified(subscriptionId: string, address: string): boolean {
+    const row = this.db
+      .prepare(
+        "SELECT 1 FROM notified WHERE subscription_id = ? AND address = ?"
+      )
+      .get(subscriptionId, address);
+    return row !== undefined;
+  }
+
+  /**
+   * Send the deliveries whose next attempt is due
+   */
+  private async deliverDue(): Promise<void> {
+    if (this.delivering) {
+      return;
+    }
+
+    this.delivering = true;
+    try {
+      const rows = this.db
+        .prepare(
+          `SELECT * FROM deliveries
+           WHERE status = 'pending' AND next_attempt_at <= ?
+           ORDER BY next_attempt_at LIMIT ?`
+        )
+        .all(Date.now(), DELIVERY_BATCH) as DeliveryRow[];
+
+      for (const row of rows) {
+        await this.deliver(row);
+      }
+    } catch (error) {
+      logger.error("Error delivering webhooks:", error);
+    } finally {
+      this.delivering = false;
+    }
+  }
+
+  /**
+   * Send one delivery and record the outcome
+   * Headers: X-Webhook-Id, X-Webhook-Timestamp (unix seconds) and
+   * X-Webhook-Signature = `sha256=` hex HMAC-SHA256 of `${timestamp}.${body}`
+   */
+  private async deliver(row: DeliveryRow): Promise<void> {
+    const attempts = row.attempts + 1;
+    let error: string | null = null;
+
+    // The secret is looked up at send time so rotations apply to retries
+    const subscription = partnerRegistry.getWebhookSubscription(
+      row.subscription_id
+    );
+
+    if (!subscription) {
+      error = "Subscription no longer exists";
+    } else {
+      const timestamp = Math.floor(Date.now() / 1000);
+
+      try {
+        // Checked before every attempt in case the host now resolves to a
+        // private address; redirects are not followed for the same reason
+        await assertPublicUrl(subscription.url);
+
+        const response = await fetch(subscription.url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "X-Webhook-Id": String(row.id),
+            "X-Webhook-Timestamp": String(timestamp),
+            "X-Webhook-Signature": signBody(
+              subscription.secret,
+              timestamp,
+              row.payload
+            ),
+          },
+          body: row.payload,
+          redirect: "error",
+          signal: AbortSignal.timeout(DELIVERY_TIMEOUT),
+        });
+
+        if (!response.ok) {
+          error = `HTTP ${response.status}`;
+        }
+      } catch (fetchError) {
+        error = String(fetchError);
+      }
+    }
+
+    const now = Date.now();
+    if (!error) {
+      this.db
+        .prepare(
+          "UPDATE deliveries SET status = 'delivered', attempts = ?, last_error = NULL, updated_at = ? WHERE id = ?"
+        )
+        .run(attempts, now, row.id);
+      logger.info(`Delivered webhook ${row.id} to ${row.subscription_id}`);
+      return;
+    }
+
+    const dead = !subscription || attempts >= MAX_ATTEMPTS;
+    const delay = Math.min(
+      BASE_RETRY_DELAY * 2 ** (attempts - 1),
+      MAX_RETRY_DELAY
+    );
+    this.db
+      .prepare(
+        `UPDATE deliveries
+         SET status = ?, attempts = ?, next_attempt_at = ?, last_error = ?, updated_at = ?
+         WHERE id = ?`
+      )
+      .run(
+        dead ? "dead" : "pending",
+        attempts,
+        now + delay,
+        error,
+        now,
+        row.id
+      );
+
+    if (dead) {
+      logger.error(
+        `Webhook ${row.id} to ${row.subscription_id} moved to dead-letter list after ${attempts} attempts: ${error}`
+      );
+    } else {
+      logger.warn(
+        `Webhook ${row.id} to ${
+          row.subscription_id
+        } failed (attempt ${attempts}): ${error}, retrying in ${
+          delay / 1000
+        } seconds`
+      );
+    }
+  }
+
+  private toDelivery(row: DeliveryRow): IWebhookDelivery {
+    return {
+      id: row.id,
+      subscriptionId: row.subscription_id,
+      url: row.url,
+      status: row.status,
+      attempts: row.attempts,
+      lastError: row.last_error,
+      payload: JSON.parse(row.payload),
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: new Date(row.updated_at).toISOString(),
+    };
+  }
+}
+
+// Create and export a singleton instance
+const webhookDispatcher = new WebhookDispatcher(
+  blockchainService,
+  configLoader.getEnvConfig().dataDir
+);
+export default webhookDispatcher;
@@ -0,0 +1,10 @@
+import "express-serve-static-core";
+
+declare module "express-serve-static-core" {
+  interface Request {
+    /**
+     * Raw JSON body, kept for HMAC-signed admin requests
+     */
+    rawBody?: string;
+  }
+}
@@ -0,0 +1,92 @@
+import {
+  Counter,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from "prom-client";
+
+/**
+ * Prometheus metrics of the service, exposed on GET /metrics
+ * Labels only use configured identifiers (contract, campaign, endpoint
+ * label) so their cardinality stays bounded
+ */
+export const registry = new Registry();
+
+collectDefaultMetrics({ register: registry });
+
+/**
+ * Outcome of a verification request
+ */
+export type VerificationOutcome =
+  | "eligible"
+  | "not_eligible"
+  | "indeterminate"
+  | "error";
+
+export const verificationRequests = new Counter({
+  name: "verification_requests_total",
+  help: "Verification requests by contract, campaign and result",
+  labelNames: ["contract", "campaign", "result"] as const,
+  registers: [registry],
+});
+
+export const verificationDuration = new Histogram({
+  name: "verification_duration_seconds",
+  help: "Verification request latency",
+  labelNames: ["contract", "result"] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 15, 30],
+  registers: [registry],
+});
+
+export const verificationTimeouts = new Counter({
+  name: "verification_timeouts_total",
+  help: "Verification checks that reached the time limit",
+  labelNames: ["contract"] as const,
+  registers: [registry],
+});
+
+export const cacheLookups = new Counter({
+  name: "verification_cache_lookups_total",
+  help: "Verification cache lookups by result (hit or miss)",
+  labelNames: ["result"] as const,
+  registers: [registry],
+});
+
+export const rpcRequests = new Counter({
+  name: "rpc_requests_total",
+  help: "RPC requests by pool, endpoint, method and status",
+  labelNames: ["pool", "endpoint", "method", "status"] as const,
+  registers: [registry],
+});
+
+export const rpcErrors = new Counter({
+  name: "rpc_errors_total",
+  help: "Failed RPC requests by pool, endpoint, method and error type",
+  labelNames: ["pool", "endpoint", "method", "type"] as const,
+  registers: [registry],
+});
+
+export const rpcDuration = new Histogram({
+  name: "rpc_request_duration_seconds",
+  help: "RPC request latency by pool, endpoint and method",
+  labelNames: ["pool", "endpoint", "method"] as const,
+  buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+  registers: [registry],
+});
+
+/**
+ * Record a finished verification request
+ * @param contract Contract identifier (or "composite")
+ * @param campaign Campaign identifier, if any
+ * @param result Outcome of the verification
+ * @param seconds Processing time in seconds
+ */
+export function observeVerification(
+  contract: string,
+  campaign: string | undefined,
+  result: VerificationOutcome,
+  seconds: number
+): void {
+  verificationRequests.inc({ contract, campaign: campaign || "none", result });
+  verificationDuration.observe({ contract, result }, seconds);
+}
@@ -0,0 +1,99 @@
+import dns from "dns";
+import { assertPublicHost, assertPublicUrl, isPublicAddress } from "./network";
+
+describe("isPublicAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.20.0.1",
+    "192.168.1.1",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "224.0.0.1",
+    "255.255.255.255",
+    "::1",
+    "::",
+    "fd00::1",
+    "fe80::1",
+    "::ffff:127.0.0.1",
+    "::FFFF:10.0.0.1",
+    "not-an-ip",
+  ])("rejects %s", (ip) => {
+    expect(isPublicAddress(ip)).toBe(false);
+  });
+
+  it.each(["8.8.8.8", "1.1.1.1", "2606:4700:4700::1111", "::ffff:8.8.8.8"])(
+    "accepts %s",
+    (ip) => {
+      expect(isPublicAddress(ip)).toBe(true);
+    }
+  );
+});
+
+describe("assertPublicUrl", () => {
+  const lookup = (addresses: string[]) =>
+    jest
+      .spyOn(dns.promises, "lookup")
+      .mockResolvedValue(
+        addresses.map((address) => ({ address, family: 4 })) as any
+      );
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("accepts hosts resolving to public addresses", async () => {
+    lookup(["93.184.215.14"]);
+
+    await expect(
+      assertPublicUrl("https://quests.example.com/callback")
+    ).resolves.toBeUndefined();
+  });
+
+  it("rejects hosts with any non-public address", async () => {
+    lookup(["93.184.215.14", "10.0.0.5"]);
+
+    await expect(
+      assertPublicUrl("https://quests.example.com/callback")
+    ).rejects.toThrow(
+      "quests.example.com resolves to a non-public address (10.0.0.5)"
+    );
+  });
+
+  it("checks IP literals without resolving them", async () => {
+    const spy = lookup([]);
+
+    await expect(
+      assertPublicUrl("http://169.254.169.254/latest/meta-data")
+    ).rejects.toThrow("169.254.169.254 is not a public address");
+    await expect(assertPublicUrl("http://[::1]:8080/")).rejects.toThrow(
+      "::1 is not a public address"
+    );
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it("rejects other protocols", async () => {
+    await expect(assertPublicUrl("file:///etc/passwd")).rejects.toThrow(
+      "Unsupported protocol file:"
+    );
+  });
+});
+
+describe("assertPublicHost", () => {
+  it.each([
+    "http://127.0.0.1/hook",
+    "https://[fd00::1]/hook",
+    "http://localhost:3000/hook",
+    "http://api.localhost/hook",
+  ])("rejects %s without resolving it", (url) => {
+    expect(() => assertPublicHost(url)).toThrow("is not a public address");
+  });
+
+  it("accepts public IP literals and host names", () => {
+    expect(assertPublicHost("https://8.8.8.8/hook")).toBe("8.8.8.8");
+    expect(assertPublicHost("https://hooks.example.com/hook")).toBe(
+      "hooks.example.com"
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import dns from "dns";
+import net from "net";
+
+/**
+ * Guards for requests sent to partner-supplied URLs
+ *
+ * Callback URLs must not reach the service's own network: hosts resolving to
+ * loopback, private, link-local (cloud metadata), shared, multicast or
+ * reserved addresses are rejected
+ */
+
+// Address ranges that are not reachable on the public internet
+const NON_PUBLIC_RANGES = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "This" network
+  ["10.0.0.0", 8], // Private
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8], // Loopback
+  ["169.254.0.0", 16], // Link-local, cloud metadata
+  ["172.16.0.0", 12], // Private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.168.0.0", 16], // Private
+  ["198.18.0.0", 15], // Benchmarking
+  ["224.0.0.0", 4], // Multicast
+  ["240.0.0.0", 4], // Reserved and broadcast
+] as const) {
+  NON_PUBLIC_RANGES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128], // Unspecified
+  ["::1", 128], // Loopback
+  ["fc00::", 7], // Unique local
+  ["fe80::", 10], // Link-local
+  ["ff00::", 8], // Multicast
+] as const) {
+  NON_PUBLIC_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Check if an IP address is reachable on the public internet
+ * IPv4-mapped IPv6 addresses are checked as IPv4
+ * @param ip IPv4 or IPv6 address
+ * @returns False for private, loopback, link-local and reserved addresses
+ */
+export function isPublicAddress(ip: string): boolean {
+  const mapped = ip.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  const address = mapped ? mapped[1] : ip;
+  const family = net.isIP(address);
+
+  if (family === 0) {
+    return false;
+  }
+
+  return !NON_PUBLIC_RANGES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Check that an http(s) URL does not name a non-public host directly, as an
+ * IP literal or localhost; host names are only resolved by assertPublicUrl
+ * @param url URL to check
+ * @returns Host of the URL, without IPv6 brackets
+ * @throws Error if the URL is invalid or names a non-public host
+ */
+export function assertPublicHost(url: string): string {
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== "http:" && protocol !== "https:") {
+    throw new Error(`Unsupported protocol ${protocol}`);
+  }
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const host = hostname.replace(/^\[(.*)\]$/, "$1");
+  if (
+    (net.isIP(host) && !isPublicAddress(host)) ||
+    /(^|\.)localhost\.?$/i.test(host)
+  ) {
+    throw new Error(`${host} is not a public address`);
+  }
+  return host;
+}
+
+/**
+ * Check that a URL is an http(s) URL whose host only resolves to public
+ * addresses
+ * @param url URL to check
+ * @throws Error if the URL is invalid, cannot be resolved or is not public
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  const host = assertPublicHost(url);
+  if (net.isIP(host)) {
+    return;
+  }
+
+  const addresses = (
+    await dns.promises.lookup(host, { all: true, verbatim: true })
+  ).map((entry) => entry.address);
+
+  const blocked = addresses.find((address) => !isPublicAddress(address));
+  if (blocked !== undefined) {
+    throw new Error(`${host} resolves to a non-public address (${blocked})`);
+  }
+}
@@ -0,0 +1,221 @@
+import {
+  ICampaignSchedule,
+  MAX_CAMPAIGN_WINDOWS,
+  countCampaignWindows,
+  findCampaignWindow,
+  getCampaignWindow,
+  getScheduleStatus,
+  parseScheduleDate,
+  parseWindowIndex,
+} from "./schedule";
+
+const NEW_YORK = "America/New_York";
+const HOUR = 3600000;
+
+/**
+ * Window bounds as ISO strings
+ */
+function bounds(schedule: ICampaignSchedule, index: number) {
+  const window = getCampaignWindow(schedule, index);
+  return (
+    window && [window.startDate.toISOString(), window.endDate.toISOString()]
+  );
+}
+
+describe("parseScheduleDate", () => {
+  it("parses dates without offset in the schedule timezone", () => {
+    expect(parseScheduleDate("2025-01-15T09:00", NEW_YORK).toISOString()).toBe(
+      "2025-01-15T14:00:00.000Z"
+    );
+    expect(parseScheduleDate("2025-07-15T09:00", NEW_YORK).toISOString()).toBe(
+      "2025-07-15T13:00:00.000Z"
+    );
+    expect(parseScheduleDate("2025-07-15T09:00").toISOString()).toBe(
+      "2025-07-15T09:00:00.000Z"
+    );
+  });
+
+  it("keeps dates with an offset absolute", () => {
+    expect(
+      parseScheduleDate("2025-03-09T02:30:00+01:00", NEW_YORK).toISOString()
+    ).toBe("2025-03-09T01:30:00.000Z");
+    expect(
+      parseScheduleDate("2025-03-09T07:00:00Z", NEW_YORK).toISOString()
+    ).toBe("2025-03-09T07:00:00.000Z");
+  });
+
+  it("covers whole local days with date-only end dates, including DST days", () => {
+    // 23 hours when clocks go forward, 25 when they go back
+    const spring = [
+      parseScheduleDate("2025-03-09", NEW_YORK),
+      parseScheduleDate("2025-03-09", NEW_YORK, "end"),
+    ];
+    const autumn = [
+      parseScheduleDate("2025-11-02", NEW_YORK),
+      parseScheduleDate("2025-11-02", NEW_YORK, "end"),
+    ];
+
+    expect(spring[0].toISOString()).toBe("2025-03-09T05:00:00.000Z");
+    expect(spring[1].getTime() - spring[0].getTime() + 1).toBe(23 * HOUR);
+    expect(autumn[0].toISOString()).toBe("2025-11-02T04:00:00.000Z");
+    expect(autumn[1].getTime() - autumn[0].getTime() + 1).toBe(25 * HOUR);
+  });
+
+  it("falls back to Date for dates that are not ISO 8601", () => {
+    const value = "March 9, 2025 10:00:00 UTC";
+
+    expect(parseScheduleDate(value, NEW_YORK, "end").getTime()).toBe(
+      new Date(value).getTime()
+    );
+    expect(isNaN(parseScheduleDate("someday", NEW_YORK).getTime())).toBe(true);
+  });
+});
+
+describe("daily windows across DST changes", () => {
+  it("keeps the local start time when clocks go forward", () => {
+    const schedule: ICampaignSchedule = {
+      startDate: "2025-03-08T09:00",
+      endDate: "2025-03-10",
+      timezone: NEW_YORK,
+      recurrence: { frequency: "daily", interval: 1, epochSeconds: 604800 },
+    };
+
+    expect(bounds(schedule, 0)).toEqual([
+      "2025-03-08T14:00:00.000Z",
+      "2025-03-09T12:59:59.999Z",
+    ]);
+    expect(bounds(schedule, 1)).toEqual([
+      "2025-03-09T13:00:00.000Z",
+      "2025-03-10T12:59:59.999Z",
+    ]);
+    expect(bounds(schedule, 2)).toEqual([
+      "2025-03-10T13:00:00.000Z",
+      "2025-03-11T03:59:59.999Z",
+    ]);
+    expect(getCampaignWindow(schedule, 3)).toBeNull();
+    expect(countCampaignWindows(schedule)).toBe(3);
+  });
+
+  it("keeps the local start time when clocks go back", () => {
+    const schedule: ICampaignSchedule = {
+      startDate: "2025-11-01T09:00",
+      endDate: "2025-11-03T08:59:59",
+      timezone: NEW_YORK,
+      recurrence: { frequency: "daily", interval: 1, epochSeconds: 604800 },
+    };
+
+    expect(bounds(schedule, 0)).toEqual([
+      "2025-11-01T13:00:00.000Z",
+      "2025-11-02T13:59:59.999Z",
+    ]);
+    expect(bounds(schedule, 1)).toEqual([
+      "2025-11-02T14:00:00.000Z",
+      "2025-11-03T13:59:59.000Z",
+    ]);
+    expect(countCampaignWindows(schedule)).toBe(2);
+  });
+
+  it("finds the window of an instant around the DST change", () => {
+    const schedule: ICampaignSchedule = {
+      startDate: "2025-03-01T00:00",
+      endDate: "2025-03-31",
+      timezone: NEW_YORK,
+      recurrence: { frequency: "weekly", interval: 1, epochSeconds: 604800 },
+    };
+
+    // Week 1 starts at local midnight on 8 March (EST), week 2 on 15 March (EDT)
+    expect(
+      findCampaignWindow(schedule, new Date("2025-03-15T03:59:59.999Z")).index
+    ).toBe(1);
+    expect(
+      findCampaignWindow(schedule, new Date("2025-03-15T04:00:00Z")).index
+    ).toBe(2);
+    expect(findCampaignWindow(schedule, new Date("2024-01-01")).index).toBe(0);
+    expect(findCampaignWindow(schedule, new Date("2026-01-01")).index).toBe(4);
+  });
+});
+
+describe("epoch windows", () => {
+  const schedule: ICampaignSchedule = {
+    startDate: "2025-01-01T00:00:00Z",
+    endDate: "2025-01-20T00:00:00Z",
+    recurrence: { frequency: "epoch", interval: 1, epochSeconds: 604800 },
+  };
+
+  it("aligns windows on epoch weeks, clipped to the campaign", () => {
+    // Epoch weeks start on Thursday 00:00 UTC
+    expect(bounds(schedule, 0)).toEqual([
+      "2025-01-01T00:00:00.000Z",
+      "2025-01-01T23:59:59.999Z",
+    ]);
+    expect(bounds(schedule, 1)).toEqual([
+      "2025-01-02T00:00:00.000Z",
+      "2025-01-08T23:59:59.999Z",
+    ]);
+    expect(bounds(schedule, 3)).toEqual([
+      "2025-01-16T00:00:00.000Z",
+      "2025-01-20T00:00:00.000Z",
+    ]);
+    expect(countCampaignWindows(schedule)).toBe(4);
+  });
+
+  it("finds the window starting at an epoch boundary", () => {
+    expect(
+      findCampaignWindow(schedule, new Date("2025-01-09T00:00:00Z")).index
+    ).toBe(2);
+    expect(
+      findCampaignWindow(schedule, new Date("2025-01-08T23:59:59.999Z")).index
+    ).toBe(1);
+  });
+});
+
+describe("campaign status and window selectors", () => {
+  it("derives the status from the campaign dates", () => {
+    const schedule = {
+      startDate: "2025-03-09",
+      endDate: "2025-03-09",
+      timezone: NEW_YORK,
+    };
+
+    expect(getScheduleStatus(schedule, new Date("2025-03-09T04:59:59Z"))).toBe(
+      "upcoming"
+    );
+    expect(getScheduleStatus(schedule, new Date("2025-03-10T03:59:59Z"))).toBe(
+      "active"
+    );
+    expect(getScheduleStatus(schedule, new Date("2025-03-10T04:00:00Z"))).toBe(
+      "ended"
+    );
+  });
+
+  it("has a single window without recurrence", () => {
+    const schedule = { startDate: "2025-01-01", endDate: "2025-12-31" };
+
+    expect(countCampaignWindows(schedule)).toBe(1);
+    expect(getCampaignWindow(schedule, 1)).toBeNull();
+    expect(getCampaignWindow(schedule, -1)).toBeNull();
+  });
+
+  it("counts windows beyond the configuration limit", () => {
+    expect(
+      countCampaignWindows({
+        startDate: "2020-01-01",
+        endDate: "2025-12-31",
+        recurrence: { frequency: "daily", interval: 1, epochSeconds: 604800 },
+      })
+    ).toBeGreaterThan(MAX_CAMPAIGN_WINDOWS);
+  });
+
+  it.each([
+    [undefined, undefined],
+    ["current", undefined],
+    ["3", 3],
+    [0, 0],
+    ["-1", null],
+    ["1.5", null],
+    ["", null],
+    [true, null],
+  ])("parses the window selector %p as %p", (value, expected) => {
+    expect(parseWindowIndex(value)).toBe(expected);
+  });
+});
@@ -0,0 +1,338 @@
+/**
+ * Campaign schedules: timezone-aware date parsing and recurring windows
+ *
+ * Dates with an explicit offset (`Z`, `+02:00`) are absolute. Dates without
+ * one are wall-clock times in the schedule timezone, and a date-only end date
+ * covers the whole day. A recurring campaign is split into windows:
+ * - daily / weekly: every `interval` days or weeks from the start, at the same
+ *   local time (so windows follow DST changes of the timezone)
+ * - epoch: fixed `epochSeconds` periods counted from the Unix epoch, e.g.
+ *   604800 for weeks starting Thursday 00:00 UTC
+ * Windows are numbered from 0 and clipped to the campaign start and end.
+ * Dates that are not ISO 8601 are parsed by Date as before timezone support
+ * (server local time when they have no offset)
+ */
+
+const DAY_MS = 86400000;
+export const MAX_CAMPAIGN_WINDOWS = 1000; // Bounds per-window loops (finalize, exports)
+const ISO_DATE =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?)?(Z|[+-]\d{2}:?\d{2})?$/i;
+
+export type RecurrenceFrequency = "daily" | "weekly" | "epoch";
+
+/**
+ * How a campaign repeats
+ */
+export interface ICampaignRecurrence {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  epochSeconds: number;
+}
+
+/**
+ * Dates of a campaign, as configured
+ */
+export interface ICampaignSchedule {
+  startDate: string;
+  endDate: string;
+  timezone?: string;
+  recurrence?: ICampaignRecurrence;
+}
+
+/**
+ * Lifecycle of a campaign: upcoming, active and ended follow from its dates;
+ * ended campaigns become finalized once their results are frozen
+ */
+export type CampaignStatus = "upcoming" | "active" | "ended" | "finalized";
+
+export const CAMPAIGN_STATUSES: CampaignStatus[] = [
+  "upcoming",
+  "active",
+  "ended",
+  "finalized",
+];
+
+/**
+ * One window of a campaign; non-recurring campaigns have a single window
+ */
+export interface ICampaignWindow {
+  index: number;
+  startDate: Date;
+  endDate: Date;
+}
+
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+function formatterFor(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check if a timezone is a valid IANA timezone name
+ * @param timezone Timezone name, e.g. "Europe/Paris"
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    formatterFor(timezone);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Offset of a timezone at an instant, in milliseconds (local minus UTC)
+ */
+function zoneOffset(timezone: string, time: number): number {
+  const parts = formatterFor(timezone).formatToParts(new Date(time));
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  const local = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second")
+  );
+  return local - (time - (((time % 1000) + 1000) % 1000));
+}
+
+/**
+ * Convert a wall-clock time of a timezone (given as UTC fields) to an instant
+ */
+function wallTimeToUtc(wall: number, timezone: string): number {
+  const guess = wall - zoneOffset(timezone, wall);
+  // The offset may differ at the result when a DST change lies in between
+  return wall - zoneOffset(timezone, guess);
+}
+
+/**
+ * Check if a date is in the ISO 8601 form that follows the schedule timezone
+ * @param value Date string
+ */
+export function isIsoScheduleDate(value: string): boolean {
+  return ISO_DATE.test(value.trim());
+}
+
+/**
+ * Parse a campaign or query date
+ * @param value ISO date (YYYY-MM-DD), date-time, or date-time with offset;
+ *              other formats are parsed by Date, ignoring timezone and bound
+ * @param timezone Timezone of ISO dates without an offset
+ * @param bound "end" makes a date-only value cover the whole day
+ * @returns Parsed date, invalid (NaN) if the value cannot be parsed
+ */
+export function parseScheduleDate(
+  value: string,
+  timezone = "UTC",
+  bound: "start" | "end" = "start"
+): Date {
+  const match = ISO_DATE.exec(value.trim());
+  if (!match) {
+    return new Date(value);
+  }
+
+  const [, year, month, day, hour, minute, second, millis, offset] = match;
+  if (offset) {
+    return new Date(value.trim());
+  }
+
+  const dateOnly = hour === undefined;
+  const wall = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    dateOnly ? 0 : Number(hour),
+    dateOnly ? 0 : Number(minute),
+    Number(second || 0),
+    Number((millis || "0").padEnd(3, "0"))
+  );
+
+  if (dateOnly && bound === "end") {
+    return new Date(wallTimeToUtc(wall + DAY_MS, timezone) - 1);
+  }
+  return new Date(wallTimeToUtc(wall, timezone));
+}
+
+/**
+ * Get the first and last instant of a campaign
+ * @param schedule Campaign dates
+ */
+export function getCampaignSpan(schedule: ICampaignSchedule): {
+  startDate: Date;
+  endDate: Date;
+} {
+  return {
+    startDate: parseScheduleDate(schedule.startDate, schedule.timezone),
+    endDate: parseScheduleDate(schedule.endDate, schedule.timezone, "end"),
+  };
+}
+
+/**
+ * Get the status of a campaign from its dates
+ * @param schedule Campaign dates
+ * @param at Instant to evaluate (defaults to now)
+ * @returns "upcoming", "active" or "ended"
+ */
+export function getScheduleStatus(
+  schedule: ICampaignSchedule,
+  at: Date = new Date()
+): Exclude<CampaignStatus, "finalized"> {
+  const { startDate, endDate } = getCampaignSpan(schedule);
+  if (at < startDate) {
+    return "upcoming";
+  }
+  return at > endDate ? "ended" : "active";
+}
+
+/**
+ * Start of the window with the given index, before clipping to the end
+ */
+function windowStart(
+  schedule: ICampaignSchedule,
+  spanStart: number,
+  index: number
+): number {
+  const recurrence = schedule.recurrence;
+  if (index === 0) {
+    return spanStart;
+  }
+  if (!recurrence) {
+    return Infinity;
+  }
+
+  if (recurrence.frequency === "epoch") {
+    const length = recurrence.epochSeconds * 1000;
+    return (Math.floor(spanStart / length) + index) * length;
+  }
+
+  const timezone = schedule.timezone || "UTC";
+  const days =
+    recurrence.interval * (recurrence.frequency === "weekly" ? 7 : 1);
+  const wall = spanStart + zoneOffset(timezone, spanStart);
+  return wallTimeToUtc(wall + index * days * DAY_MS, timezone);
+}
+
+/**
+ * Approximate length of a window, used to estimate window indexes
+ */
+function windowLength(recurrence: ICampaignRecurrence): number {
+  if (recurrence.frequency === "epoch") {
+    return recurrence.epochSeconds * 1000;
+  }
+  return (
+    recurrence.interval * (recurrence.frequency === "weekly" ? 7 : 1) * DAY_MS
+  );
+}
+
+/**
+ * Get a campaign window by index
+ * @param schedule Campaign dates
+ * @param index Window index, from 0
+ * @returns The window, or null if the campaign has no such window
+ */
+export function getCampaignWindow(
+  schedule: ICampaignSchedule,
+  index: number
+): ICampaignWindow | null {
+  const span = getCampaignSpan(schedule);
+  const spanStart = span.startDate.getTime();
+  const spanEnd = span.endDate.getTime();
+
+  if (!Number.isInteger(index) || index < 0) {
+    return null;
+  }
+
+  const start = windowStart(schedule, spanStart, index);
+  if (start > spanEnd) {
+    return null;
+  }
+
+  const next = windowStart(schedule, spanStart, index + 1);
+  return {
+    index,
+    startDate: new Date(start),
+    endDate: new Date(Math.min(next - 1, spanEnd)),
+  };
+}
+
+/**
+ * Get the campaign window containing an instant
+ * Instants before the campaign resolve to the first window and instants
+ * after it to the last one
+ * @param schedule Campaign dates
+ * @param at Instant to look up (defaults to now)
+ * @returns The window containing the instant
+ */
+export function findCampaignWindow(
+  schedule: ICampaignSchedule,
+  at: Date = new Date()
+): ICampaignWindow {
+  const span = getCampaignSpan(schedule);
+  const spanStart = span.startDate.getTime();
+  const time = Math.min(
+    Math.max(at.getTime(), spanStart),
+    span.endDate.getTime()
+  );
+
+  let index = 0;
+  if (schedule.recurrence) {
+    index = Math.max(
+      0,
+      Math.floor((time - spanStart) / windowLength(schedule.recurrence))
+    );
+    // The estimate can be off by one around DST changes and epoch alignment
+    while (index > 0 && windowStart(schedule, spanStart, index) > time) {
+      index--;
+    }
+    while (windowStart(schedule, spanStart, index + 1) <= time) {
+      index++;
+    }
+  }
+
+  return getCampaignWindow(schedule, index) as ICampaignWindow;
+}
+
+/**
+ * Count the windows of a campaign
+ * @param schedule Campaign dates
+ */
+export function countCampaignWindows(schedule: ICampaignSchedule): number {
+  return (
+    findCampaignWindow(schedule, getCampaignSpan(schedule).endDate).index + 1
+  );
+}
+
+/**
+ * Parse a window selector from a request
+ * @param value Window index, "current" or undefined
+ * @returns Window index, undefined for the current window, or null if invalid
+ */
+export function parseWindowIndex(value: unknown): number | undefined | null {
+  if (value === undefined || value === "current") {
+    return undefined;
+  }
+
+  const index = Number(value);
+  return typeof value !== "boolean" &&
+    String(value).trim() !== "" &&
+    Number.isInteger(index) &&
+    index >= 0
+    ? index
+    : null;
+}
@@ -0,0 +1,20 @@
+import crypto from "crypto";
+import { signBody } from "./signature";
+
+describe("signBody", () => {
+  it("signs the timestamp and body with HMAC-SHA256", () => {
+    const body = '{"id":"job"}';
+    const expected = crypto
+      .createHmac("sha256", "secret")
+      .update(`1700000000.${body}`)
+      .digest("hex");
+
+    expect(signBody("secret", 1700000000, body)).toBe(`sha256=${expected}`);
+  });
+
+  it("binds the signature to the timestamp", () => {
+    expect(signBody("secret", 1700000000, "{}")).not.toBe(
+      signBody("secret", 1700000001, "{}")
+    );
+  });
+});
@@ -0,0 +1,22 @@
+import crypto from "crypto";
+
+/**
+ * Sign an outgoing request body for partners (webhooks, job callbacks)
+ * Partners recompute the HMAC-SHA256 of `${timestamp}.${body}` with their
+ * secret and compare it with the X-Webhook-Signature header
+ * @param secret Shared signing secret
+ * @param timestamp Unix seconds sent in X-Webhook-Timestamp
+ * @param body Exact request body
+ * @returns Signature header value, `sha256=<hex>`
+ */
+export function signBody(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  const digest = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${digest}`;
+}